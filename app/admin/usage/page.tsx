@@ -0,0 +1,9 @@
+import { UsageAdmin } from "@/components/usage-admin"
+
+export default function AdminUsagePage() {
+  return (
+    <div className="min-h-screen bg-background">
+      <UsageAdmin />
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isAdminRequest } from '@/lib/admin'
+import { runSafetyCorpus } from '@/lib/safety-corpus'
+
+// 用测试语料跑一遍安全护栏规则，返回漏报和误报的条目
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const report = runSafetyCorpus()
+    return NextResponse.json({ success: report.failures.length === 0, ...report })
+  } catch (error) {
+    console.error('Safety corpus error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to run safety corpus' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { isAdminRequest } from '@/lib/admin'
+import { addDays, isDateKey, toDateKey } from '@/lib/dates'
+import type { SafetyCategory } from '@/lib/safety'
+
+const DEFAULT_RANGE_DAYS = 7
+const DEFAULT_LIMIT = 200
+const MAX_LIMIT = 1000
+
+// 列出安全护栏命中事件供人工复核，?from=&to= 指定日期范围（默认最近 7 天），?limit= 限制条数
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const to = searchParams.get('to') || toDateKey()
+    const from = searchParams.get('from') || addDays(to, -(DEFAULT_RANGE_DAYS - 1))
+    const limit = Number(searchParams.get('limit') || DEFAULT_LIMIT)
+
+    if (!isDateKey(from) || !isDateKey(to) || from > to) {
+      return NextResponse.json(
+        { error: 'Invalid date range parameter' },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: 'Invalid limit parameter' },
+        { status: 400 }
+      )
+    }
+
+    // 日期按本地时间解释，事件时间是 ISO 字符串
+    const events = await storage.safety.listEvents(
+      new Date(`${from}T00:00:00`).toISOString(),
+      new Date(`${addDays(to, 1)}T00:00:00`).toISOString(),
+      limit
+    )
+
+    const counts = events.reduce<Partial<Record<SafetyCategory, number>>>((sum, event) => ({
+      ...sum,
+      [event.category]: (sum[event.category] || 0) + 1
+    }), {})
+
+    return NextResponse.json({ success: true, from, to, counts, events })
+  } catch (error) {
+    console.error('Safety events error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load safety events' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { isAdminRequest } from '@/lib/admin'
+import { addDays, isDateKey, toDateKey } from '@/lib/dates'
+import { estimateCost, getModelPrices, getUsageQuota } from '@/lib/usage'
+
+const DEFAULT_RANGE_DAYS = 30
+
+// 按模型汇总所有用户的用量和估算花费，?from=&to= 指定日期范围（默认最近 30 天）
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams
+    const to = searchParams.get('to') || toDateKey()
+    const from = searchParams.get('from') || addDays(to, -(DEFAULT_RANGE_DAYS - 1))
+
+    if (!isDateKey(from) || !isDateKey(to) || from > to) {
+      return NextResponse.json(
+        { error: 'Invalid date range parameter' },
+        { status: 400 }
+      )
+    }
+
+    const prices = getModelPrices()
+    const models = (await storage.usage.summarizeByModel(from, to)).map(usage => ({
+      ...usage,
+      cost: estimateCost(usage, prices)
+    }))
+
+    const totals = models.reduce((sum, usage) => ({
+      requests: sum.requests + usage.requests,
+      totalTokens: sum.totalTokens + usage.totalTokens,
+      images: sum.images + usage.images,
+      cost: sum.cost + (usage.cost || 0)
+    }), { requests: 0, totalTokens: 0, images: 0, cost: 0 })
+
+    return NextResponse.json({
+      success: true,
+      from,
+      to,
+      models,
+      totals: { ...totals, cost: Math.round(totals.cost * 10000) / 10000 },
+      quota: getUsageQuota()
+    })
+  } catch (error) {
+    console.error('Usage summary error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load usage' },
+      { status: 500 }
+    )
+  }
+}
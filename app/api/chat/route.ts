@@ -1,10 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { doubaoClient, ChatMessage } from '@/lib/doubao'
+import WeightLossAssistant, { type WeightLossChatOptions, type WeightLossChatResult } from '@/lib/assistant'
+import { llmProvider } from '@/lib/llm'
+import { encodeChatStreamEvent, type ChatStreamEvent } from '@/lib/chat-stream'
+import { storage, type Conversation } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { ProviderUnavailableError } from '@/lib/llm/errors'
+import { addDays, toDateKey } from '@/lib/dates'
+import { loadDailyTargets } from '@/lib/daily-targets'
+import { createAssistantTools } from '@/lib/assistant-tools'
+import { fileNameFromUrl, fileUrlToDataUrl } from '@/lib/file-store'
+import { loadMealPhotoAnalysis, type MealPhotoAnalysis } from '@/lib/meal-photo'
+import { checkUsageQuota, createMeteredProvider, secondsUntilQuotaReset } from '@/lib/usage'
+import { createSafetyLogger, safetyTemplate, screenAssistantReply, screenUserMessage, type SafetyTrigger } from '@/lib/safety'
+import { DEFAULT_PERSONA_ID } from '@/lib/personas'
+import { getPersona } from '@/lib/persona-prompts'
+import { loadPersona } from '@/lib/persona-loader'
+import { rememberFromMessage } from '@/lib/memory-extraction'
+import { handoffSchema, type Handoff } from '@/lib/handoff'
+
+/** 单条消息最多附带的照片数 */
+const MAX_MESSAGE_IMAGES = 4
+
+/** 健身教练参考最近多少天的训练 */
+const RECENT_WORKOUT_DAYS = 7
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { message, conversationHistory = [], role = 'supportive_friend' } = body
+    const { message, conversationId, role = DEFAULT_PERSONA_ID, images = [], handoff, stream = false } = body
 
     // 验证请求参数
     if (!message || typeof message !== 'string') {
@@ -14,28 +37,174 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    if (!Array.isArray(conversationHistory)) {
+    if (typeof role !== 'string') {
       return NextResponse.json(
-        { error: 'Invalid conversationHistory parameter' },
+        { error: 'Invalid role parameter' },
         { status: 400 }
       )
     }
 
-    // 调用豆包API
-    const response = await doubaoClient.weightLossChat(
-      message,
-      conversationHistory as ChatMessage[],
-      role
-    )
+    // 照片需先通过 /api/meals/photo 上传，这里只接受本地文件地址
+    if (!Array.isArray(images) || images.length > MAX_MESSAGE_IMAGES ||
+      !images.every(url => typeof url === 'string' && fileNameFromUrl(url))) {
+      return NextResponse.json(
+        { error: 'Invalid images parameter' },
+        { status: 400 }
+      )
+    }
+
+    if (conversationId !== undefined && typeof conversationId !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid conversationId parameter' },
+        { status: 400 }
+      )
+    }
+
+    const parsedHandoff = handoff === undefined ? null : handoffSchema.safeParse(handoff)
+    if (parsedHandoff && !parsedHandoff.success) {
+      return NextResponse.json(
+        { error: 'Invalid handoff parameter', issues: parsedHandoff.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+
+    // 内置角色或当前用户的自定义角色
+    const persona = await loadPersona(userId, role)
+    if (!persona) {
+      return NextResponse.json(
+        { error: 'Invalid role parameter' },
+        { status: 400 }
+      )
+    }
+
+    const quota = await checkUsageQuota(userId)
+
+    // 今天的 token 配额用完，明天零点重置
+    if (quota.tokensExceeded) {
+      const retryAfter = secondsUntilQuotaReset()
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: '今天的聊天额度已经用完啦，休息一下，明天再来找我聊吧～',
+          code: 'quota_exceeded',
+          retryAfter
+        },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
+
+    let chatOptions: WeightLossChatOptions = {
+      role,
+      persona,
+      profile: await storage.profiles.getProfile(userId),
+      memory: await storage.facts.listFacts(userId),
+      ...(await loadImages(images)),
+      generateImages: !quota.imagesExceeded,
+      signal: request.signal
+    }
+
+    // 历史和摘要只从服务端存储读取，不传 conversationId 时按单轮对话回复
+    let conversation: Conversation | null = null
+    if (conversationId) {
+      conversation = await storage.conversations.getConversation(userId, conversationId)
+
+      if (!conversation) {
+        return NextResponse.json(
+          { error: 'Conversation not found' },
+          { status: 404 }
+        )
+      }
+
+      chatOptions = {
+        ...chatOptions,
+        ...(await loadConversation(conversation)),
+        role: conversation.role,
+        // 自定义角色已删除或不在注册表中的旧对话按默认角色回复
+        persona: await loadPersona(userId, conversation.role) ?? getPersona(DEFAULT_PERSONA_ID)
+      }
+    }
+
+    // 转接只能转到本次回复的角色
+    if (parsedHandoff) {
+      if (parsedHandoff.data.to !== chatOptions.role) {
+        return NextResponse.json(
+          { error: 'Invalid handoff parameter' },
+          { status: 400 }
+        )
+      }
+
+      chatOptions.handoff = await resolveHandoff(userId, parsedHandoff.data)
+    }
+
+    if (conversation) {
+      await saveUserMessage(conversation, message, images.length > 0 ? images : undefined, chatOptions.handoff)
+    }
+
+    chatOptions.tools = createAssistantTools(userId, chatOptions.role || DEFAULT_PERSONA_ID)
+    chatOptions.onSafetyTrigger = createSafetyLogger(userId, conversation?.id)
+
+    if (chatOptions.role === 'nutritionist') {
+      chatOptions.dailyTargets = await loadDailyTargets(userId, chatOptions.profile ?? null)
+    }
+
+    if (chatOptions.role === 'fitness_trainer') {
+      chatOptions.recentWorkouts = await storage.workouts.listWorkouts(userId, addDays(toDateKey(), -RECENT_WORKOUT_DAYS))
+    }
+
+    // 这次请求中的模型调用和图片生成都记到用户名下
+    const provider = createMeteredProvider(llmProvider, userId)
+    const assistant = new WeightLossAssistant(provider)
+
+    // 和回复并行更新长期记忆，下一轮起所有角色都能看到；不等待结果，也不随请求取消
+    // 命中安全护栏的消息（例如极端节食计划）不提取，避免变成长期事实
+    if (!screenUserMessage(message)) {
+      rememberFromMessage(provider, userId, message).catch(error => console.error('记忆更新失败:', error))
+    }
+
+    // 流式模式：以 SSE 逐步推送增量文本
+    if (stream) {
+      const events = assistant.weightLossChatStream(message, chatOptions)
+      return await streamChatResponse(conversation ? persistChatStream(events, conversation, chatOptions.onSafetyTrigger) : events)
+    }
+
+    // 调用大模型
+    const response = await assistant.weightLossChat(message, chatOptions)
+
+    const saved = conversation
+      ? await saveAssistantReply(conversation, response)
+      : null
 
     return NextResponse.json({
       success: true,
       response: response.content,
       images: response.images,
+      actions: response.actions,
+      swap: response.swap,
+      summary: response.summary,
+      conversationId: conversation?.id,
+      messageId: saved?.id,
       timestamp: new Date().toISOString()
     })
 
   } catch (error) {
+    // 服务熔断中，快速失败并告知客户端何时重试
+    if (error instanceof ProviderUnavailableError) {
+      const retryAfter = Math.ceil(error.retryAfterMs / 1000)
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'AI service is temporarily unavailable',
+          code: 'provider_unavailable',
+          retryAfter
+        },
+        { status: 503, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
+
     console.error('Chat API error:', error)
 
     // 返回友好的错误消息
@@ -52,16 +221,168 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * 读取已保存的对话历史和摘要
+ */
+async function loadConversation(conversation: Conversation): Promise<Pick<WeightLossChatOptions, 'conversationHistory' | 'summary'>> {
+  const messages = await storage.conversations.listMessages(conversation.id)
+
+  return {
+    conversationHistory: messages.map(item => ({ role: item.role, content: item.content })),
+    summary: conversation.summary
+  }
+}
+
+/**
+ * 上传时已识别过的餐食照片直接使用识别结果，其余照片读成 data URL 发给模型
+ */
+async function loadImages(urls: string[]): Promise<Pick<WeightLossChatOptions, 'images' | 'photoAnalyses'>> {
+  const analyses = await Promise.all(urls.map(loadMealPhotoAnalysis))
+  const dataUrls = await Promise.all(urls.map((url, index) => analyses[index] ? null : fileUrlToDataUrl(url)))
+
+  return {
+    images: dataUrls.filter((url): url is string => url !== null),
+    photoAnalyses: analyses.filter((analysis): analysis is MealPhotoAnalysis => analysis !== null)
+  }
+}
+
+/**
+ * 补上原角色的名称，原角色是已删除的自定义角色时用通用称呼
+ */
+async function resolveHandoff(userId: string, handoff: Omit<Handoff, 'fromName'>): Promise<Handoff> {
+  const from = await loadPersona(userId, handoff.from)
+  return { ...handoff, fromName: from?.name.zh ?? '另一位教练' }
+}
+
+async function saveUserMessage(conversation: Conversation, message: string, images?: string[], handoff?: Handoff) {
+  await storage.conversations.appendMessage(conversation.id, { role: 'user', content: message, images, handoff })
+
+  // 用第一条消息作为对话标题
+  if (!conversation.title) {
+    await storage.conversations.updateConversation(conversation.userId, conversation.id, { title: message.slice(0, 30) })
+  }
+}
+
+async function saveAssistantReply(
+  conversation: Conversation,
+  { content, images, actions, swap, summary }: Pick<WeightLossChatResult, 'content' | 'images' | 'actions' | 'swap' | 'summary'>
+) {
+  const message = await storage.conversations.appendMessage(conversation.id, {
+    role: 'assistant',
+    content,
+    images,
+    actions: actions?.map(action => ({ action, status: 'pending' as const })),
+    swap
+  })
+
+  if (summary && summary.messageCount !== conversation.summary?.messageCount) {
+    await storage.conversations.updateConversation(conversation.userId, conversation.id, { summary })
+  }
+
+  return message
+}
+
+/**
+ * 在转发流式事件的同时保存助手回复，用户中途停止时保存已生成的部分
+ * 停止时回复还没经过完整筛查，先筛查已生成的部分，命中时保存安全模板，并在消费方还在读取时推送 replace 事件
+ */
+async function* persistChatStream(
+  events: AsyncGenerator<ChatStreamEvent>,
+  conversation: Conversation,
+  onSafetyTrigger?: (trigger: SafetyTrigger) => void
+): AsyncGenerator<ChatStreamEvent> {
+  let content = ''
+  // 已经被替换成安全模板，不用再筛查
+  let replaced = false
+  let saved = false
+
+  try {
+    for await (const event of events) {
+      if (event.type === 'delta') {
+        content += event.content
+      } else if (event.type === 'tool') {
+        // 和助手一样在新一轮回复开始时丢弃之前的文本
+        content = ''
+      } else if (event.type === 'replace') {
+        content = event.content
+        replaced = true
+      } else if (event.type === 'done') {
+        const message = await saveAssistantReply(conversation, event)
+        saved = true
+        yield { ...event, messageId: message.id }
+        continue
+      }
+      yield event
+    }
+  } finally {
+    if (!saved && content) {
+      const trigger = replaced ? null : screenAssistantReply(content)
+      if (trigger) onSafetyTrigger?.(trigger)
+      const reply = trigger ? safetyTemplate(trigger.category) : content
+      await saveAssistantReply(conversation, { content: reply })
+
+      // 保存之后再推送：客户端已断开时这里会停住，不能让它挡住保存
+      if (trigger) {
+        yield { type: 'replace', content: reply }
+      }
+    }
+  }
+}
+
+/**
+ * 构造 SSE 响应，客户端断开时通过 request.signal 中止上游请求
+ * 先取出第一个事件再返回响应，服务不可用时可以直接返回 503
+ */
+async function streamChatResponse(events: AsyncGenerator<ChatStreamEvent>) {
+  const encoder = new TextEncoder()
+  const first = await events.next()
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (first.done) {
+        controller.close()
+        return
+      }
+      controller.enqueue(encoder.encode(encodeChatStreamEvent(first.value)))
+    },
+    async pull(controller) {
+      try {
+        const { done, value } = await events.next()
+        if (done) {
+          controller.close()
+          return
+        }
+        controller.enqueue(encoder.encode(encodeChatStreamEvent(value)))
+      } catch (error) {
+        console.error('Chat stream error:', error)
+        controller.close()
+      }
+    },
+    async cancel() {
+      await events.return(undefined)
+    }
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+    }
+  })
+}
+
 // 健康检查端点
 export async function GET() {
-  const apiStatus = doubaoClient.getStatus()
+  const apiStatus = llmProvider.getStatus()
 
   return NextResponse.json({
     status: 'healthy',
     service: 'weight-loss-assistant-chat-api',
-    api: 'doubao',
+    api: apiStatus.provider,
     apiConfigured: apiStatus.configured,
     apiModel: apiStatus.model,
+    apiCircuit: apiStatus.circuit,
     timestamp: new Date().toISOString()
   })
 }
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { isDateKey, toDateKey } from '@/lib/dates'
+import { profileSchema } from '@/lib/profile'
+import { parseChatAction, type ChatAction } from '@/lib/chat-actions'
+
+type RouteContext = { params: Promise<{ id: string; messageId: string }> }
+
+const decisionSchema = z.object({
+  index: z.number().int().min(0),
+  decision: z.enum(['apply', 'dismiss']),
+  // 用户本地的今天，操作没有写明日期时使用
+  date: z.string().refine(isDateKey).optional()
+})
+
+// 确认或忽略助手提议的操作，确认时写入对应的记录
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id, messageId } = await params
+    const parsed = decisionSchema.safeParse(await request.json())
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid action decision', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+    const conversation = await storage.conversations.getConversation(userId, id)
+
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+    }
+
+    const messages = await storage.conversations.listMessages(id)
+    const message = messages.find(item => item.id === messageId)
+    const { index, decision, date } = parsed.data
+    const target = message?.actions?.[index]
+
+    if (!message || !target) {
+      return NextResponse.json({ error: 'Action not found' }, { status: 404 })
+    }
+
+    // 保存前已校验过，这里再校验一次，防止旧数据不符合当前规则
+    const action = parseChatAction(target.action)
+    if (!action) {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+    }
+
+    // 先原子地把状态从 pending 改掉再写入记录，并发的重复确认只有一个能成功
+    const status = decision === 'apply' ? 'applied' as const : 'dismissed' as const
+    const actions = await storage.conversations.updateActionStatus(id, messageId, index, 'pending', status)
+    if (!actions) {
+      return NextResponse.json({ error: 'Action already handled' }, { status: 409 })
+    }
+
+    let result: Record<string, unknown> = {}
+    if (decision === 'apply') {
+      // 写入失败时恢复为待确认，用户可以再试一次
+      const applied = await applyChatAction(userId, action, date ?? toDateKey()).catch(async error => {
+        await storage.conversations.updateActionStatus(id, messageId, index, status, 'pending')
+        throw error
+      })
+      if (!applied) {
+        await storage.conversations.updateActionStatus(id, messageId, index, status, 'pending')
+        return NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+      }
+      result = applied
+    }
+
+    return NextResponse.json({ success: true, actions, ...result })
+  } catch (error) {
+    console.error('Apply chat action error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to apply action' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * 把操作写入饮食、体重、训练记录或用户资料
+ * 没有写明日期的记录记到 today
+ * 调整目标需要已有资料，没有时返回 null；转接不写入记录，由前端切换角色
+ */
+async function applyChatAction(userId: string, action: ChatAction, today: string): Promise<Record<string, unknown> | null> {
+  switch (action.type) {
+    case 'log_meal': {
+      const [entry] = await storage.meals.addMeals(userId, [{ ...action.entry, date: action.entry.date || today }])
+      return { entry }
+    }
+    case 'log_weight': {
+      const entry = await storage.weights.upsertWeight(userId, {
+        date: action.date || today,
+        weightKg: Math.round(action.weightKg * 10) / 10
+      })
+      return { entry }
+    }
+    case 'log_workout': {
+      const session = await storage.workouts.createWorkout(userId, { ...action.session, date: action.session.date || today })
+      return { session }
+    }
+    case 'set_goal': {
+      const existing = await storage.profiles.getProfile(userId)
+      if (!existing) return null
+
+      const profile = await storage.profiles.saveProfile(userId, profileSchema.parse({
+        ...existing,
+        ...(action.goal ? { goal: action.goal } : {}),
+        ...(action.goalWeightKg ? { goalWeightKg: action.goalWeightKg } : {})
+      }))
+      return { profile }
+    }
+    case 'handoff':
+      return { handoff: { to: action.to, summary: action.summary } }
+  }
+}
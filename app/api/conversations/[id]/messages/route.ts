@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// 获取对话的全部消息
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const userId = await getUserId()
+  const conversation = await storage.conversations.getConversation(userId, id)
+
+  if (!conversation) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+  }
+
+  const messages = await storage.conversations.listMessages(id)
+
+  return NextResponse.json({ success: true, conversation, messages })
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// 获取单个对话
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const userId = await getUserId()
+  const conversation = await storage.conversations.getConversation(userId, id)
+
+  if (!conversation) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true, conversation })
+}
+
+// 删除对话及其全部消息
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const userId = await getUserId()
+  const deleted = await storage.conversations.deleteConversation(userId, id)
+
+  if (!deleted) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { loadPersona } from '@/lib/persona-loader'
+
+// 列出当前用户的对话，可通过 ?role= 按角色筛选
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserId()
+    const role = request.nextUrl.searchParams.get('role') || undefined
+
+    if (role !== undefined && !(await loadPersona(userId, role))) {
+      return NextResponse.json(
+        { error: 'Invalid role parameter' },
+        { status: 400 }
+      )
+    }
+
+    const conversations = await storage.conversations.listConversations(userId, role)
+
+    return NextResponse.json({ success: true, conversations })
+  } catch (error) {
+    console.error('List conversations error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to list conversations' },
+      { status: 500 }
+    )
+  }
+}
+
+// 新建对话
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { role, title = '' } = body
+
+    if (typeof role !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid role parameter' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof title !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid title parameter' },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+
+    if (!(await loadPersona(userId, role))) {
+      return NextResponse.json(
+        { error: 'Invalid role parameter' },
+        { status: 400 }
+      )
+    }
+
+    const conversation = await storage.conversations.createConversation(userId, role, title.slice(0, 100))
+
+    return NextResponse.json({ success: true, conversation }, { status: 201 })
+  } catch (error) {
+    console.error('Create conversation error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create conversation' },
+      { status: 500 }
+    )
+  }
+}
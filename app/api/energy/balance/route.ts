@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { isDateKey, toDateKey } from '@/lib/dates'
+import { estimateSessionBurn, resolveBodyWeight } from '@/lib/energy'
+import { sumNutrition } from '@/lib/meals'
+import { loadDailyTargets } from '@/lib/daily-targets'
+
+// 某天的能量收支：饮食摄入、运动消耗和目标，?date=YYYY-MM-DD（默认今天）
+export async function GET(request: NextRequest) {
+  const date = request.nextUrl.searchParams.get('date') || toDateKey()
+
+  if (!isDateKey(date)) {
+    return NextResponse.json(
+      { error: 'Invalid date parameter' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const userId = await getUserId()
+    const [profile, meals, workouts] = await Promise.all([
+      storage.profiles.getProfile(userId),
+      storage.meals.listMeals(userId, date, date),
+      storage.workouts.listWorkouts(userId, date, date)
+    ])
+
+    const bodyWeight = resolveBodyWeight(profile)
+    const intakeKcal = Math.round(sumNutrition(meals).calories)
+    const exerciseKcal = workouts.reduce((sum, session) => sum + estimateSessionBurn(session, bodyWeight.weightKg).totalKcal, 0)
+    const targetKcal = (await loadDailyTargets(userId, profile))?.targets.calories ?? null
+
+    return NextResponse.json({
+      success: true,
+      date,
+      intakeKcal,
+      exerciseKcal,
+      targetKcal,
+      // 运动消耗计入当天可摄入额度
+      remainingKcal: targetKcal !== null ? targetKcal + exerciseKcal - intakeKcal : null,
+      weightSource: bodyWeight.source
+    })
+  } catch (error) {
+    console.error('Energy balance error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load energy balance' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { estimateActivityBurn, estimateSessionBurn, resolveBodyWeight } from '@/lib/energy'
+import { workoutSessionSchema } from '@/lib/workouts'
+
+// 估算单项运动的消耗，?exerciseId=running&minutes=30
+export async function GET(request: NextRequest) {
+  const exerciseId = request.nextUrl.searchParams.get('exerciseId') || ''
+  const minutes = Number(request.nextUrl.searchParams.get('minutes'))
+
+  if (!Number.isFinite(minutes) || minutes <= 0 || minutes > 600) {
+    return NextResponse.json(
+      { error: 'Invalid minutes parameter' },
+      { status: 400 }
+    )
+  }
+
+  const userId = await getUserId()
+  const bodyWeight = resolveBodyWeight(await storage.profiles.getProfile(userId))
+  const kcal = estimateActivityBurn(exerciseId, minutes, bodyWeight.weightKg)
+
+  if (kcal === null) {
+    return NextResponse.json(
+      { error: 'Invalid exerciseId parameter' },
+      { status: 400 }
+    )
+  }
+
+  return NextResponse.json({ success: true, kcal, ...bodyWeight })
+}
+
+// 估算一次（尚未保存的）训练的消耗，请求体与 POST /api/workouts 相同
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = workoutSessionSchema.omit({ date: true }).safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid workout session', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+    const bodyWeight = resolveBodyWeight(await storage.profiles.getProfile(userId))
+
+    return NextResponse.json({
+      success: true,
+      burn: estimateSessionBurn(parsed.data, bodyWeight.weightKg),
+      ...bodyWeight
+    })
+  } catch (error) {
+    console.error('Estimate burn error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to estimate burn' },
+      { status: 500 }
+    )
+  }
+}
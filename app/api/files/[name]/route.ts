@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readStoredFile } from '@/lib/file-store'
+
+type RouteContext = { params: Promise<{ name: string }> }
+
+// 读取本地保存的文件，文件名即内容哈希，可以长期缓存
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { name } = await params
+  const file = await readStoredFile(name)
+
+  if (!file) {
+    return NextResponse.json({ error: 'File not found' }, { status: 404 })
+  }
+
+  return new Response(new Uint8Array(file.data), {
+    headers: {
+      'Content-Type': file.contentType,
+      'Cache-Control': 'private, max-age=31536000, immutable'
+    }
+  })
+}
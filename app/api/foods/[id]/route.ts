@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getFood } from '@/lib/nutrition'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// 获取单个食物的完整营养数据
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const food = getFood(id)
+
+  if (!food) {
+    return NextResponse.json({ error: 'Food not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true, food })
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { foodCategories, searchFoods, type FoodCategory } from '@/lib/nutrition'
+
+const MAX_LIMIT = 50
+
+// 搜索内置食物成分表，?q= 关键词（中文、英文或拼音），可选 ?category= 和 ?limit=
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams
+  const query = searchParams.get('q')?.trim() || ''
+  const category = searchParams.get('category')
+  const limit = Math.min(Number(searchParams.get('limit')) || 10, MAX_LIMIT)
+
+  if (query.length > 50) {
+    return NextResponse.json(
+      { error: 'Invalid q parameter' },
+      { status: 400 }
+    )
+  }
+
+  if (category && !Object.hasOwn(foodCategories, category)) {
+    return NextResponse.json(
+      { error: 'Invalid category parameter' },
+      { status: 400 }
+    )
+  }
+
+  const results = searchFoods(query, { limit, category: (category || undefined) as FoodCategory | undefined })
+
+  return NextResponse.json({
+    success: true,
+    foods: results.map(result => result.food)
+  })
+}
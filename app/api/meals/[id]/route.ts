@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { mealEntrySchema } from '@/lib/meals'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// 修改饮食记录（份量、营养数值或餐次）
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const parsed = mealEntrySchema.partial().safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid meal entry', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+    const entry = await storage.meals.updateMeal(userId, id, parsed.data)
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Meal entry not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, entry })
+  } catch (error) {
+    console.error('Update meal error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update meal' },
+      { status: 500 }
+    )
+  }
+}
+
+// 删除饮食记录
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const userId = await getUserId()
+  const deleted = await storage.meals.deleteMeal(userId, id)
+
+  if (!deleted) {
+    return NextResponse.json({ error: 'Meal entry not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
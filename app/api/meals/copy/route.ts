@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { addDays, isDateKey, toDateKey } from '@/lib/dates'
+import { mealSlotSchema } from '@/lib/meals'
+
+// 把某天（默认前一天）的记录复制到目标日期，可只复制一个餐次
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { to = toDateKey(), slot } = body
+    const from = body.from ?? (isDateKey(to) ? addDays(to, -1) : undefined)
+
+    if (!isDateKey(from) || !isDateKey(to) || from === to) {
+      return NextResponse.json(
+        { error: 'Invalid from or to parameter' },
+        { status: 400 }
+      )
+    }
+
+    if (slot !== undefined && !mealSlotSchema.safeParse(slot).success) {
+      return NextResponse.json(
+        { error: 'Invalid slot parameter' },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+    const source = await storage.meals.listMeals(userId, from, from)
+    const entries = await storage.meals.addMeals(
+      userId,
+      source
+        .filter(entry => !slot || entry.slot === slot)
+        .map(({ id: _id, createdAt: _createdAt, ...entry }) => ({ ...entry, date: to }))
+    )
+
+    return NextResponse.json({ success: true, entries }, { status: 201 })
+  } catch (error) {
+    console.error('Copy meals error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to copy meals' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { isDateKey, toDateKey } from '@/lib/dates'
+import { mealSlotSchema, type MealSlot } from '@/lib/meals'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// 把收藏的一餐添加到指定日期和餐次
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const { date = toDateKey(), slot } = body
+
+    if (!isDateKey(date) || !mealSlotSchema.safeParse(slot).success) {
+      return NextResponse.json(
+        { error: 'Invalid date or slot parameter' },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+    const favorite = await storage.meals.getFavorite(userId, id)
+
+    if (!favorite) {
+      return NextResponse.json({ error: 'Favorite not found' }, { status: 404 })
+    }
+
+    const entries = await storage.meals.addMeals(
+      userId,
+      favorite.items.map(item => ({ ...item, date, slot: slot as MealSlot }))
+    )
+
+    return NextResponse.json({ success: true, entries }, { status: 201 })
+  } catch (error) {
+    console.error('Apply favorite error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to apply favorite' },
+      { status: 500 }
+    )
+  }
+}
+
+// 删除收藏
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const userId = await getUserId()
+  const deleted = await storage.meals.deleteFavorite(userId, id)
+
+  if (!deleted) {
+    return NextResponse.json({ error: 'Favorite not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
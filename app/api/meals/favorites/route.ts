@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { isDateKey } from '@/lib/dates'
+import { mealSlotSchema } from '@/lib/meals'
+
+// 列出收藏的餐
+export async function GET() {
+  try {
+    const userId = await getUserId()
+    const favorites = await storage.meals.listFavorites(userId)
+
+    return NextResponse.json({ success: true, favorites })
+  } catch (error) {
+    console.error('List favorites error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load favorites' },
+      { status: 500 }
+    )
+  }
+}
+
+// 把某天某个餐次的全部记录收藏为一餐
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { name, date, slot } = body
+
+    if (!name || typeof name !== 'string' || name.trim().length > 50) {
+      return NextResponse.json(
+        { error: 'Invalid name parameter' },
+        { status: 400 }
+      )
+    }
+
+    if (!isDateKey(date) || !mealSlotSchema.safeParse(slot).success) {
+      return NextResponse.json(
+        { error: 'Invalid date or slot parameter' },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+    const entries = (await storage.meals.listMeals(userId, date, date)).filter(entry => entry.slot === slot)
+
+    if (entries.length === 0) {
+      return NextResponse.json(
+        { error: 'No meal entries to save' },
+        { status: 400 }
+      )
+    }
+
+    const favorite = await storage.meals.createFavorite(
+      userId,
+      name.trim(),
+      entries.map(({ name, portion, unit, calories, proteinG, carbsG, fatG }) => ({ name, portion, unit, calories, proteinG, carbsG, fatG }))
+    )
+
+    return NextResponse.json({ success: true, favorite }, { status: 201 })
+  } catch (error) {
+    console.error('Save favorite error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save favorite' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { llmProvider } from '@/lib/llm'
+import { ProviderUnavailableError } from '@/lib/llm/errors'
+import { InvalidPhotoError, MAX_PHOTO_BYTES, analyzeMealPhoto } from '@/lib/meal-photo'
+import { getUserId } from '@/lib/session'
+import { checkUsageQuota, createMeteredProvider, secondsUntilQuotaReset } from '@/lib/usage'
+
+// 上传餐食照片（multipart，字段 photo），返回保存后的地址和识别出的食物
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData().catch(() => null)
+    const photo = form?.get('photo')
+
+    if (!(photo instanceof File) || !photo.type.startsWith('image/') || photo.size === 0) {
+      return NextResponse.json(
+        { error: 'Invalid photo parameter' },
+        { status: 400 }
+      )
+    }
+
+    if (photo.size > MAX_PHOTO_BYTES) {
+      return NextResponse.json(
+        { error: 'Photo is too large' },
+        { status: 413 }
+      )
+    }
+
+    const userId = await getUserId()
+    const quota = await checkUsageQuota(userId)
+
+    // 识图和聊天共用每日 token 配额，明天零点重置
+    if (quota.tokensExceeded) {
+      const retryAfter = secondsUntilQuotaReset()
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: '今天的识图额度已经用完啦，明天再来试试吧～',
+          code: 'quota_exceeded',
+          retryAfter
+        },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
+
+    const provider = createMeteredProvider(llmProvider, userId)
+    const analysis = await analyzeMealPhoto(provider, Buffer.from(await photo.arrayBuffer()), request.signal)
+
+    return NextResponse.json({ success: true, ...analysis })
+  } catch (error) {
+    // 声明为图片但内容损坏或格式不支持
+    if (error instanceof InvalidPhotoError) {
+      return NextResponse.json(
+        { error: 'Invalid photo parameter' },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof ProviderUnavailableError) {
+      const retryAfter = Math.ceil(error.retryAfterMs / 1000)
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'AI service is temporarily unavailable',
+          code: 'provider_unavailable',
+          retryAfter
+        },
+        { status: 503, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
+
+    console.error('Analyze meal photo error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to analyze photo' },
+      { status: 500 }
+    )
+  }
+}
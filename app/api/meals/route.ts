@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { isDateKey, toDateKey } from '@/lib/dates'
+import { mealEntrySchema, sumNutrition } from '@/lib/meals'
+import { loadDailyTargets } from '@/lib/daily-targets'
+
+// 获取某天的饮食日记、汇总和每日目标，?date=YYYY-MM-DD（默认今天）
+export async function GET(request: NextRequest) {
+  const date = request.nextUrl.searchParams.get('date') || toDateKey()
+
+  if (!isDateKey(date)) {
+    return NextResponse.json(
+      { error: 'Invalid date parameter' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const userId = await getUserId()
+    const [entries, profile] = await Promise.all([
+      storage.meals.listMeals(userId, date, date),
+      storage.profiles.getProfile(userId)
+    ])
+    const daily = await loadDailyTargets(userId, profile)
+
+    return NextResponse.json({
+      success: true,
+      date,
+      entries,
+      totals: sumNutrition(entries),
+      // 未填写资料时无法估算目标
+      targets: daily?.targets ?? null
+    })
+  } catch (error) {
+    console.error('List meals error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load meals' },
+      { status: 500 }
+    )
+  }
+}
+
+// 添加饮食记录，body 为单条记录，或 { entries: [...] } 一次添加多条（拍照识别时使用）
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+
+    if (Array.isArray(body?.entries)) {
+      const parsed = z.array(mealEntrySchema).min(1).max(20).safeParse(
+        body.entries.map((entry: object) => ({ date: toDateKey(), ...entry }))
+      )
+
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: 'Invalid meal entries', issues: parsed.error.issues },
+          { status: 400 }
+        )
+      }
+
+      const userId = await getUserId()
+      const entries = await storage.meals.addMeals(userId, parsed.data)
+
+      return NextResponse.json({ success: true, entries }, { status: 201 })
+    }
+
+    const parsed = mealEntrySchema.safeParse({ date: toDateKey(), ...body })
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid meal entry', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+    const [entry] = await storage.meals.addMeals(userId, [parsed.data])
+
+    return NextResponse.json({ success: true, entry }, { status: 201 })
+  } catch (error) {
+    console.error('Save meal error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save meal' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { memoryFactSchema } from '@/lib/user-memory'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// 修改一条记忆
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const parsed = memoryFactSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid memory fact', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+    const fact = await storage.facts.updateFact(userId, id, parsed.data)
+
+    if (!fact) {
+      return NextResponse.json({ error: 'Memory fact not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, fact })
+  } catch (error) {
+    console.error('Update memory error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update memory' },
+      { status: 500 }
+    )
+  }
+}
+
+// 删除一条记忆
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const userId = await getUserId()
+  const deleted = await storage.facts.deleteFact(userId, id)
+
+  if (!deleted) {
+    return NextResponse.json({ error: 'Memory fact not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { MAX_MEMORY_FACTS, memoryFactSchema } from '@/lib/user-memory'
+
+// 列出长期记忆
+export async function GET() {
+  try {
+    const userId = await getUserId()
+    const facts = await storage.facts.listFacts(userId)
+
+    return NextResponse.json({ success: true, facts })
+  } catch (error) {
+    console.error('List memory error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load memory' },
+      { status: 500 }
+    )
+  }
+}
+
+// 手动添加一条记忆
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = memoryFactSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid memory fact', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+    const existing = await storage.facts.listFacts(userId)
+
+    if (existing.length >= MAX_MEMORY_FACTS) {
+      return NextResponse.json(
+        { error: 'Too many memory facts' },
+        { status: 400 }
+      )
+    }
+
+    const [fact] = await storage.facts.addFacts(userId, [parsed.data], 'user')
+
+    return NextResponse.json({ success: true, fact }, { status: 201 })
+  } catch (error) {
+    console.error('Create memory error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save memory' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { customPersonaSchema } from '@/lib/custom-personas'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// 修改自定义角色，body 为完整设定
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const parsed = customPersonaSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid persona', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+    const persona = await storage.personas.updatePersona(userId, id, parsed.data)
+
+    if (!persona) {
+      return NextResponse.json({ error: 'Persona not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, persona })
+  } catch (error) {
+    console.error('Update persona error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update persona' },
+      { status: 500 }
+    )
+  }
+}
+
+// 删除自定义角色，已有对话保留，之后按默认角色回复
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const userId = await getUserId()
+  const deleted = await storage.personas.deletePersona(userId, id)
+
+  if (!deleted) {
+    return NextResponse.json({ error: 'Persona not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { MAX_CUSTOM_PERSONAS, customPersonaSchema } from '@/lib/custom-personas'
+import { listUserPersonas } from '@/lib/persona-loader'
+
+// 列出可选的聊天角色（不含系统提示），以及当前用户自定义角色的原始设定
+export async function GET() {
+  try {
+    const userId = await getUserId()
+    const [personas, custom] = await Promise.all([
+      listUserPersonas(userId),
+      storage.personas.listPersonas(userId)
+    ])
+
+    return NextResponse.json({ success: true, personas, custom })
+  } catch (error) {
+    console.error('List personas error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load personas' },
+      { status: 500 }
+    )
+  }
+}
+
+// 新建自定义角色
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = customPersonaSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid persona', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+    const existing = await storage.personas.listPersonas(userId)
+
+    if (existing.length >= MAX_CUSTOM_PERSONAS) {
+      return NextResponse.json(
+        { error: 'Too many custom personas' },
+        { status: 400 }
+      )
+    }
+
+    const persona = await storage.personas.createPersona(userId, parsed.data)
+
+    return NextResponse.json({ success: true, persona }, { status: 201 })
+  } catch (error) {
+    console.error('Create persona error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create persona' },
+      { status: 500 }
+    )
+  }
+}
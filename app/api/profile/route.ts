@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { profileSchema } from '@/lib/profile'
+
+// 获取当前用户资料，尚未填写时 profile 为 null
+export async function GET() {
+  try {
+    const userId = await getUserId()
+    const profile = await storage.profiles.getProfile(userId)
+
+    return NextResponse.json({ success: true, profile })
+  } catch (error) {
+    console.error('Get profile error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load profile' },
+      { status: 500 }
+    )
+  }
+}
+
+// 保存用户资料
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = profileSchema.safeParse(body)
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid profile', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+    const profile = await storage.profiles.saveProfile(userId, parsed.data)
+
+    return NextResponse.json({ success: true, profile })
+  } catch (error) {
+    console.error('Save profile error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { loadDailyTargets } from '@/lib/daily-targets'
+
+// 获取自适应 TDEE 估算和每日营养目标，未填写资料时均为 null
+export async function GET() {
+  try {
+    const userId = await getUserId()
+    const profile = await storage.profiles.getProfile(userId)
+    const daily = await loadDailyTargets(userId, profile)
+
+    return NextResponse.json({
+      success: true,
+      tdee: daily?.tdee ?? null,
+      targets: daily?.targets ?? null
+    })
+  } catch (error) {
+    console.error('TDEE estimate error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to estimate TDEE' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { addDays, isDateKey, toDateKey } from '@/lib/dates'
+import { summarizeWeightTrend } from '@/lib/weight-trend'
+
+const DEFAULT_RANGE_DAYS = 90
+
+// 获取称重记录和趋势，?days= 指定返回最近多少天（默认 90）
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserId()
+    const days = Number(request.nextUrl.searchParams.get('days')) || DEFAULT_RANGE_DAYS
+    const today = toDateKey()
+
+    const [entries, profile] = await Promise.all([
+      storage.weights.listWeights(userId),
+      storage.profiles.getProfile(userId)
+    ])
+
+    // 趋势基于全部记录计算，只截取展示范围，避免范围起点的趋势失真
+    const trend = summarizeWeightTrend(entries, profile?.goalWeightKg)
+    const from = addDays(today, -days)
+
+    return NextResponse.json({
+      success: true,
+      entries: entries.filter(entry => entry.date >= from),
+      points: trend.points.filter(point => point.date >= from),
+      currentTrendKg: trend.currentTrendKg,
+      weeklyRateKg: trend.weeklyRateKg,
+      projectedGoalDate: trend.projectedGoalDate,
+      goalWeightKg: profile?.goalWeightKg ?? null
+    })
+  } catch (error) {
+    console.error('List weights error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load weights' },
+      { status: 500 }
+    )
+  }
+}
+
+// 记录某天的体重，同一天重复记录会覆盖
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { date = toDateKey(), weightKg, note } = body
+
+    if (!isDateKey(date)) {
+      return NextResponse.json(
+        { error: 'Invalid date parameter' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof weightKg !== 'number' || weightKg < 20 || weightKg > 400) {
+      return NextResponse.json(
+        { error: 'Invalid weightKg parameter' },
+        { status: 400 }
+      )
+    }
+
+    if (note !== undefined && typeof note !== 'string') {
+      return NextResponse.json(
+        { error: 'Invalid note parameter' },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+    const entry = await storage.weights.upsertWeight(userId, {
+      date,
+      weightKg: Math.round(weightKg * 10) / 10,
+      note: note?.slice(0, 200) || undefined
+    })
+
+    return NextResponse.json({ success: true, entry }, { status: 201 })
+  } catch (error) {
+    console.error('Save weight error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save weight' },
+      { status: 500 }
+    )
+  }
+}
+
+// 删除某天的记录，?date=YYYY-MM-DD
+export async function DELETE(request: NextRequest) {
+  const date = request.nextUrl.searchParams.get('date')
+
+  if (!isDateKey(date)) {
+    return NextResponse.json(
+      { error: 'Invalid date parameter' },
+      { status: 400 }
+    )
+  }
+
+  const userId = await getUserId()
+  const deleted = await storage.weights.deleteWeight(userId, date)
+
+  if (!deleted) {
+    return NextResponse.json({ error: 'Weight entry not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
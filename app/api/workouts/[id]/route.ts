@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// 获取单次训练
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const userId = await getUserId()
+  const session = await storage.workouts.getWorkout(userId, id)
+
+  if (!session) {
+    return NextResponse.json({ error: 'Workout not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true, session })
+}
+
+// 删除训练记录
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  const userId = await getUserId()
+  const deleted = await storage.workouts.deleteWorkout(userId, id)
+
+  if (!deleted) {
+    return NextResponse.json({ error: 'Workout not found' }, { status: 404 })
+  }
+
+  return NextResponse.json({ success: true })
+}
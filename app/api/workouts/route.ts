@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { storage } from '@/lib/storage'
+import { getUserId } from '@/lib/session'
+import { addDays, toDateKey } from '@/lib/dates'
+import { estimateSessionBurn, resolveBodyWeight } from '@/lib/energy'
+import { workoutSessionSchema } from '@/lib/workouts'
+
+const DEFAULT_RANGE_DAYS = 90
+
+// 获取训练记录（按日期倒序，附带消耗估算），?days= 指定返回最近多少天（默认 90）
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserId()
+    const days = Number(request.nextUrl.searchParams.get('days')) || DEFAULT_RANGE_DAYS
+    const [sessions, profile] = await Promise.all([
+      storage.workouts.listWorkouts(userId, addDays(toDateKey(), -days)),
+      storage.profiles.getProfile(userId)
+    ])
+    const { weightKg } = resolveBodyWeight(profile)
+
+    return NextResponse.json({
+      success: true,
+      sessions: sessions.map(session => ({ ...session, burn: estimateSessionBurn(session, weightKg) }))
+    })
+  } catch (error) {
+    console.error('List workouts error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to load workouts' },
+      { status: 500 }
+    )
+  }
+}
+
+// 保存一次训练
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const parsed = workoutSessionSchema.safeParse({ date: toDateKey(), ...body })
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid workout session', issues: parsed.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const userId = await getUserId()
+    const session = await storage.workouts.createWorkout(userId, parsed.data)
+
+    return NextResponse.json({ success: true, session }, { status: 201 })
+  } catch (error) {
+    console.error('Save workout error:', error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save workout' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,19 @@
+import { OnboardingWizard } from "@/components/onboarding-wizard"
+import { BottomNav } from "@/components/bottom-nav"
+
+export default function OnboardingPage() {
+  return (
+    <div className="flex flex-col h-screen bg-background">
+      <div className="flex-1 overflow-y-auto px-4 py-6">
+        <div className="max-w-md mx-auto space-y-6">
+          <div className="space-y-1">
+            <h1 className="text-2xl font-bold text-foreground">个人资料</h1>
+            <p className="text-sm text-muted-foreground">花一分钟告诉我们你的情况，让建议更贴合你</p>
+          </div>
+          <OnboardingWizard />
+        </div>
+      </div>
+      <BottomNav />
+    </div>
+  )
+}
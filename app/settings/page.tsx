@@ -0,0 +1,11 @@
+import { BottomNav } from "@/components/bottom-nav"
+import { MemorySettings } from "@/components/memory-settings"
+
+export default function SettingsPage() {
+  return (
+    <div className="flex flex-col h-screen bg-background">
+      <MemorySettings />
+      <BottomNav />
+    </div>
+  )
+}
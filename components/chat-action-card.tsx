@@ -0,0 +1,49 @@
+"use client"
+
+import { ArrowRightLeft, Check, Dumbbell, Scale, Target, UtensilsCrossed, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { describeChatAction, type ChatActionType, type MessageAction } from "@/lib/chat-actions"
+
+const actionIcons: Record<ChatActionType, typeof Check> = {
+  log_meal: UtensilsCrossed,
+  log_weight: Scale,
+  log_workout: Dumbbell,
+  set_goal: Target,
+  handoff: ArrowRightLeft,
+}
+
+interface ChatActionCardProps {
+  item: MessageAction
+  busy?: boolean
+  onApply: () => void
+  onDismiss: () => void
+}
+
+export function ChatActionCard({ item, busy, onApply, onDismiss }: ChatActionCardProps) {
+  const { title, detail } = describeChatAction(item.action)
+  const Icon = actionIcons[item.action.type]
+  const isHandoff = item.action.type === "handoff"
+
+  return (
+    <div className="flex items-center gap-3 rounded-xl border border-border/50 bg-card/95 backdrop-blur-md shadow-lg px-3 py-2 text-sm">
+      <Icon className="h-4 w-4 shrink-0 text-primary" />
+      <div className="min-w-0 flex-1">
+        <p className="font-medium">{title}</p>
+        <p className="text-xs text-muted-foreground truncate">{detail}</p>
+      </div>
+
+      {item.status === "pending" ? (
+        <div className="flex gap-1">
+          <Button variant="ghost" size="icon" className="h-7 w-7" title="忽略" disabled={busy} onClick={onDismiss}>
+            <X className="h-3.5 w-3.5" />
+          </Button>
+          <Button size="sm" className="h-7" disabled={busy} onClick={onApply}>
+            {isHandoff ? "转接" : "确认"}
+          </Button>
+        </div>
+      ) : (
+        <span className="text-xs text-muted-foreground">{item.status === "applied" ? (isHandoff ? "已转接" : "已记录") : "已忽略"}</span>
+      )}
+    </div>
+  )
+}
@@ -1,12 +1,27 @@
 "use client"
 
-import { useState, useRef, useEffect } from "react"
+import { Fragment, useState, useRef, useEffect } from "react"
+import Link from "next/link"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { ChevronLeft, Crown, Send, Loader2, Image as ImageIcon, RefreshCw } from "lucide-react"
+import { ArrowRightLeft, Camera, ChevronLeft, Crown, Send, Square, Image as ImageIcon, RefreshCw, UserCog, X } from "lucide-react"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useToast } from "@/hooks/use-toast"
+import { readChatStream } from "@/lib/chat-stream"
+import { ConversationList } from "@/components/conversation-list"
+import { ChatActionCard } from "@/components/chat-action-card"
+import { HealthySwapCard } from "@/components/healthy-swap-card"
+import { PersonaEditor } from "@/components/persona-editor"
+import { MealPhotoResult, uploadMealPhoto } from "@/components/meal-photo-result"
+import { toDateKey } from "@/lib/dates"
+import type { MealPhotoAnalysis } from "@/lib/meal-photo"
+import type { ChatAction, MessageAction } from "@/lib/chat-actions"
+import type { HealthySwap } from "@/lib/healthy-swap"
+import type { Handoff } from "@/lib/handoff"
+import { DEFAULT_PERSONA_ID, personaIds, personas, type PersonaSummary } from "@/lib/personas"
+import { toCustomPersonaRole, toPersona, type CustomPersona } from "@/lib/custom-personas"
+import type { Conversation, StoredMessage } from "@/lib/storage/types"
 
 type Message = {
   id: string
@@ -14,55 +29,96 @@ type Message = {
   content: string
   timestamp: string
   images?: string[]
+  streaming?: boolean
+  reasoning?: string
+  /** 助手正在调用的工具说明 */
+  toolLabel?: string
+  /** 服务端保存后的消息 ID，确认操作时使用 */
+  storedId?: string
+  actions?: MessageAction[]
+  /** 想吃高热量食物时的健康替换对比 */
+  swap?: HealthySwap
+  /** 从其他角色转接过来的用户消息，显示为转接事件 */
+  handoff?: Handoff
+  /** 用户发送餐食照片后的识别结果，仅在本次会话中展示 */
+  photoAnalysis?: MealPhotoAnalysis
 }
 
 type RoleMessages = {
   [key: string]: Message[]
 }
 
-const quickReplies = [
-  "I got stuck in work",
-  "I skipped lunch",
-  "Haven't eaten all day",
-  "I feel stressed today",
-  "I want to eat junk food",
-  "I didn't exercise today"
-]
-
-const roleOptions = {
-  supportive_friend: "Supportive Friend",
-  nutritionist: "Nutritionist",
-  fitness_trainer: "Fitness Trainer"
-}
+// 还没有消息的角色共用同一个空列表，避免每次渲染都得到新数组
+const noMessages: Message[] = []
+
+// 携带服务端错误码的请求错误
+class ChatRequestError extends Error {
+  code?: string
 
-const roleWelcomeMessages = {
-  supportive_friend: "Hi! I'm here to support you on your weight loss journey. How are you feeling today? Remember, every small step counts! 💪",
-  nutritionist: "Hello! I'm your nutritionist, ready to help you create a healthy eating plan. What would you like to know about nutrition today? 🥗",
-  fitness_trainer: "Hey there! I'm your fitness trainer, here to help you reach your fitness goals safely. What's your workout plan today? 💪"
+  constructor(message: string, code?: string) {
+    super(message)
+    this.code = code
+  }
 }
 
+// 每个角色对话开头的欢迎消息（仅在前端展示，不保存）
+const createWelcomeMessage = (persona: PersonaSummary): Message => ({
+  id: `${persona.id}-welcome`,
+  role: "assistant",
+  content: persona.welcomeMessage,
+  timestamp: new Date().toISOString()
+})
+
+// 前端临时消息 ID，保存到服务端后以 storedId 为准
+const createMessageId = (prefix: string) => `${prefix}-${Date.now()}`
+
+// 将服务端保存的消息转换为界面消息
+const toMessage = (stored: StoredMessage): Message => ({
+  id: stored.id,
+  role: stored.role,
+  content: stored.content,
+  timestamp: stored.createdAt,
+  images: stored.images,
+  storedId: stored.id,
+  actions: stored.actions,
+  swap: stored.swap,
+  handoff: stored.handoff
+})
+
 export function ChatInterface() {
   const [allRoleMessages, setAllRoleMessages] = useState<RoleMessages>(() => {
     const initialMessages: RoleMessages = {}
-    Object.keys(roleOptions).forEach((roleKey) => {
-      initialMessages[roleKey] = [{
-        id: `${roleKey}-welcome`,
-        role: "assistant",
-        content: roleWelcomeMessages[roleKey as keyof typeof roleWelcomeMessages],
-        timestamp: new Date().toISOString()
-      }]
+    personaIds.forEach((roleKey) => {
+      initialMessages[roleKey] = [createWelcomeMessage(personas[roleKey])]
     })
     return initialMessages
   })
 
-  const [currentRole, setCurrentRole] = useState<"supportive_friend" | "nutritionist" | "fitness_trainer">("supportive_friend")
-  const [messages, setMessages] = useState<Message[]>(allRoleMessages[currentRole])
+  // 每个角色当前打开的服务端对话，首次发送消息时创建
+  const [conversationIds, setConversationIds] = useState<{ [key: string]: string | undefined }>({})
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [hasProfile, setHasProfile] = useState(true)
+  const [currentRole, setCurrentRole] = useState<string>(DEFAULT_PERSONA_ID)
+  const [customPersonas, setCustomPersonas] = useState<CustomPersona[]>([])
+  const [personaEditorOpen, setPersonaEditorOpen] = useState(false)
+  // 当前角色的消息
+  const messages = allRoleMessages[currentRole] || noMessages
   const [input, setInput] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [backgroundImage, setBackgroundImage] = useState<string>("/weight-loss-motivation-before-after-mirror.jpg")
   const [backgroundLoaded, setBackgroundLoaded] = useState(false)
+  const [pendingActionKey, setPendingActionKey] = useState<string | null>(null)
+  const [attachedPhoto, setAttachedPhoto] = useState<{ file: File; previewUrl: string } | null>(null)
+  const photoInputRef = useRef<HTMLInputElement>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // 已经恢复过最近对话的角色
+  const loadedRolesRef = useRef<Set<string>>(new Set())
   const { toast } = useToast()
+  // 内置角色在前，自定义角色在后
+  const availablePersonas: PersonaSummary[] = [...personaIds.map(id => personas[id]), ...customPersonas.map(toPersona)]
+  const findPersona = (roleKey: string) => availablePersonas.find(item => item.id === roleKey) ?? personas[DEFAULT_PERSONA_ID]
+  const persona = findPersona(currentRole)
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
@@ -83,16 +139,116 @@ export function ChatInterface() {
     img.src = backgroundImage
   }, []) // 只在组件挂载时执行一次
 
-  // 角色切换时更新显示的消息
+  // 没有填写资料时提示用户完成引导
+  useEffect(() => {
+    fetch('/api/profile')
+      .then(response => response.json())
+      .then(data => setHasProfile(!!data.profile))
+      .catch(error => console.error('Error loading profile:', error))
+  }, [])
+
+  // 读取用户的自定义角色
   useEffect(() => {
-    setMessages(allRoleMessages[currentRole])
-  }, [currentRole, allRoleMessages])
+    fetch('/api/personas')
+      .then(response => response.json())
+      .then(data => setCustomPersonas(data.custom || []))
+      .catch(error => console.error('Error loading personas:', error))
+  }, [])
+
+  // 加载指定对话的消息并显示在对应角色下
+  const openConversation = async (roleKey: string, conversationId: string) => {
+    const response = await fetch(`/api/conversations/${conversationId}/messages`)
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load conversation')
+    }
+
+    setConversationIds(prev => ({ ...prev, [roleKey]: conversationId }))
+    setAllRoleMessages(prev => ({
+      ...prev,
+      [roleKey]: [createWelcomeMessage(findPersona(roleKey)), ...(data.messages as StoredMessage[]).map(toMessage)]
+    }))
+  }
+
+  // 首次切换到某个角色时，恢复该角色最近的一次对话
+  useEffect(() => {
+    if (loadedRolesRef.current.has(currentRole)) return
+
+    const roleKey = currentRole
+    loadedRolesRef.current.add(roleKey)
+
+    fetch(`/api/conversations?role=${roleKey}`)
+      .then(response => response.json())
+      .then(data => {
+        const latest: Conversation | undefined = data.conversations?.[0]
+        if (latest) {
+          return openConversation(roleKey, latest.id)
+        }
+      })
+      .catch(error => console.error('Error restoring conversation:', error))
+  }, [currentRole])
+
+  // 开始当前角色的新对话
+  const startNewConversation = () => {
+    setConversationIds(prev => ({ ...prev, [currentRole]: undefined }))
+    setAllRoleMessages(prev => ({ ...prev, [currentRole]: [createWelcomeMessage(persona)] }))
+  }
+
+  // 当前打开的对话被删除后回到新对话
+  const handleConversationDeleted = (conversationId: string) => {
+    if (conversationIds[currentRole] === conversationId) {
+      startNewConversation()
+    }
+  }
+
+  // 返回当前角色的对话 ID，还没有时先创建
+  const ensureConversation = async (roleKey: string): Promise<string> => {
+    const existing = conversationIds[roleKey]
+    if (existing) return existing
+
+    const response = await fetch('/api/conversations', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ role: roleKey })
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to create conversation')
+    }
+
+    setConversationIds(prev => ({ ...prev, [roleKey]: data.conversation.id }))
+    return data.conversation.id
+  }
 
   // 切换角色的处理函数
-  const handleRoleChange = (newRole: "supportive_friend" | "nutritionist" | "fitness_trainer") => {
+  const handleRoleChange = (newRole: string, newPersona: PersonaSummary = findPersona(newRole)) => {
+    // 自定义角色第一次打开时补上欢迎消息
+    setAllRoleMessages(prev => prev[newRole] ? prev : { ...prev, [newRole]: [createWelcomeMessage(newPersona)] })
     setCurrentRole(newRole)
   }
 
+  // 新建的自定义角色直接切换过去
+  const handlePersonaSaved = (saved: CustomPersona) => {
+    const isNew = !customPersonas.some(item => item.id === saved.id)
+    setCustomPersonas(prev => isNew ? [...prev, saved] : prev.map(item => item.id === saved.id ? saved : item))
+
+    if (isNew) {
+      handleRoleChange(toCustomPersonaRole(saved.id), toPersona(saved))
+      setPersonaEditorOpen(false)
+    }
+  }
+
+  const handlePersonaDeleted = (id: string) => {
+    setCustomPersonas(prev => prev.filter(item => item.id !== id))
+    if (currentRole === toCustomPersonaRole(id)) {
+      setCurrentRole(DEFAULT_PERSONA_ID)
+    }
+  }
+
   // 重置背景图片
   const resetBackground = () => {
     setBackgroundLoaded(false) // 重置加载状态
@@ -126,34 +282,90 @@ export function ChatInterface() {
     })
   }
 
+  // 更新某个角色下指定消息的内容
+  const updateRoleMessage = (roleKey: string, messageId: string, update: Partial<Message>) => {
+    setAllRoleMessages(prev => ({
+      ...prev,
+      [roleKey]: prev[roleKey].map(msg => msg.id === messageId ? { ...msg, ...update } : msg)
+    }))
+  }
+
+  // 选择要随消息发送的餐食照片
+  const handlePhotoSelected = (file: File | undefined) => {
+    if (attachedPhoto) {
+      URL.revokeObjectURL(attachedPhoto.previewUrl)
+    }
+    setAttachedPhoto(file ? { file, previewUrl: URL.createObjectURL(file) } : null)
+    if (photoInputRef.current) {
+      photoInputRef.current.value = ""
+    }
+  }
+
   const handleSend = async () => {
-    if (!input.trim() || isLoading) return
+    if ((!input.trim() && !attachedPhoto) || isLoading) return
 
+    const text = input.trim() || "帮我看看这餐吃得怎么样"
+    const photo = attachedPhoto
+    setInput("")
+    setAttachedPhoto(null)
+
+    await sendMessage(currentRole, text, photo)
+  }
+
+  // 发送一条消息给指定角色并流式接收回复，转接时带上原角色的情况摘要
+  const sendMessage = async (
+    roleKey: string,
+    text: string,
+    photo: { file: File; previewUrl: string } | null,
+    handoff?: Handoff
+  ) => {
     const timestamp = new Date().toISOString()
     const userMessage: Message = {
-      id: `user-${Date.now()}`,
+      id: createMessageId("user"),
       role: "user",
-      content: input,
+      content: text,
       timestamp,
+      images: photo ? [photo.previewUrl] : undefined,
+      handoff,
+    }
+
+    // 先插入一条空的助手消息，随后随增量文本逐步填充
+    const assistantMessageId = createMessageId("assistant")
+    const assistantMessage: Message = {
+      id: assistantMessageId,
+      role: "assistant",
+      content: "",
+      timestamp,
+      streaming: true
     }
 
     // 更新当前角色的消息历史
     setAllRoleMessages(prev => ({
       ...prev,
-      [currentRole]: [...prev[currentRole], userMessage]
+      [roleKey]: [...prev[roleKey], userMessage, assistantMessage]
     }))
 
-    setInput("")
     setIsLoading(true)
 
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    let content = ""
+    let reasoning = ""
+    // 用户明确要求换教练时，回复结束后直接转接
+    let autoHandoff: { conversationId: string; message: Message; index: number } | null = null
+
     try {
-      // 准备发送给API的对话历史（排除欢迎消息）
-      const conversationHistory = allRoleMessages[currentRole]
-        .filter(msg => !msg.id.includes('welcome'))
-        .map(msg => ({
-          role: msg.role,
-          content: msg.content
-        }))
+      // 照片先上传识别，识别结果以可修改的卡片显示在用户消息下方
+      let photoUrls: string[] | undefined
+      if (photo) {
+        const analysis = await uploadMealPhoto(photo.file)
+        photoUrls = [analysis.photoUrl]
+        URL.revokeObjectURL(photo.previewUrl)
+        updateRoleMessage(roleKey, userMessage.id, { images: photoUrls, photoAnalysis: analysis })
+      }
+
+      // 历史和摘要保存在服务端，只需发送对话 ID
+      const conversationId = await ensureConversation(roleKey)
 
       const response = await fetch('/api/chat', {
         method: 'POST',
@@ -161,70 +373,180 @@ export function ChatInterface() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          message: input,
-          conversationHistory,
-          role: currentRole
-        })
+          message: text,
+          conversationId,
+          images: photoUrls,
+          handoff: handoff && { from: handoff.from, to: handoff.to, summary: handoff.summary },
+          stream: true
+        }),
+        signal: abortController.signal
       })
 
-      const data = await response.json()
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to get response')
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}))
+        throw new ChatRequestError(data.error || 'Failed to get response', data.code)
       }
 
-      if (data.success && data.response) {
-        const assistantMessage: Message = {
-          id: `assistant-${Date.now()}`,
-          role: "assistant",
-          content: data.response,
-          timestamp: new Date().toISOString(),
-          images: data.images || undefined
+      for await (const event of readChatStream(response.body)) {
+        if (event.type === 'delta') {
+          content += event.content
+          updateRoleMessage(roleKey, assistantMessageId, { content })
+        } else if (event.type === 'reasoning') {
+          reasoning += event.content
+          updateRoleMessage(roleKey, assistantMessageId, { reasoning })
+        } else if (event.type === 'tool') {
+          // 工具执行完会开始新一轮回复，之前推送的文本不是最终回复
+          content = ""
+          updateRoleMessage(roleKey, assistantMessageId, { content, toolLabel: event.label })
+        } else if (event.type === 'replace') {
+          // 回复命中安全护栏，已显示的文本整体换成安全提示
+          content = event.content
+          updateRoleMessage(roleKey, assistantMessageId, { content })
+        } else if (event.type === 'done') {
+          const update: Partial<Message> = {
+            content: event.content,
+            images: event.images,
+            storedId: event.messageId,
+            actions: event.actions?.map(action => ({ action, status: "pending" as const })),
+            swap: event.swap,
+            timestamp: new Date().toISOString(),
+            streaming: false
+          }
+          updateRoleMessage(roleKey, assistantMessageId, update)
+
+          const index = event.actions?.findIndex(action => action.type === "handoff" && action.perform) ?? -1
+          if (index >= 0 && event.messageId) {
+            autoHandoff = { conversationId, message: { ...assistantMessage, ...update }, index }
+          }
+
+          // 如果生成了图片，将第一张图片设置为背景
+          if (event.images && event.images.length > 0) {
+            setBackgroundLoaded(false) // 重置加载状态
+            setBackgroundImage(event.images[0])
+          }
+        } else if (event.type === 'error') {
+          throw new Error(event.error)
         }
+      }
 
-        // 更新当前角色的消息历史
-        setAllRoleMessages(prev => ({
-          ...prev,
-          [currentRole]: [...prev[currentRole], assistantMessage]
-        }))
+      updateRoleMessage(roleKey, assistantMessageId, { streaming: false })
 
-        // 如果生成了图片，将第一张图片设置为背景
-        if (data.images && data.images.length > 0) {
-          setBackgroundLoaded(false) // 重置加载状态
-          setBackgroundImage(data.images[0])
-        }
-      } else {
-        throw new Error('Invalid response format')
+    } catch (error) {
+      // 用户点击停止：保留已收到的内容，收到过 replace 事件时这里已是替换后的安全提示
+      if (abortController.signal.aborted) {
+        updateRoleMessage(roleKey, assistantMessageId, {
+          content: content || "（已停止）",
+          streaming: false
+        })
+        return
       }
 
-    } catch (error) {
       console.error('Error sending message:', error)
 
       // 显示错误提示
+      const unavailable = error instanceof ChatRequestError && error.code === 'provider_unavailable'
+      const quotaExceeded = error instanceof ChatRequestError && error.code === 'quota_exceeded'
       toast({
-        title: "发送失败",
-        description: "无法连接到AI助手，请稍后再试。",
+        title: quotaExceeded ? "今日额度已用完" : "发送失败",
+        description: quotaExceeded
+          ? "明天零点会自动恢复。"
+          : unavailable ? "AI服务暂时不可用，请稍后再试。" : "无法连接到AI助手，请稍后再试。",
         variant: "destructive",
       })
 
-      // 添加错误消息
-      const errorMessage: Message = {
-        id: `error-${Date.now()}`,
-        role: "assistant",
-        content: "抱歉，我现在无法回应。请检查网络连接或稍后再试。如果问题持续存在，请联系开发者。",
+      // 将占位消息替换为错误消息，额度用完时直接展示服务端的提示
+      updateRoleMessage(roleKey, assistantMessageId, {
+        content: content || (quotaExceeded && error instanceof Error
+          ? error.message
+          : "抱歉，我现在无法回应。请检查网络连接或稍后再试。如果问题持续存在，请联系开发者。"),
         timestamp: new Date().toISOString(),
+        streaming: false
+      })
+    } finally {
+      abortControllerRef.current = null
+      setIsLoading(false)
+    }
+
+    if (autoHandoff) {
+      await handleAction(autoHandoff.message, autoHandoff.index, "apply", roleKey, autoHandoff.conversationId, text)
+    }
+  }
+
+  // 切换到新角色，把用户的问题连同情况摘要重新发给新角色
+  const performHandoff = async (fromRole: string, action: Extract<ChatAction, { type: "handoff" }>, text: string) => {
+    const target = findPersona(action.to)
+    const handoff: Handoff = { from: fromRole, to: action.to, summary: action.summary, fromName: findPersona(fromRole).name.zh }
+
+    // 目标角色还没恢复过历史时，在新对话中接着聊，避免和恢复的历史冲突
+    if (!loadedRolesRef.current.has(action.to)) {
+      loadedRolesRef.current.add(action.to)
+      setAllRoleMessages(prev => ({ ...prev, [action.to]: [createWelcomeMessage(target)] }))
+    }
+    handleRoleChange(action.to, target)
+
+    await sendMessage(action.to, text, null, handoff)
+  }
+
+  // 确认或忽略助手提议的操作，确认后写入日记；确认转接时切换角色
+  const handleAction = async (
+    message: Message,
+    index: number,
+    decision: "apply" | "dismiss",
+    roleKey: string = currentRole,
+    conversationId: string | undefined = conversationIds[roleKey],
+    sourceText?: string
+  ) => {
+    if (!conversationId || !message.storedId) return
+
+    setPendingActionKey(`${message.id}-${index}`)
+
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/messages/${message.storedId}/actions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ index, decision, date: toDateKey() })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new ChatRequestError(data.error || 'Failed to apply action')
       }
 
-      // 更新当前角色的消息历史
-      setAllRoleMessages(prev => ({
-        ...prev,
-        [currentRole]: [...prev[currentRole], errorMessage]
-      }))
+      updateRoleMessage(roleKey, message.id, { actions: data.actions })
+
+      const action = message.actions?.[index]?.action
+      if (decision === "apply" && action?.type === "handoff") {
+        // 转接时重新发送这条回复之前的用户消息
+        const roleMessages = allRoleMessages[roleKey] || []
+        const position = roleMessages.findIndex(item => item.id === message.id)
+        const text = sourceText ?? roleMessages.slice(0, position).reverse().find(item => item.role === "user")?.content
+        if (text) {
+          await performHandoff(roleKey, action, text)
+        }
+      } else if (decision === "apply") {
+        toast({ title: "已记录", description: "可以在首页、饮食或训练页面查看" })
+      }
+    } catch (error) {
+      console.error('Error applying action:', error)
+      toast({
+        title: "操作失败",
+        description: error instanceof Error && error.message === 'Profile not found'
+          ? "请先完善个人资料再调整目标。"
+          : "无法保存这条记录，请稍后再试。",
+        variant: "destructive",
+      })
     } finally {
-      setIsLoading(false)
+      setPendingActionKey(null)
     }
   }
 
+  // 停止当前的流式回复
+  const handleStop = () => {
+    abortControllerRef.current?.abort()
+  }
+
   const handleQuickReply = (reply: string) => {
     setInput(reply)
   }
@@ -233,22 +555,37 @@ export function ChatInterface() {
     <div className="flex flex-col flex-1 overflow-hidden">
       {/* Header */}
       <div className="bg-primary text-primary-foreground px-4 py-3 flex items-center justify-between shadow-md">
-        <Button variant="ghost" size="icon" className="text-primary-foreground hover:bg-primary/90">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="text-primary-foreground hover:bg-primary/90"
+          onClick={() => setHistoryOpen(true)}
+          title="对话记录"
+        >
           <ChevronLeft className="h-6 w-6" />
         </Button>
 
         <div className="flex items-center gap-2">
-          <Select value={currentRole} onValueChange={(value) => handleRoleChange(value as "supportive_friend" | "nutritionist" | "fitness_trainer")}>
+          <Select value={currentRole} onValueChange={(value) => handleRoleChange(value)}>
             <SelectTrigger className="w-[140px] bg-primary-foreground/20 border-0 text-primary-foreground font-medium">
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="supportive_friend">Supportive Friend</SelectItem>
-              <SelectItem value="nutritionist">Nutritionist</SelectItem>
-              <SelectItem value="fitness_trainer">Fitness Trainer</SelectItem>
+              {availablePersonas.map((item) => (
+                <SelectItem key={item.id} value={item.id}>{item.custom ? `${item.avatar} ${item.name.en}` : item.name.en}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
           <span className="text-sm text-primary-foreground/80">Mode</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-primary-foreground hover:bg-primary/90"
+            onClick={() => setPersonaEditorOpen(true)}
+            title="自定义教练"
+          >
+            <UserCog className="h-4 w-4" />
+          </Button>
         </div>
 
         <div className="flex items-center gap-1">
@@ -276,6 +613,34 @@ export function ChatInterface() {
         </div>
       </div>
 
+      <PersonaEditor
+        open={personaEditorOpen}
+        onOpenChange={setPersonaEditorOpen}
+        personas={customPersonas}
+        onSaved={handlePersonaSaved}
+        onDeleted={handlePersonaDeleted}
+      />
+
+      <ConversationList
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        role={currentRole}
+        roleLabel={persona.name.en}
+        activeConversationId={conversationIds[currentRole]}
+        onSelect={(conversation: Conversation) => {
+          openConversation(currentRole, conversation.id).catch(error => {
+            console.error('Error loading conversation:', error)
+            toast({
+              title: "加载失败",
+              description: "无法加载该对话，请稍后再试。",
+              variant: "destructive",
+            })
+          })
+        }}
+        onNew={startNewConversation}
+        onDeleted={handleConversationDeleted}
+      />
+
       {/* Messages Area */}
       <div
         className="flex-1 overflow-y-auto px-4 py-6 space-y-4 relative"
@@ -289,75 +654,142 @@ export function ChatInterface() {
         {/* 轻微遮罩以确保内容可读性 */}
         <div className="absolute inset-0 bg-black/20" />
 
+        {!hasProfile && (
+          <Link
+            href="/onboarding"
+            className="relative block rounded-xl bg-card/95 backdrop-blur-md border border-border/50 shadow-lg px-4 py-3 text-sm"
+          >
+            <span className="font-medium">完善个人资料</span>
+            <span className="text-muted-foreground"> · 让营养师和教练给你更个性化的建议 →</span>
+          </Link>
+        )}
+
         {/* Mode indicator */}
         <div className="flex items-center justify-center gap-4 text-sm text-muted-foreground mb-6">
-          <span>Me in crush's eyes</span>
+          <span>Me in crush&apos;s eyes</span>
           <span className="font-bold">VS</span>
           <span>I thought I am</span>
         </div>
 
         {messages.map((message) => (
-          <div key={message.id} className={`flex gap-3 ${message.role === "user" ? "justify-end" : "justify-start"}`}>
-            {message.role === "assistant" && (
-              <Avatar className="h-10 w-10 flex-shrink-0">
-                <AvatarFallback className="bg-primary text-primary-foreground">
-                  {currentRole === 'supportive_friend' ? '👫' : currentRole === 'nutritionist' ? '🥗' : '💪'}
-                </AvatarFallback>
-              </Avatar>
+          <Fragment key={message.id}>
+            {/* 从其他角色转接过来时显示转接事件 */}
+            {message.handoff && (
+              <div className="relative flex justify-center">
+                <div className="max-w-[85%] rounded-full bg-background/80 backdrop-blur-sm px-3 py-1 text-xs text-muted-foreground flex items-center gap-1.5">
+                  <ArrowRightLeft className="h-3 w-3 shrink-0" />
+                  <span className="truncate">
+                    {message.handoff.fromName} 转给了 {findPersona(message.handoff.to).name.zh} · {message.handoff.summary}
+                  </span>
+                </div>
+              </div>
             )}
+            <div className={`flex gap-3 ${message.role === "user" ? "justify-end" : "justify-start"}`}>
+              {message.role === "assistant" && (
+                <Avatar className="h-10 w-10 flex-shrink-0">
+                  <AvatarFallback className="bg-primary text-primary-foreground">
+                    {persona.avatar}
+                  </AvatarFallback>
+                </Avatar>
+              )}
 
-            <div className={`flex flex-col max-w-[75%] ${message.role === "user" ? "items-end" : "items-start"}`}>
-              <div
-                className={`rounded-2xl px-4 py-3 backdrop-blur-md ${
-                  message.role === "user"
-                    ? "bg-primary/90 text-primary-foreground shadow-lg border border-primary/20"
-                    : "bg-card/95 text-card-foreground shadow-lg border border-border/50"
-                }`}
-              >
-                <p className="text-sm leading-relaxed">{message.content}</p>
-              </div>
+              <div className={`flex flex-col max-w-[75%] ${message.role === "user" ? "items-end" : "items-start"}`}>
+                <div
+                  className={`rounded-2xl px-4 py-3 backdrop-blur-md ${
+                    message.role === "user"
+                      ? "bg-primary/90 text-primary-foreground shadow-lg border border-primary/20"
+                      : "bg-card/95 text-card-foreground shadow-lg border border-border/50"
+                  }`}
+                >
+                  {/* 调用工具查询数据时显示正在查询的内容 */}
+                  {message.streaming && !message.content && message.toolLabel && (
+                    <p className="text-xs text-muted-foreground italic mb-1">{message.toolLabel}…</p>
+                  )}
+                  {/* 深度思考阶段尚无正文时，显示思考过程 */}
+                  {message.streaming && !message.content && message.reasoning && (
+                    <p className="text-xs text-muted-foreground italic mb-1 line-clamp-3">
+                      思考中… {message.reasoning.slice(-120)}
+                    </p>
+                  )}
+                  <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                    {message.content}
+                    {message.streaming && (
+                      <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-current animate-pulse" />
+                    )}
+                  </p>
+                </div>
 
-              {/* 显示生成的图片 */}
-              {message.images && message.images.length > 0 && (
-                <div className="mt-2 space-y-2">
-                  <div className="flex items-center gap-1 text-xs text-muted-foreground/80 px-2 bg-background/50 backdrop-blur-sm rounded-full w-fit py-1">
-                    <ImageIcon className="h-3 w-3" />
-                    <span>生成的食物图片</span>
-                  </div>
-                  <div className="grid grid-cols-1 gap-2">
-                    {message.images.map((imageUrl, index) => (
-                      <div key={index} className="relative group">
-                        <div className="rounded-lg border border-border/50 overflow-hidden shadow-lg backdrop-blur-sm bg-background/20">
-                          <img
-                            src={imageUrl}
-                            alt={`生成的食物图片 ${index + 1}`}
-                            className="w-full max-w-[300px] cursor-pointer hover:scale-105 transition-transform duration-300"
-                            onClick={() => window.open(imageUrl, '_blank')}
-                          />
-                        </div>
-                        <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors rounded-lg flex items-center justify-center">
-                          <div className="bg-background/90 backdrop-blur-sm rounded-full p-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                            <ImageIcon className="h-4 w-4 text-foreground" />
+                {/* 显示生成的图片 */}
+                {message.images && message.images.length > 0 && (
+                  <div className="mt-2 space-y-2">
+                    {message.role === "assistant" && (
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground/80 px-2 bg-background/50 backdrop-blur-sm rounded-full w-fit py-1">
+                        <ImageIcon className="h-3 w-3" />
+                        <span>生成的食物图片</span>
+                      </div>
+                    )}
+                    <div className="grid grid-cols-1 gap-2">
+                      {message.images.map((imageUrl, index) => (
+                        <div key={index} className="relative group">
+                          <div className="rounded-lg border border-border/50 overflow-hidden shadow-lg backdrop-blur-sm bg-background/20">
+                            <img
+                              src={imageUrl}
+                              alt={`生成的食物图片 ${index + 1}`}
+                              className="w-full max-w-[300px] cursor-pointer hover:scale-105 transition-transform duration-300"
+                              onClick={() => window.open(imageUrl, '_blank')}
+                            />
+                          </div>
+                          <div className="absolute inset-0 bg-black/0 group-hover:bg-black/20 transition-colors rounded-lg flex items-center justify-center">
+                            <div className="bg-background/90 backdrop-blur-sm rounded-full p-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                              <ImageIcon className="h-4 w-4 text-foreground" />
+                            </div>
                           </div>
                         </div>
-                      </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {message.swap && (
+                  <div className="mt-2">
+                    <HealthySwapCard swap={message.swap} />
+                  </div>
+                )}
+
+                {message.photoAnalysis && (
+                  <div className="mt-2 w-full min-w-[280px]">
+                    <MealPhotoResult analysis={message.photoAnalysis} date={toDateKey()} />
+                  </div>
+                )}
+
+                {/* 助手提议的操作，确认后才写入 */}
+                {message.actions && message.actions.length > 0 && (
+                  <div className="mt-2 w-full space-y-2">
+                    {message.actions.map((item, index) => (
+                      <ChatActionCard
+                        key={index}
+                        item={item}
+                        busy={pendingActionKey === `${message.id}-${index}` || !message.storedId}
+                        onApply={() => handleAction(message, index, "apply")}
+                        onDismiss={() => handleAction(message, index, "dismiss")}
+                      />
                     ))}
                   </div>
-                </div>
-              )}
+                )}
 
-              {message.role === "assistant" && (
-                <p className="text-xs text-muted-foreground mt-1 px-2">{roleOptions[currentRole]} Mode</p>
+                {message.role === "assistant" && (
+                  <p className="text-xs text-muted-foreground mt-1 px-2">{persona.name.en} Mode</p>
+                )}
+              </div>
+
+              {message.role === "user" && (
+                <Avatar className="h-10 w-10 flex-shrink-0">
+                  <AvatarImage src="/diverse-user-avatars.png" />
+                  <AvatarFallback className="bg-secondary text-secondary-foreground">ME</AvatarFallback>
+                </Avatar>
               )}
             </div>
-
-            {message.role === "user" && (
-              <Avatar className="h-10 w-10 flex-shrink-0">
-                <AvatarImage src="/diverse-user-avatars.png" />
-                <AvatarFallback className="bg-secondary text-secondary-foreground">ME</AvatarFallback>
-              </Avatar>
-            )}
-          </div>
+          </Fragment>
         ))}
 
         <div ref={messagesEndRef} />
@@ -369,7 +801,7 @@ export function ChatInterface() {
         <div className="space-y-1.5">
           <p className="text-xs text-muted-foreground">Why you feel (xxx eg. guilty) today?</p>
           <div className="flex gap-2 overflow-x-auto pb-1">
-            {quickReplies.map((reply, index) => (
+            {persona.quickReplies.map((reply, index) => (
               <Button
                 key={index}
                 variant="outline"
@@ -383,8 +815,41 @@ export function ChatInterface() {
           </div>
         </div>
 
+        {/* 待发送的照片 */}
+        {attachedPhoto && (
+          <div className="relative w-fit">
+            <img src={attachedPhoto.previewUrl} alt="待发送的照片" className="h-16 w-16 rounded-lg object-cover border" />
+            <Button
+              variant="secondary"
+              size="icon"
+              className="absolute -top-2 -right-2 h-5 w-5 rounded-full"
+              title="移除照片"
+              onClick={() => handlePhotoSelected(undefined)}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+
         {/* Input Field */}
         <div className="flex gap-2 items-center">
+          <input
+            ref={photoInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => handlePhotoSelected(e.target.files?.[0])}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            title="发送餐食照片"
+            disabled={isLoading}
+            className="rounded-full h-10 w-10 flex-shrink-0"
+            onClick={() => photoInputRef.current?.click()}
+          >
+            <Camera className="h-5 w-5" />
+          </Button>
           <Input
             value={input}
             onChange={(e) => setInput(e.target.value)}
@@ -392,18 +857,25 @@ export function ChatInterface() {
             placeholder="Type a message..."
             className="flex-1 rounded-full bg-secondary border-0 focus-visible:ring-primary h-10"
           />
-          <Button
-            onClick={handleSend}
-            size="icon"
-            disabled={isLoading}
-            className="rounded-full h-10 w-10 bg-primary hover:bg-primary/90 flex-shrink-0"
-          >
-            {isLoading ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
-            ) : (
+          {isLoading ? (
+            <Button
+              onClick={handleStop}
+              size="icon"
+              variant="destructive"
+              title="停止生成"
+              className="rounded-full h-10 w-10 flex-shrink-0"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSend}
+              size="icon"
+              className="rounded-full h-10 w-10 bg-primary hover:bg-primary/90 flex-shrink-0"
+            >
               <Send className="h-4 w-4" />
-            )}
-          </Button>
+            </Button>
+          )}
         </div>
       </div>
     </div>
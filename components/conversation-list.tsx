@@ -0,0 +1,132 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { MessageSquarePlus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { useToast } from "@/hooks/use-toast"
+import type { Conversation } from "@/lib/storage/types"
+
+type ConversationListProps = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  role: string
+  roleLabel: string
+  activeConversationId?: string
+  onSelect: (conversation: Conversation) => void
+  onNew: () => void
+  onDeleted: (conversationId: string) => void
+}
+
+export function ConversationList({
+  open,
+  onOpenChange,
+  role,
+  roleLabel,
+  activeConversationId,
+  onSelect,
+  onNew,
+  onDeleted,
+}: ConversationListProps) {
+  const [conversations, setConversations] = useState<Conversation[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  // 打开列表或切换角色时先进入加载状态，请求在下面的 effect 中发出
+  const request = open ? role : null
+  const [pendingRequest, setPendingRequest] = useState<string | null>(null)
+  if (request !== pendingRequest) {
+    setPendingRequest(request)
+    if (request !== null) setIsLoading(true)
+  }
+
+  // 每次打开时刷新当前角色的对话列表
+  useEffect(() => {
+    if (!open) return
+
+    fetch(`/api/conversations?role=${encodeURIComponent(role)}`)
+      .then(response => response.json())
+      .then(data => setConversations(data.conversations || []))
+      .catch(error => console.error('Error loading conversations:', error))
+      .finally(() => setIsLoading(false))
+  }, [open, role])
+
+  const handleDelete = async (conversationId: string) => {
+    const response = await fetch(`/api/conversations/${conversationId}`, { method: 'DELETE' })
+
+    if (!response.ok) {
+      toast({
+        title: "删除失败",
+        description: "无法删除该对话，请稍后再试。",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setConversations(prev => prev.filter(conversation => conversation.id !== conversationId))
+    onDeleted(conversationId)
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="left" className="w-[300px]">
+        <SheetHeader>
+          <SheetTitle>对话记录</SheetTitle>
+          <SheetDescription>{roleLabel}</SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 space-y-2 overflow-y-auto">
+          <Button
+            variant="outline"
+            className="w-full justify-start gap-2"
+            onClick={() => {
+              onNew()
+              onOpenChange(false)
+            }}
+          >
+            <MessageSquarePlus className="h-4 w-4" />
+            新对话
+          </Button>
+
+          {isLoading && <p className="text-sm text-muted-foreground px-2">加载中…</p>}
+
+          {!isLoading && conversations.length === 0 && (
+            <p className="text-sm text-muted-foreground px-2">还没有对话记录</p>
+          )}
+
+          {conversations.map(conversation => (
+            <div
+              key={conversation.id}
+              className={`group flex items-center gap-2 rounded-lg px-3 py-2 cursor-pointer hover:bg-secondary ${
+                conversation.id === activeConversationId ? "bg-secondary" : ""
+              }`}
+              onClick={() => {
+                onSelect(conversation)
+                onOpenChange(false)
+              }}
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm truncate">{conversation.title || "未命名对话"}</p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(conversation.updatedAt).toLocaleString()}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 opacity-0 group-hover:opacity-100"
+                title="删除对话"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleDelete(conversation.id)
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
+import { equipmentOptions, exercises, muscleGroups, type Exercise, type MuscleGroup } from "@/lib/exercises"
+
+interface ExerciseLibraryProps {
+  /** 传入时作为选择器使用，点击动作直接选中 */
+  onSelect?: (exercise: Exercise) => void
+}
+
+export function ExerciseLibrary({ onSelect }: ExerciseLibraryProps) {
+  const [query, setQuery] = useState("")
+  const [muscle, setMuscle] = useState<MuscleGroup | null>(null)
+
+  const filtered = useMemo(() => {
+    const keyword = query.trim().toLowerCase()
+
+    return exercises.filter(exercise =>
+      (!muscle || exercise.muscleGroups.includes(muscle)) &&
+      (!keyword || exercise.nameZh.includes(keyword) || exercise.nameEn.toLowerCase().includes(keyword))
+    )
+  }, [query, muscle])
+
+  return (
+    <div className="space-y-3">
+      <Input placeholder="搜索动作" value={query} onChange={(e) => setQuery(e.target.value)} />
+
+      <div className="flex flex-wrap gap-1.5">
+        <Button variant={muscle === null ? "default" : "outline"} size="sm" className="h-7" onClick={() => setMuscle(null)}>
+          全部
+        </Button>
+        {(Object.keys(muscleGroups) as MuscleGroup[]).map(group => (
+          <Button
+            key={group}
+            variant={muscle === group ? "default" : "outline"}
+            size="sm"
+            className="h-7"
+            onClick={() => setMuscle(group)}
+          >
+            {muscleGroups[group]}
+          </Button>
+        ))}
+      </div>
+
+      {onSelect ? (
+        <div className="divide-y rounded-md border">
+          {filtered.map(exercise => (
+            <button
+              key={exercise.id}
+              type="button"
+              className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-accent"
+              onClick={() => onSelect(exercise)}
+            >
+              <span>{exercise.nameZh}</span>
+              <span className="text-xs text-muted-foreground">
+                {exercise.muscleGroups.map(group => muscleGroups[group]).join(" · ")}
+              </span>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <Accordion type="single" collapsible className="rounded-md border px-3">
+          {filtered.map(exercise => (
+            <AccordionItem key={exercise.id} value={exercise.id}>
+              <AccordionTrigger>
+                <div className="flex flex-col gap-1">
+                  <span>
+                    {exercise.nameZh}
+                    <span className="text-muted-foreground font-normal"> {exercise.nameEn}</span>
+                  </span>
+                  <div className="flex flex-wrap gap-1">
+                    {exercise.muscleGroups.map(group => (
+                      <Badge key={group} variant="secondary">{muscleGroups[group]}</Badge>
+                    ))}
+                    <Badge variant="outline">{equipmentOptions[exercise.equipment]}</Badge>
+                    <Badge variant="outline">MET {exercise.met}</Badge>
+                  </div>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent>
+                <ul className="list-disc pl-5 space-y-1 text-muted-foreground">
+                  {exercise.cues.map(cue => (
+                    <li key={cue}>{cue}</li>
+                  ))}
+                </ul>
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+      )}
+
+      {filtered.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-4">没有找到相关动作</p>
+      )}
+    </div>
+  )
+}
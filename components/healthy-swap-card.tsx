@@ -0,0 +1,46 @@
+"use client"
+
+import { ArrowRight, Leaf } from "lucide-react"
+import type { HealthySwap, SwapItem } from "@/lib/healthy-swap"
+
+function SwapSide({ item, label, highlight }: { item: SwapItem; label: string; highlight?: boolean }) {
+  return (
+    <div className="min-w-0 flex-1 space-y-1">
+      <div className="aspect-square overflow-hidden rounded-lg border border-border/50 bg-muted">
+        {item.imageUrl ? (
+          <img
+            src={item.imageUrl}
+            alt={item.name}
+            className="h-full w-full cursor-pointer object-cover"
+            onClick={() => window.open(item.imageUrl, '_blank')}
+          />
+        ) : (
+          <div className="flex h-full items-center justify-center p-2 text-center text-xs text-muted-foreground">{item.name}</div>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="truncate text-sm font-medium">{item.name}</p>
+      <p className="text-xs text-muted-foreground">{item.portion}</p>
+      <p className={highlight ? "text-sm font-semibold text-primary" : "text-sm font-semibold"}>{item.calories} kcal</p>
+    </div>
+  )
+}
+
+export function HealthySwapCard({ swap }: { swap: HealthySwap }) {
+  const saved = swap.craving.calories - swap.swap.calories
+
+  return (
+    <div className="w-full max-w-[360px] space-y-2 rounded-xl border border-border/50 bg-card/95 backdrop-blur-md shadow-lg p-3">
+      <div className="flex items-center gap-1 text-sm font-medium">
+        <Leaf className="h-4 w-4 text-primary" />
+        <span>营养师的替换建议 · 少 {saved} kcal</span>
+      </div>
+      <div className="flex items-start gap-2">
+        <SwapSide item={swap.craving} label="想吃的" />
+        <ArrowRight className="mt-16 h-4 w-4 shrink-0 text-muted-foreground" />
+        <SwapSide item={swap.swap} label="换成" highlight />
+      </div>
+      {swap.tip && <p className="text-xs text-muted-foreground">{swap.tip}</p>}
+    </div>
+  )
+}
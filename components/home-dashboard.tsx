@@ -0,0 +1,346 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Activity, Flame, Scale, Settings, Trash2, TrendingDown, TrendingUp, Target } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { useToast } from "@/hooks/use-toast"
+import { toDateKey } from "@/lib/dates"
+import type { TdeeEstimate } from "@/lib/tdee"
+import type { TrendPoint, WeightEntry } from "@/lib/weight-trend"
+
+type WeightData = {
+  entries: WeightEntry[]
+  points: TrendPoint[]
+  currentTrendKg: number | null
+  weeklyRateKg: number | null
+  projectedGoalDate: string | null
+  goalWeightKg: number | null
+}
+
+type EnergyBalance = {
+  intakeKcal: number
+  exerciseKcal: number
+  targetKcal: number | null
+  remainingKcal: number | null
+}
+
+type TdeeData = {
+  tdee: TdeeEstimate
+  targets: { calories: number }
+}
+
+const chartConfig = {
+  weightKg: { label: "称重", color: "var(--chart-4)" },
+  trendKg: { label: "趋势", color: "var(--chart-1)" },
+} satisfies ChartConfig
+
+/**
+ * 读取体重记录和趋势
+ */
+async function fetchWeights(): Promise<WeightData> {
+  const response = await fetch('/api/weights')
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load weights')
+  }
+
+  return result
+}
+
+/**
+ * 读取今天的热量收支
+ */
+async function fetchEnergy(): Promise<EnergyBalance> {
+  const response = await fetch(`/api/energy/balance?date=${toDateKey()}`)
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load energy balance')
+  }
+
+  return result
+}
+
+/**
+ * 读取自适应 TDEE，数据不足时返回 null
+ */
+async function fetchTdee(): Promise<TdeeData | null> {
+  const response = await fetch('/api/tdee')
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load TDEE')
+  }
+
+  return result.tdee ? result : null
+}
+
+export function HomeDashboard() {
+  const [data, setData] = useState<WeightData | null>(null)
+  const [energy, setEnergy] = useState<EnergyBalance | null>(null)
+  const [tdee, setTdee] = useState<TdeeData | null>(null)
+  const [weightInput, setWeightInput] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  const loadWeights = () => fetchWeights()
+    .then(setData)
+    .catch(error => console.error('Error loading weights:', error))
+
+  const loadEnergy = () => fetchEnergy()
+    .then(setEnergy)
+    .catch(error => console.error('Error loading energy balance:', error))
+
+  const loadTdee = () => fetchTdee()
+    .then(setTdee)
+    .catch(error => console.error('Error loading TDEE:', error))
+
+  useEffect(() => {
+    loadWeights()
+    loadEnergy()
+    loadTdee()
+  }, [])
+
+  const handleLogWeight = async () => {
+    const weightKg = Number(weightInput)
+    if (!weightKg || isSaving) return
+
+    setIsSaving(true)
+
+    try {
+      const response = await fetch('/api/weights', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ date: toDateKey(), weightKg })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to save weight')
+      }
+
+      setWeightInput("")
+      await Promise.all([loadWeights(), loadTdee()])
+    } catch (error) {
+      console.error('Error saving weight:', error)
+      toast({
+        title: "记录失败",
+        description: "无法保存体重，请检查输入后再试。",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (date: string) => {
+    const response = await fetch(`/api/weights?date=${date}`, { method: 'DELETE' })
+    if (response.ok) {
+      await loadWeights()
+    }
+  }
+
+  const weeklyRate = data?.weeklyRateKg ?? null
+  const todayEntry = data?.entries.find(entry => entry.date === toDateKey())
+
+  return (
+    <div className="flex-1 overflow-y-auto px-4 py-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-foreground">Home</h1>
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/settings" title="设置">
+            <Settings className="h-5 w-5" />
+          </Link>
+        </Button>
+      </div>
+
+      {/* 今日称重 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Scale className="h-4 w-4" />
+            今日称重
+          </CardTitle>
+          <CardDescription>
+            {todayEntry ? `今天已记录 ${todayEntry.weightKg} kg，再次记录会覆盖` : "每天固定时间称重，趋势会更准确"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex gap-2">
+          <Input
+            type="number"
+            inputMode="decimal"
+            step="0.1"
+            placeholder="体重（kg）"
+            value={weightInput}
+            onChange={(e) => setWeightInput(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleLogWeight()}
+          />
+          <Button onClick={handleLogWeight} disabled={isSaving || !weightInput}>
+            记录
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* 今日能量收支 */}
+      {energy && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Flame className="h-4 w-4" />
+              今日能量
+            </CardTitle>
+            <CardDescription>
+              {energy.remainingKcal === null
+                ? "填写个人资料后可以看到每日目标"
+                : energy.remainingKcal >= 0
+                  ? `今天还可以摄入 ${energy.remainingKcal} kcal`
+                  : `今天已超出 ${-energy.remainingKcal} kcal`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-3 gap-2 text-center">
+            <div>
+              <p className="text-xs text-muted-foreground">饮食摄入</p>
+              <p className="text-lg font-semibold">{energy.intakeKcal}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">运动消耗</p>
+              <p className="text-lg font-semibold">{energy.exerciseKcal}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">目标</p>
+              <p className="text-lg font-semibold">{energy.targetKcal ?? "—"}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 每日消耗估算 */}
+      {tdee && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Activity className="h-4 w-4" />
+              每日消耗估算
+            </CardTitle>
+            <CardDescription>
+              {tdee.tdee.observedKcal !== null
+                ? `根据最近 ${tdee.tdee.windowDays} 天中 ${tdee.tdee.loggedDays} 天的饮食记录和体重趋势校正`
+                : "记录满一周饮食并多次称重后，会根据你的实际数据自动校正"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <p className="text-xs text-muted-foreground">维持热量（TDEE）</p>
+                <p className="text-lg font-semibold">{tdee.tdee.estimateKcal} kcal</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">建议每日摄入</p>
+                <p className="text-lg font-semibold">{tdee.targets.calories} kcal</p>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>实际数据置信度</span>
+                <span>{Math.round(tdee.tdee.confidence * 100)}%</span>
+              </div>
+              <Progress className="h-1" value={tdee.tdee.confidence * 100} />
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 趋势概览 */}
+      <div className="grid grid-cols-3 gap-2">
+        <Card className="py-4">
+          <CardContent className="px-4 space-y-1">
+            <p className="text-xs text-muted-foreground">趋势体重</p>
+            <p className="text-lg font-semibold">
+              {data?.currentTrendKg != null ? `${data.currentTrendKg.toFixed(1)} kg` : "—"}
+            </p>
+          </CardContent>
+        </Card>
+        <Card className="py-4">
+          <CardContent className="px-4 space-y-1">
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              {weeklyRate !== null && weeklyRate > 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+              每周变化
+            </p>
+            <p className="text-lg font-semibold">
+              {weeklyRate !== null ? `${weeklyRate > 0 ? "+" : ""}${weeklyRate.toFixed(2)} kg` : "—"}
+            </p>
+          </CardContent>
+        </Card>
+        <Card className="py-4">
+          <CardContent className="px-4 space-y-1">
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <Target className="h-3 w-3" />
+              预计达成
+            </p>
+            <p className="text-lg font-semibold">
+              {data?.projectedGoalDate || "—"}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {!data?.goalWeightKg && (
+        <p className="text-xs text-muted-foreground">在个人资料中设置目标体重后即可预测达成日期。</p>
+      )}
+
+      {/* 体重曲线 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">最近 90 天</CardTitle>
+          <CardDescription>圆点是每天的称重，曲线是过滤掉水分波动后的真实趋势</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {data && data.points.length > 0 ? (
+            <ChartContainer config={chartConfig} className="aspect-[4/3] w-full">
+              <LineChart data={data.points} margin={{ left: 0, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(value: string) => value.slice(5)} minTickGap={24} />
+                <YAxis domain={["dataMin - 1", "dataMax + 1"]} tickLine={false} axisLine={false} width={40} tickFormatter={(value: number) => value.toFixed(0)} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="weightKg" stroke="var(--color-weightKg)" strokeOpacity={0} dot={{ r: 3, fill: "var(--color-weightKg)" }} isAnimationActive={false} />
+                <Line dataKey="trendKg" type="monotone" stroke="var(--color-trendKg)" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-8">还没有称重记录</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 最近记录 */}
+      {data && data.entries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">最近记录</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {[...data.entries].reverse().slice(0, 7).map(entry => (
+              <div key={entry.date} className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">{entry.date}</span>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{entry.weightKg} kg</span>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" title="删除记录" onClick={() => handleDelete(entry.date)}>
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,397 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { Camera, ChevronLeft, ChevronRight, Copy, Plus, Star, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { MealEntryDialog } from "@/components/meal-entry-dialog"
+import { MealPhotoResult, uploadMealPhoto } from "@/components/meal-photo-result"
+import { useToast } from "@/hooks/use-toast"
+import { addDays, toDateKey } from "@/lib/dates"
+import type { MealPhotoAnalysis } from "@/lib/meal-photo"
+import { mealSlots, type FavoriteMeal, type MealEntry, type MealSlot, type NewMealEntry, type NutritionTotals } from "@/lib/meals"
+
+type DiaryData = {
+  entries: MealEntry[]
+  totals: NutritionTotals
+  targets: NutritionTotals | null
+}
+
+const macroRows = [
+  { key: "proteinG", label: "蛋白质" },
+  { key: "carbsG", label: "碳水" },
+  { key: "fatG", label: "脂肪" },
+] as const
+
+const formatDateLabel = (date: string) => {
+  const today = toDateKey()
+  if (date === today) return "今天"
+  if (date === addDays(today, -1)) return "昨天"
+  return date
+}
+
+/**
+ * 读取某天的饮食日记
+ */
+async function fetchDiary(date: string): Promise<DiaryData> {
+  const response = await fetch(`/api/meals?date=${date}`)
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load meals')
+  }
+
+  return result
+}
+
+/**
+ * 读取收藏的餐
+ */
+async function fetchFavorites(): Promise<FavoriteMeal[]> {
+  const response = await fetch('/api/meals/favorites')
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load favorites')
+  }
+
+  return result.favorites
+}
+
+export function MealDiary() {
+  const [date, setDate] = useState(toDateKey())
+  const [data, setData] = useState<DiaryData | null>(null)
+  const [favorites, setFavorites] = useState<FavoriteMeal[]>([])
+  const [dialogSlot, setDialogSlot] = useState<MealSlot | null>(null)
+  const [editingEntry, setEditingEntry] = useState<MealEntry | null>(null)
+  const [favoriteSlot, setFavoriteSlot] = useState<MealSlot | null>(null)
+  const [favoriteName, setFavoriteName] = useState("")
+  const [photoAnalysis, setPhotoAnalysis] = useState<MealPhotoAnalysis | null>(null)
+  const [isAnalyzing, setIsAnalyzing] = useState(false)
+  const photoInputRef = useRef<HTMLInputElement>(null)
+  const { toast } = useToast()
+
+  const loadDiary = useCallback(() => fetchDiary(date)
+    .then(setData)
+    .catch(error => console.error('Error loading meals:', error)), [date])
+
+  const loadFavorites = () => fetchFavorites()
+    .then(setFavorites)
+    .catch(error => console.error('Error loading favorites:', error))
+
+  useEffect(() => {
+    loadDiary()
+  }, [loadDiary])
+
+  useEffect(() => {
+    loadFavorites()
+  }, [])
+
+  // 写操作统一处理：成功后刷新当天日记，失败时提示
+  const mutate = async (url: string, init: RequestInit, failureMessage: string) => {
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      })
+
+      if (!response.ok) {
+        throw new Error(`Request failed: ${response.status}`)
+      }
+
+      await loadDiary()
+      return response
+    } catch (error) {
+      console.error('Error updating meals:', error)
+      toast({
+        title: "操作失败",
+        description: failureMessage,
+        variant: "destructive",
+      })
+      return null
+    }
+  }
+
+  const handleSaveEntry = async (entry: NewMealEntry) => {
+    if (editingEntry) {
+      await mutate(`/api/meals/${editingEntry.id}`, { method: 'PATCH', body: JSON.stringify(entry) }, "无法修改记录，请稍后再试。")
+    } else {
+      await mutate('/api/meals', { method: 'POST', body: JSON.stringify(entry) }, "无法保存记录，请检查输入后再试。")
+    }
+  }
+
+  const handleDelete = (id: string) => {
+    mutate(`/api/meals/${id}`, { method: 'DELETE' }, "无法删除记录，请稍后再试。")
+  }
+
+  const handleCopyYesterday = async () => {
+    const response = await mutate('/api/meals/copy', { method: 'POST', body: JSON.stringify({ to: date }) }, "无法复制前一天的记录。")
+    if (!response) return
+
+    const result = await response.json()
+    toast({
+      title: result.entries.length > 0 ? `已复制 ${result.entries.length} 条记录` : "前一天没有记录",
+    })
+  }
+
+  const handleApplyFavorite = (favorite: FavoriteMeal, slot: MealSlot) => {
+    mutate(`/api/meals/favorites/${favorite.id}`, { method: 'POST', body: JSON.stringify({ date, slot }) }, "无法添加收藏的餐。")
+  }
+
+  const handleSaveFavorite = async () => {
+    if (!favoriteSlot || !favoriteName.trim()) return
+
+    const response = await mutate(
+      '/api/meals/favorites',
+      { method: 'POST', body: JSON.stringify({ name: favoriteName, date, slot: favoriteSlot }) },
+      "无法收藏这一餐。"
+    )
+
+    if (response) {
+      setFavoriteSlot(null)
+      setFavoriteName("")
+      await loadFavorites()
+      toast({ title: "已收藏" })
+    }
+  }
+
+  const handleDeleteFavorite = async (id: string) => {
+    const response = await fetch(`/api/meals/favorites/${id}`, { method: 'DELETE' })
+    if (response.ok) {
+      await loadFavorites()
+    }
+  }
+
+  // 拍照或选择照片后识别食物，结果在弹窗中核对
+  const handlePhotoSelected = async (file: File | undefined) => {
+    if (!file) return
+
+    setIsAnalyzing(true)
+
+    try {
+      setPhotoAnalysis(await uploadMealPhoto(file))
+    } catch (error) {
+      console.error('Error analyzing photo:', error)
+      toast({
+        title: "识别失败",
+        description: "无法识别这张照片，请稍后再试或手动添加。",
+        variant: "destructive",
+      })
+    } finally {
+      setIsAnalyzing(false)
+      if (photoInputRef.current) {
+        photoInputRef.current.value = ""
+      }
+    }
+  }
+
+  const openDialog = (slot: MealSlot, entry: MealEntry | null = null) => {
+    setEditingEntry(entry)
+    setDialogSlot(slot)
+  }
+
+  const totals = data?.totals
+  const targets = data?.targets
+  const remaining = totals && targets ? targets.calories - totals.calories : null
+
+  return (
+    <div className="flex-1 overflow-y-auto px-4 py-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-foreground">Meal</h1>
+        <div className="flex items-center gap-1">
+          <Button variant="ghost" size="icon" title="前一天" onClick={() => setDate(addDays(date, -1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium w-20 text-center">{formatDateLabel(date)}</span>
+          <Button variant="ghost" size="icon" title="后一天" disabled={date >= toDateKey()} onClick={() => setDate(addDays(date, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* 当日汇总 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">
+            {totals ? Math.round(totals.calories) : 0}
+            {targets && <span className="text-muted-foreground font-normal"> / {targets.calories} kcal</span>}
+          </CardTitle>
+          <CardDescription>
+            {remaining === null
+              ? "填写个人资料后可以看到每日目标"
+              : remaining >= 0 ? `还可以摄入 ${Math.round(remaining)} kcal` : `已超出 ${Math.round(-remaining)} kcal`}
+          </CardDescription>
+          <CardAction className="flex gap-1">
+            <Button variant="outline" size="sm" disabled={isAnalyzing} onClick={() => photoInputRef.current?.click()}>
+              <Camera className="h-3.5 w-3.5" />
+              {isAnalyzing ? "识别中…" : "拍照"}
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleCopyYesterday}>
+              <Copy className="h-3.5 w-3.5" />
+              复制前一天
+            </Button>
+          </CardAction>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {targets && <Progress value={Math.min(((totals?.calories || 0) / targets.calories) * 100, 100)} />}
+          <div className="grid grid-cols-3 gap-3">
+            {macroRows.map(({ key, label }) => (
+              <div key={key} className="space-y-1">
+                <p className="text-xs text-muted-foreground">{label}</p>
+                <p className="text-sm font-medium">
+                  {Math.round(totals?.[key] || 0)}
+                  {targets && <span className="text-muted-foreground font-normal"> / {targets[key]}g</span>}
+                </p>
+                {targets && <Progress className="h-1" value={Math.min(((totals?.[key] || 0) / targets[key]) * 100, 100)} />}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* 各餐次 */}
+      {(Object.keys(mealSlots) as MealSlot[]).map(slot => {
+        const entries = data?.entries.filter(entry => entry.slot === slot) || []
+        const slotCalories = entries.reduce((sum, entry) => sum + entry.calories, 0)
+
+        return (
+          <Card key={slot} className="gap-3">
+            <CardHeader>
+              <CardTitle className="text-base">{mealSlots[slot]}</CardTitle>
+              <CardDescription>{entries.length > 0 ? `${Math.round(slotCalories)} kcal` : "还没有记录"}</CardDescription>
+              <CardAction className="flex gap-1">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" title="收藏的餐">
+                      <Star className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuLabel>收藏的餐</DropdownMenuLabel>
+                    {favorites.length === 0 && (
+                      <DropdownMenuItem disabled>暂无收藏</DropdownMenuItem>
+                    )}
+                    {favorites.map(favorite => (
+                      <DropdownMenuItem key={favorite.id} onSelect={() => handleApplyFavorite(favorite, slot)}>
+                        <span className="flex-1">{favorite.name}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {Math.round(favorite.items.reduce((sum, item) => sum + item.calories, 0))} kcal
+                        </span>
+                        <button
+                          className="text-muted-foreground hover:text-destructive"
+                          title="删除收藏"
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            handleDeleteFavorite(favorite.id)
+                          }}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem disabled={entries.length === 0} onSelect={() => setFavoriteSlot(slot)}>
+                      收藏这一餐
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="添加" onClick={() => openDialog(slot)}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </CardAction>
+            </CardHeader>
+            {entries.length > 0 && (
+              <CardContent className="space-y-1">
+                {entries.map(entry => (
+                  <div key={entry.id} className="flex items-center justify-between text-sm">
+                    <button className="flex-1 text-left truncate" onClick={() => openDialog(slot, entry)}>
+                      {entry.name}
+                      <span className="text-muted-foreground"> · {entry.portion}{entry.unit}</span>
+                    </button>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{Math.round(entry.calories)} kcal</span>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" title="删除记录" onClick={() => handleDelete(entry.id)}>
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            )}
+          </Card>
+        )
+      })}
+
+      {dialogSlot && (
+        <MealEntryDialog
+          open={dialogSlot !== null}
+          onOpenChange={(open) => !open && setDialogSlot(null)}
+          date={date}
+          slot={dialogSlot}
+          initialValues={editingEntry || undefined}
+          onSubmit={handleSaveEntry}
+        />
+      )}
+
+      <input
+        ref={photoInputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        className="hidden"
+        onChange={(e) => handlePhotoSelected(e.target.files?.[0])}
+      />
+
+      <Dialog open={photoAnalysis !== null} onOpenChange={(open) => !open && setPhotoAnalysis(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>拍照记录</DialogTitle>
+          </DialogHeader>
+          {photoAnalysis && (
+            <MealPhotoResult
+              analysis={photoAnalysis}
+              date={date}
+              onSaved={() => {
+                setPhotoAnalysis(null)
+                loadDiary()
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={favoriteSlot !== null} onOpenChange={(open) => !open && setFavoriteSlot(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>收藏{favoriteSlot ? mealSlots[favoriteSlot] : ""}</DialogTitle>
+          </DialogHeader>
+          <Input
+            placeholder="名称，例如：工作日早餐"
+            maxLength={50}
+            value={favoriteName}
+            onChange={(e) => setFavoriteName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSaveFavorite()}
+          />
+          <DialogFooter>
+            <Button onClick={handleSaveFavorite} disabled={!favoriteName.trim()}>
+              保存
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
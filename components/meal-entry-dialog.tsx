@@ -0,0 +1,265 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { mealEntrySchema, mealSlots, mealUnits, type MealSlot, type NewMealEntry } from "@/lib/meals"
+import { calculateNutrition, type Food } from "@/lib/nutrition"
+
+interface MealEntryDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  date: string
+  slot: MealSlot
+  /** 编辑已有条目时传入，用于预填 */
+  initialValues?: Partial<NewMealEntry>
+  onSubmit: (entry: NewMealEntry) => Promise<void>
+}
+
+// 营养数值字段
+const numberFields = [
+  { name: "calories", label: "热量（kcal）" },
+  { name: "proteinG", label: "蛋白质（g）" },
+  { name: "carbsG", label: "碳水（g）" },
+  { name: "fatG", label: "脂肪（g）" },
+] as const
+
+export function MealEntryDialog({ open, onOpenChange, date, slot, initialValues, onSubmit }: MealEntryDialogProps) {
+  const [query, setQuery] = useState("")
+  const [results, setResults] = useState<Food[]>([])
+  // 从成分表选中的食物，修改克数时自动换算营养数值
+  const [selectedFood, setSelectedFood] = useState<Food | null>(null)
+  // 清空搜索框时不再显示上一次的结果
+  const visibleResults = query.trim() ? results : []
+
+  const form = useForm<NewMealEntry>({
+    resolver: zodResolver(mealEntrySchema),
+  })
+
+  // 每次打开时清空上次的搜索和选中的食物
+  const [wasOpen, setWasOpen] = useState(open)
+  if (open !== wasOpen) {
+    setWasOpen(open)
+    if (open) {
+      setQuery("")
+      setSelectedFood(null)
+    }
+  }
+
+  // 每次打开时重置为当前日期和餐次
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        date,
+        slot,
+        name: "",
+        portion: 1,
+        unit: "份",
+        calories: 0,
+        proteinG: 0,
+        carbsG: 0,
+        fatG: 0,
+        ...initialValues,
+      })
+    }
+  }, [open, date, slot, initialValues, form])
+
+  // 输入停顿后再搜索
+  useEffect(() => {
+    if (!query.trim()) return
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/foods?q=${encodeURIComponent(query)}&limit=6`)
+        const result = await response.json()
+
+        if (response.ok) {
+          setResults(result.foods)
+        }
+      } catch (error) {
+        console.error('Error searching foods:', error)
+      }
+    }, 200)
+
+    return () => clearTimeout(timer)
+  }, [query])
+
+  const applyGrams = (food: Food, grams: number) => {
+    const nutrition = calculateNutrition(food, grams)
+    form.setValue("portion", grams)
+    form.setValue("unit", "g")
+    form.setValue("calories", nutrition.calories)
+    form.setValue("proteinG", nutrition.proteinG)
+    form.setValue("carbsG", nutrition.carbsG)
+    form.setValue("fatG", nutrition.fatG)
+  }
+
+  const handleSelectFood = (food: Food) => {
+    setSelectedFood(food)
+    setQuery("")
+    form.setValue("name", food.nameZh)
+    applyGrams(food, food.servings[0]?.grams ?? 100)
+  }
+
+  const handleSubmit = async (entry: NewMealEntry) => {
+    await onSubmit(entry)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{initialValues ? "编辑记录" : `添加到${mealSlots[slot]}`}</DialogTitle>
+          <DialogDescription>从成分表选择会按克数自动换算，也可以手动填写实际份量的营养数值</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="flex flex-col gap-4">
+            <div className="space-y-2">
+              <Input
+                placeholder="搜索食物：米饭、mifan、rice"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
+              {visibleResults.length > 0 && (
+                <div className="rounded-md border divide-y">
+                  {visibleResults.map(food => (
+                    <button
+                      key={food.id}
+                      type="button"
+                      className="flex w-full items-center justify-between px-3 py-2 text-sm hover:bg-accent"
+                      onClick={() => handleSelectFood(food)}
+                    >
+                      <span>
+                        {food.nameZh}
+                        <span className="text-muted-foreground"> {food.nameEn}</span>
+                      </span>
+                      <span className="text-xs text-muted-foreground">{food.per100g.calories} kcal/100g</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>食物</FormLabel>
+                  <FormControl>
+                    <Input placeholder="例如：米饭" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="portion"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>份量</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        inputMode="decimal"
+                        step="any"
+                        {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) => {
+                          field.onChange(e)
+                          const grams = Number(e.target.value)
+                          if (selectedFood && form.getValues("unit") === "g" && grams > 0) {
+                            applyGrams(selectedFood, grams)
+                          }
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="unit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>单位</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {mealUnits.map(unit => (
+                          <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {selectedFood && (
+              <div className="space-y-2">
+                <div className="flex flex-wrap gap-2">
+                  {selectedFood.servings.map(serving => (
+                    <Button
+                      key={serving.label}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => applyGrams(selectedFood, serving.grams)}
+                    >
+                      {serving.label} {serving.grams}g
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  每100g：膳食纤维 {selectedFood.per100g.fiberG}g · 钠 {selectedFood.per100g.sodiumMg}mg · 钾 {selectedFood.per100g.potassiumMg}mg · 钙 {selectedFood.per100g.calciumMg}mg · 铁 {selectedFood.per100g.ironMg}mg · 维生素C {selectedFood.per100g.vitaminCMg}mg
+                </p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              {numberFields.map(({ name, label }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input type="number" inputMode="decimal" step="any" {...field} value={field.value ?? ""} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "保存中…" : "保存"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
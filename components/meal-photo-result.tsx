@@ -0,0 +1,186 @@
+"use client"
+
+import { useState } from "react"
+import { Check, X } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { guessMealSlot, mealSlots, type MealSlot } from "@/lib/meals"
+import type { MealPhotoAnalysis, MealPhotoItem } from "@/lib/meal-photo"
+
+/** 低于这个置信度时提示用户核对 */
+const LOW_CONFIDENCE = 0.5
+
+// 编辑份量时按识别结果的比例换算营养数据
+type DraftItem = { name: string; grams: string; base: MealPhotoItem }
+
+const scale = (item: DraftItem) => {
+  const ratio = (Number(item.grams) || 0) / item.base.grams
+  return {
+    calories: Math.round(item.base.calories * ratio),
+    proteinG: Math.round(item.base.proteinG * ratio * 10) / 10,
+    carbsG: Math.round(item.base.carbsG * ratio * 10) / 10,
+    fatG: Math.round(item.base.fatG * ratio * 10) / 10,
+  }
+}
+
+/**
+ * 上传照片并识别其中的食物
+ */
+export async function uploadMealPhoto(file: File): Promise<MealPhotoAnalysis> {
+  const form = new FormData()
+  form.append("photo", file)
+
+  const response = await fetch('/api/meals/photo', { method: 'POST', body: form })
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to analyze photo')
+  }
+
+  return data
+}
+
+interface MealPhotoResultProps {
+  analysis: MealPhotoAnalysis
+  date: string
+  onSaved?: () => void
+  onDiscard?: () => void
+}
+
+export function MealPhotoResult({ analysis, date, onSaved, onDiscard }: MealPhotoResultProps) {
+  const [items, setItems] = useState<DraftItem[]>(() =>
+    analysis.items.map(item => ({ name: item.name, grams: String(item.grams), base: item }))
+  )
+  const [slot, setSlot] = useState<MealSlot>(() => guessMealSlot())
+  const [isSaving, setIsSaving] = useState(false)
+  const [isSaved, setIsSaved] = useState(false)
+  const { toast } = useToast()
+
+  const totalCalories = items.reduce((sum, item) => sum + scale(item).calories, 0)
+  const canSave = items.length > 0 && items.every(item => item.name.trim() && Number(item.grams) > 0)
+
+  const updateItem = (index: number, update: Partial<DraftItem>) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, ...update } : item))
+  }
+
+  const handleSave = async () => {
+    if (!canSave || isSaving) return
+
+    setIsSaving(true)
+
+    try {
+      const response = await fetch('/api/meals', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          entries: items.map(item => ({
+            date,
+            slot,
+            name: item.name.trim(),
+            portion: Number(item.grams),
+            unit: "g",
+            ...scale(item),
+          }))
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to save meal')
+      }
+
+      setIsSaved(true)
+      toast({ title: `已记录到${mealSlots[slot]}` })
+      onSaved?.()
+    } catch (error) {
+      console.error('Error saving photo meal:', error)
+      toast({
+        title: "保存失败",
+        description: "无法保存识别结果，请检查后再试。",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card className="gap-3 w-full">
+      <CardHeader>
+        <CardTitle className="text-base">识别结果</CardTitle>
+        <CardDescription>{analysis.note || "请核对食物和份量后保存"}</CardDescription>
+        <CardAction>
+          <img src={analysis.photoUrl} alt="餐食照片" className="h-12 w-12 rounded-md object-cover" />
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {items.length === 0 && (
+          <p className="text-sm text-muted-foreground">没有识别到食物，可以换一张照片或手动添加。</p>
+        )}
+
+        {items.map((item, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              className="flex-1"
+              value={item.name}
+              disabled={isSaved}
+              onChange={(e) => updateItem(index, { name: e.target.value })}
+            />
+            <Input
+              className="w-20"
+              type="number"
+              inputMode="decimal"
+              value={item.grams}
+              disabled={isSaved}
+              onChange={(e) => updateItem(index, { grams: e.target.value })}
+            />
+            <span className="text-xs text-muted-foreground">g</span>
+            <span className="w-16 text-right text-sm font-medium">{scale(item).calories} kcal</span>
+            {item.base.confidence < LOW_CONFIDENCE && <Badge variant="outline">待核对</Badge>}
+            {!isSaved && (
+              <Button variant="ghost" size="icon" className="h-7 w-7" title="移除" onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}>
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between gap-2 pt-1">
+          <span className="text-sm">合计 {totalCalories} kcal</span>
+          {isSaved ? (
+            <span className="flex items-center gap-1 text-sm text-muted-foreground">
+              <Check className="h-4 w-4" />
+              已保存到{mealSlots[slot]}
+            </span>
+          ) : (
+            <div className="flex items-center gap-2">
+              <Select value={slot} onValueChange={(value) => setSlot(value as MealSlot)}>
+                <SelectTrigger size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(mealSlots) as MealSlot[]).map(key => (
+                    <SelectItem key={key} value={key}>{mealSlots[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {onDiscard && (
+                <Button variant="ghost" size="sm" onClick={onDiscard}>
+                  放弃
+                </Button>
+              )}
+              <Button size="sm" disabled={!canSave || isSaving} onClick={handleSave}>
+                {isSaving ? "保存中…" : "保存到日记"}
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,203 @@
+"use client"
+
+import { useEffect, useState, type ReactNode } from "react"
+import Link from "next/link"
+import { Brain, Check, ChevronLeft, Pencil, Plus, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { memoryCategories, type MemoryCategory, type MemoryFact, type NewMemoryFact } from "@/lib/user-memory"
+
+const emptyDraft: NewMemoryFact = { category: "preference", content: "" }
+
+function FactForm({
+  initialValues,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initialValues: NewMemoryFact
+  submitLabel: ReactNode
+  onSubmit: (fact: NewMemoryFact) => Promise<boolean>
+  onCancel?: () => void
+}) {
+  const [draft, setDraft] = useState(initialValues)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleSubmit = async () => {
+    if (!draft.content.trim() || isSaving) return
+
+    setIsSaving(true)
+    const saved = await onSubmit({ ...draft, content: draft.content.trim() })
+    setIsSaving(false)
+
+    if (saved && !onCancel) {
+      setDraft(emptyDraft)
+    }
+  }
+
+  return (
+    <div className="flex gap-2">
+      <Select value={draft.category} onValueChange={(value) => setDraft(prev => ({ ...prev, category: value as MemoryCategory }))}>
+        <SelectTrigger className="w-[110px] shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(memoryCategories) as MemoryCategory[]).map(category => (
+            <SelectItem key={category} value={category}>{memoryCategories[category]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        placeholder="例如：素食，不吃肉"
+        maxLength={100}
+        value={draft.content}
+        onChange={(e) => setDraft(prev => ({ ...prev, content: e.target.value }))}
+        onKeyDown={(e) => e.key === "Enter" && handleSubmit()}
+      />
+      <Button size="icon" className="shrink-0" onClick={handleSubmit} disabled={isSaving || !draft.content.trim()}>
+        {submitLabel}
+      </Button>
+      {onCancel && (
+        <Button size="icon" variant="ghost" className="shrink-0" onClick={onCancel}>
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
+
+export function MemorySettings() {
+  const [facts, setFacts] = useState<MemoryFact[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetch('/api/memory')
+      .then(response => response.json())
+      .then(data => setFacts(data.facts || []))
+      .catch(error => console.error('Error loading memory:', error))
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const showError = (description: string) => {
+    toast({
+      title: "保存失败",
+      description,
+      variant: "destructive",
+    })
+  }
+
+  const handleAdd = async (fact: NewMemoryFact) => {
+    const response = await fetch('/api/memory', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fact),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      showError(data.issues?.[0]?.message || "无法添加这条记忆，请稍后再试。")
+      return false
+    }
+
+    setFacts(prev => [...prev, data.fact])
+    return true
+  }
+
+  const handleUpdate = async (id: string, fact: NewMemoryFact) => {
+    const response = await fetch(`/api/memory/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fact),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      showError(data.issues?.[0]?.message || "无法修改这条记忆，请稍后再试。")
+      return false
+    }
+
+    setFacts(prev => prev.map(item => item.id === id ? data.fact : item))
+    setEditingId(null)
+    return true
+  }
+
+  const handleDelete = async (id: string) => {
+    const response = await fetch(`/api/memory/${id}`, { method: 'DELETE' })
+
+    if (!response.ok) {
+      toast({
+        title: "删除失败",
+        description: "无法删除这条记忆，请稍后再试。",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setFacts(prev => prev.filter(item => item.id !== id))
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto px-4 py-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/home" title="返回">
+            <ChevronLeft className="h-5 w-5" />
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold text-foreground">Settings</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Brain className="h-4 w-4" />
+            教练的记忆
+          </CardTitle>
+          <CardDescription>聊天时提到的饮食偏好、过敏、伤病和作息会自动记在这里，三位教练和自定义教练都会参考</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <FactForm initialValues={emptyDraft} submitLabel={<Plus className="h-4 w-4" />} onSubmit={handleAdd} />
+
+          {isLoading && <p className="text-sm text-muted-foreground">加载中…</p>}
+
+          {!isLoading && facts.length === 0 && (
+            <p className="text-sm text-muted-foreground">还没有记忆，和教练聊聊你的饮食习惯吧</p>
+          )}
+
+          <div className="divide-y">
+            {facts.map(fact => (
+              <div key={fact.id} className="py-2">
+                {editingId === fact.id ? (
+                  <FactForm
+                    initialValues={{ category: fact.category, content: fact.content }}
+                    submitLabel={<Check className="h-4 w-4" />}
+                    onSubmit={(values) => handleUpdate(fact.id, values)}
+                    onCancel={() => setEditingId(null)}
+                  />
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="shrink-0">{memoryCategories[fact.category]}</Badge>
+                    <p className="flex-1 min-w-0 text-sm">{fact.content}</p>
+                    {fact.source === "extracted" && <span className="text-xs text-muted-foreground shrink-0">自动记录</span>}
+                    <Button variant="ghost" size="icon" className="h-8 w-8" title="编辑" onClick={() => setEditingId(fact.id)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" title="删除" onClick={() => handleDelete(fact.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,306 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Progress } from "@/components/ui/progress"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { FieldDescription, FieldGroup, FieldLegend, FieldSet } from "@/components/ui/field"
+import { useToast } from "@/hooks/use-toast"
+import {
+  activityLevelOptions,
+  goalOptions,
+  profileSchema,
+  sexOptions,
+  type UserProfile,
+} from "@/lib/profile"
+
+// 每一步需要校验的字段
+const steps = [
+  { title: "基本信息", description: "用于估算你的基础代谢", fields: ["sex", "age", "heightCm", "weightKg"] },
+  { title: "你的目标", description: "教练会根据目标调整建议", fields: ["goal", "goalWeightKg", "activityLevel"] },
+  { title: "饮食与健康", description: "没有可以留空，多项用逗号分隔", fields: ["dietaryRestrictions", "injuries"] },
+] as const
+
+// 逗号分隔的文本与数组互转
+const splitList = (value: string) => value.split(/[,，、]/).map(item => item.trim()).filter(Boolean)
+const joinList = (value?: string[]) => (value || []).join("，")
+
+export function OnboardingWizard() {
+  const [step, setStep] = useState(0)
+  const [isSaving, setIsSaving] = useState(false)
+  const router = useRouter()
+  const { toast } = useToast()
+
+  const form = useForm<UserProfile>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: {
+      sex: "female",
+      goal: "lose",
+      activityLevel: "light",
+      dietaryRestrictions: [],
+      injuries: [],
+    },
+  })
+
+  // 已填写过资料时预填，方便修改
+  useEffect(() => {
+    fetch('/api/profile')
+      .then(response => response.json())
+      .then(data => {
+        if (data.profile) {
+          form.reset(data.profile)
+        }
+      })
+      .catch(error => console.error('Error loading profile:', error))
+  }, [form])
+
+  const handleNext = async () => {
+    const valid = await form.trigger([...steps[step].fields])
+    if (valid) {
+      setStep(step + 1)
+    }
+  }
+
+  const onSubmit = async (profile: UserProfile) => {
+    setIsSaving(true)
+
+    try {
+      const response = await fetch('/api/profile', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(profile)
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to save profile')
+      }
+
+      toast({
+        title: "资料已保存",
+        description: "教练们会根据你的资料给出个性化建议",
+      })
+      router.push("/chat")
+    } catch (error) {
+      console.error('Error saving profile:', error)
+      toast({
+        title: "保存失败",
+        description: "无法保存资料，请稍后再试。",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const current = steps[step]
+  const isLastStep = step === steps.length - 1
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="flex flex-col gap-6">
+        <Progress value={((step + 1) / steps.length) * 100} />
+
+        <FieldSet>
+          <FieldLegend>{current.title}</FieldLegend>
+          <FieldDescription>{current.description}</FieldDescription>
+
+          {step === 0 && (
+            <FieldGroup>
+              <FormField
+                control={form.control}
+                name="sex"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>性别</FormLabel>
+                    <FormControl>
+                      <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-6">
+                        {Object.entries(sexOptions).map(([value, label]) => (
+                          <label key={value} className="flex items-center gap-2 text-sm">
+                            <RadioGroupItem value={value} />
+                            {label}
+                          </label>
+                        ))}
+                      </RadioGroup>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="age"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>年龄</FormLabel>
+                    <FormControl>
+                      <Input type="number" inputMode="numeric" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="heightCm"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>身高（cm）</FormLabel>
+                    <FormControl>
+                      <Input type="number" inputMode="decimal" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="weightKg"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>当前体重（kg）</FormLabel>
+                    <FormControl>
+                      <Input type="number" inputMode="decimal" step="0.1" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </FieldGroup>
+          )}
+
+          {step === 1 && (
+            <FieldGroup>
+              <FormField
+                control={form.control}
+                name="goal"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>目标</FormLabel>
+                    <FormControl>
+                      <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-6">
+                        {Object.entries(goalOptions).map(([value, label]) => (
+                          <label key={value} className="flex items-center gap-2 text-sm">
+                            <RadioGroupItem value={value} />
+                            {label}
+                          </label>
+                        ))}
+                      </RadioGroup>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="goalWeightKg"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>目标体重（kg，可选）</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        inputMode="decimal"
+                        step="0.1"
+                        {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? undefined : e.target.value)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="activityLevel"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>日常活动水平</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(activityLevelOptions).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </FieldGroup>
+          )}
+
+          {step === 2 && (
+            <FieldGroup>
+              <FormField
+                control={form.control}
+                name="dietaryRestrictions"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>饮食限制或过敏</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="例如：素食，乳糖不耐，花生过敏"
+                        defaultValue={joinList(field.value)}
+                        onBlur={(e) => field.onChange(splitList(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="injuries"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>伤病或身体不适</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="例如：膝盖半月板损伤，腰椎间盘突出"
+                        defaultValue={joinList(field.value)}
+                        onBlur={(e) => field.onChange(splitList(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </FieldGroup>
+          )}
+        </FieldSet>
+
+        <div className="flex gap-2">
+          {step > 0 && (
+            <Button type="button" variant="outline" className="flex-1" onClick={() => setStep(step - 1)}>
+              上一步
+            </Button>
+          )}
+          {isLastStep ? (
+            <Button type="submit" className="flex-1" disabled={isSaving}>
+              {isSaving ? "保存中…" : "完成"}
+            </Button>
+          ) : (
+            <Button type="button" className="flex-1" onClick={handleNext}>
+              下一步
+            </Button>
+          )}
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,225 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { Pencil, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { useToast } from "@/hooks/use-toast"
+import {
+  DEFAULT_CUSTOM_AVATAR,
+  MAX_CUSTOM_PERSONAS,
+  customPersonaSchema,
+  type CustomPersona,
+  type NewCustomPersona
+} from "@/lib/custom-personas"
+
+interface PersonaEditorProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  personas: CustomPersona[]
+  onSaved: (persona: CustomPersona) => void
+  onDeleted: (id: string) => void
+}
+
+const emptyPersona: NewCustomPersona = {
+  name: "",
+  tone: "",
+  expertise: "",
+  avatar: DEFAULT_CUSTOM_AVATAR,
+  constraints: ""
+}
+
+// 文本字段
+const textFields = [
+  { name: "tone", label: "语气", placeholder: "例如：严格、直接，像军训教官一样督促我" },
+  { name: "expertise", label: "擅长", placeholder: "例如：中医食疗、跑步训练" },
+  { name: "constraints", label: "注意事项", placeholder: "例如：我膝盖不好，不要安排跳跃动作" },
+] as const
+
+export function PersonaEditor({ open, onOpenChange, personas, onSaved, onDeleted }: PersonaEditorProps) {
+  // 正在编辑的角色，null 为新建
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const form = useForm<NewCustomPersona>({
+    resolver: zodResolver(customPersonaSchema),
+    defaultValues: emptyPersona,
+  })
+
+  // 每次打开时回到新建状态
+  const [wasOpen, setWasOpen] = useState(open)
+  if (open !== wasOpen) {
+    setWasOpen(open)
+    if (open) setEditingId(null)
+  }
+
+  useEffect(() => {
+    if (open) {
+      form.reset(emptyPersona)
+    }
+  }, [open, form])
+
+  const startEditing = (persona: CustomPersona) => {
+    setEditingId(persona.id)
+    form.reset({
+      name: persona.name,
+      tone: persona.tone,
+      expertise: persona.expertise,
+      avatar: persona.avatar,
+      constraints: persona.constraints,
+    })
+  }
+
+  const handleSubmit = async (values: NewCustomPersona) => {
+    const response = await fetch(editingId ? `/api/personas/${editingId}` : "/api/personas", {
+      method: editingId ? "PATCH" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(values),
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      // 服务端校验不通过时把错误显示在对应字段下
+      for (const issue of data.issues || []) {
+        form.setError(issue.path[0], { message: issue.message })
+      }
+
+      toast({
+        title: "保存失败",
+        description: data.issues ? "请检查标红的内容" : data.error || "请稍后再试。",
+        variant: "destructive",
+      })
+      return
+    }
+
+    onSaved(data.persona)
+    setEditingId(null)
+    form.reset(emptyPersona)
+  }
+
+  const handleDelete = async (id: string) => {
+    const response = await fetch(`/api/personas/${id}`, { method: "DELETE" })
+
+    if (!response.ok) {
+      toast({
+        title: "删除失败",
+        description: "无法删除该角色，请稍后再试。",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (editingId === id) {
+      setEditingId(null)
+      form.reset(emptyPersona)
+    }
+    onDeleted(id)
+  }
+
+  const isFull = !editingId && personas.length >= MAX_CUSTOM_PERSONAS
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>自定义教练</DialogTitle>
+          <DialogDescription>设定教练的名字、语气和擅长方向，安全要求对所有教练同样有效</DialogDescription>
+        </DialogHeader>
+
+        {personas.length > 0 && (
+          <div className="rounded-md border divide-y">
+            {personas.map(persona => (
+              <div key={persona.id} className="flex items-center gap-2 px-3 py-2">
+                <span className="text-lg">{persona.avatar}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate">{persona.name}</p>
+                  {persona.expertise && <p className="text-xs text-muted-foreground truncate">{persona.expertise}</p>}
+                </div>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="编辑" onClick={() => startEditing(persona)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="删除" onClick={() => handleDelete(persona.id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="flex flex-col gap-4">
+            <div className="grid grid-cols-[80px_1fr] gap-3">
+              <FormField
+                control={form.control}
+                name="avatar"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>头像</FormLabel>
+                    <FormControl>
+                      <Input className="text-center" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>名字</FormLabel>
+                    <FormControl>
+                      <Input placeholder="例如：魔鬼教官" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {textFields.map(({ name, label, placeholder }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} placeholder={placeholder} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            <DialogFooter className="gap-2">
+              {editingId && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setEditingId(null)
+                    form.reset(emptyPersona)
+                  }}
+                >
+                  取消编辑
+                </Button>
+              )}
+              <Button type="submit" disabled={form.formState.isSubmitting || isFull}>
+                {editingId ? null : <Plus className="h-4 w-4" />}
+                {form.formState.isSubmitting ? "保存中…" : editingId ? "保存修改" : isFull ? `最多 ${MAX_CUSTOM_PERSONAS} 个` : "添加教练"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
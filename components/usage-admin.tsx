@@ -0,0 +1,151 @@
+"use client"
+
+import { useState, useSyncExternalStore } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { addDays, toDateKey } from "@/lib/dates"
+import type { ModelUsage, UsageQuota } from "@/lib/usage"
+
+// 管理口令只保存在当前标签页
+const TOKEN_KEY = "wla_admin_token"
+
+type UsageSummary = {
+  from: string
+  to: string
+  models: Array<ModelUsage & { cost: number | null }>
+  totals: { requests: number; totalTokens: number; images: number; cost: number }
+  quota: UsageQuota
+}
+
+const kindLabels = { chat: "对话", image: "图片" }
+
+const formatCost = (cost: number | null) => cost === null ? "未配置单价" : `¥${cost.toFixed(4)}`
+
+// sessionStorage 不会在当前标签页内通知变化，只在挂载时读取一次
+const subscribeStorage = () => () => {}
+
+export function UsageAdmin() {
+  // 用户输入过口令之前，沿用本标签页上次保存的口令
+  const [typedToken, setToken] = useState<string | null>(null)
+  const savedToken = useSyncExternalStore(subscribeStorage, () => sessionStorage.getItem(TOKEN_KEY) || "", () => "")
+  const token = typedToken ?? savedToken
+  const [from, setFrom] = useState(() => addDays(toDateKey(), -29))
+  const [to, setTo] = useState(() => toDateKey())
+  const [summary, setSummary] = useState<UsageSummary | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  const loadUsage = async () => {
+    if (!token || isLoading) return
+
+    setIsLoading(true)
+
+    try {
+      const response = await fetch(`/api/admin/usage?from=${from}&to=${to}`, {
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+
+      if (response.status === 401) {
+        throw new Error('Unauthorized')
+      }
+
+      if (!response.ok) {
+        throw new Error('Failed to load usage')
+      }
+
+      sessionStorage.setItem(TOKEN_KEY, token)
+      setSummary(await response.json())
+    } catch (error) {
+      console.error('Error loading usage:', error)
+      toast({
+        title: "加载失败",
+        description: error instanceof Error && error.message === 'Unauthorized' ? "管理口令不正确。" : "无法读取用量数据，请稍后再试。",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-4 p-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>用量与花费</CardTitle>
+          <CardDescription>按模型汇总所有用户的 token 和图片用量，花费按配置的单价估算</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-2">
+          <Input
+            className="w-56"
+            type="password"
+            placeholder="管理口令"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+          />
+          <Input className="w-40" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <span className="text-sm text-muted-foreground">至</span>
+          <Input className="w-40" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          <Button disabled={!token || isLoading} onClick={loadUsage}>
+            {isLoading ? "加载中…" : "查询"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {summary && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">{summary.from} 至 {summary.to}</CardTitle>
+            <CardDescription>
+              每人每日配额：{summary.quota.dailyTokens || "不限"} tokens，{summary.quota.dailyImages || "不限"} 张图片
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>模型</TableHead>
+                  <TableHead>类型</TableHead>
+                  <TableHead className="text-right">调用次数</TableHead>
+                  <TableHead className="text-right">输入 tokens</TableHead>
+                  <TableHead className="text-right">输出 tokens</TableHead>
+                  <TableHead className="text-right">图片</TableHead>
+                  <TableHead className="text-right">花费</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.models.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-muted-foreground">这段时间没有用量记录</TableCell>
+                  </TableRow>
+                )}
+                {summary.models.map(usage => (
+                  <TableRow key={`${usage.model}-${usage.kind}`}>
+                    <TableCell className="font-medium">{usage.model}</TableCell>
+                    <TableCell>{kindLabels[usage.kind]}</TableCell>
+                    <TableCell className="text-right">{usage.requests}</TableCell>
+                    <TableCell className="text-right">{usage.promptTokens.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{usage.completionTokens.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{usage.images}</TableCell>
+                    <TableCell className="text-right">{formatCost(usage.cost)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={2}>合计</TableCell>
+                  <TableCell className="text-right">{summary.totals.requests}</TableCell>
+                  <TableCell colSpan={2} className="text-right">{summary.totals.totalTokens.toLocaleString()} tokens</TableCell>
+                  <TableCell className="text-right">{summary.totals.images}</TableCell>
+                  <TableCell className="text-right">{formatCost(summary.totals.cost)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
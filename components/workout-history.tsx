@@ -0,0 +1,122 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts"
+import { Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { SessionBurn } from "@/lib/energy"
+import { getExercise } from "@/lib/exercises"
+import { summarizeExerciseProgress, type WorkoutSession } from "@/lib/workouts"
+
+const chartConfig = {
+  volumeKg: { label: "训练量（kg）", color: "var(--chart-2)" },
+  estimatedOneRepMaxKg: { label: "估算 1RM（kg）", color: "var(--chart-1)" },
+  totalReps: { label: "总次数", color: "var(--chart-2)" },
+  durationMin: { label: "时长（分钟）", color: "var(--chart-3)" },
+} satisfies ChartConfig
+
+interface WorkoutHistoryProps {
+  sessions: Array<WorkoutSession & { burn: SessionBurn }>
+  onDelete: (id: string) => void
+}
+
+export function WorkoutHistory({ sessions, onDelete }: WorkoutHistoryProps) {
+  // 按最近训练顺序列出练过的动作
+  const exerciseIds = useMemo(
+    () => [...new Set(sessions.flatMap(session => session.exercises.map(exercise => exercise.exerciseId)))],
+    [sessions]
+  )
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const exerciseId = selectedId && exerciseIds.includes(selectedId) ? selectedId : exerciseIds[0]
+  const exercise = exerciseId ? getExercise(exerciseId) : null
+  const points = useMemo(
+    () => exerciseId ? summarizeExerciseProgress(sessions, exerciseId) : [],
+    [sessions, exerciseId]
+  )
+
+  // 负重动作看训练量，自重动作看次数，其余看时长
+  const barKey = exercise?.tracking === "weight_reps" ? "volumeKg" : exercise?.tracking === "reps" ? "totalReps" : "durationMin"
+
+  if (sessions.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">还没有训练记录</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">动作进步</CardTitle>
+          <CardDescription>最近 90 天</CardDescription>
+          <CardAction>
+            <Select value={exerciseId} onValueChange={setSelectedId}>
+              <SelectTrigger size="sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {exerciseIds.map(id => (
+                  <SelectItem key={id} value={id}>{getExercise(id)?.nameZh || id}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardAction>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+            <BarChart data={points} margin={{ left: 0, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(value: string) => value.slice(5)} minTickGap={24} />
+              <YAxis tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey={barKey} fill={`var(--color-${barKey})`} radius={4} isAnimationActive={false} />
+            </BarChart>
+          </ChartContainer>
+
+          {exercise?.tracking === "weight_reps" && (
+            <ChartContainer config={chartConfig} className="aspect-[2/1] w-full">
+              <LineChart data={points.filter(point => point.estimatedOneRepMaxKg !== null)} margin={{ left: 0, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={(value: string) => value.slice(5)} minTickGap={24} />
+                <YAxis domain={["dataMin - 5", "dataMax + 5"]} tickLine={false} axisLine={false} width={40} tickFormatter={(value: number) => value.toFixed(0)} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="estimatedOneRepMaxKg" stroke="var(--color-estimatedOneRepMaxKg)" strokeWidth={2} dot={{ r: 3 }} isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">训练记录</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {sessions.map(session => (
+            <div key={session.id} className="flex items-start justify-between gap-2 text-sm">
+              <div className="space-y-0.5">
+                <p className="font-medium">
+                  {session.title || "训练"}
+                  <span className="text-muted-foreground font-normal"> · {session.date}</span>
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  约 {session.burn.totalMinutes} 分钟 · 消耗 {session.burn.totalKcal} kcal
+                </p>
+                <p className="text-muted-foreground">
+                  {session.exercises
+                    .map(item => `${getExercise(item.exerciseId)?.nameZh || item.exerciseId} ${item.sets.length}组`)
+                    .join("，")}
+                </p>
+              </div>
+              <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" title="删除记录" onClick={() => onDelete(session.id)}>
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,234 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Plus, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardAction, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { ExerciseLibrary } from "@/components/exercise-library"
+import { useToast } from "@/hooks/use-toast"
+import { toDateKey } from "@/lib/dates"
+import { getExercise, type Exercise, type ExerciseTracking } from "@/lib/exercises"
+import type { WorkoutSet } from "@/lib/workouts"
+
+// 输入框中的值先按字符串保存，提交时再转换
+type DraftSet = Record<keyof WorkoutSet, string>
+type DraftExercise = { exerciseId: string; sets: DraftSet[] }
+
+const emptySet: DraftSet = { reps: "", weightKg: "", durationMin: "", distanceKm: "" }
+
+// 不同记录方式需要填写的字段
+const trackingFields: Record<ExerciseTracking, Array<{ key: keyof WorkoutSet; label: string }>> = {
+  weight_reps: [{ key: "weightKg", label: "kg" }, { key: "reps", label: "次" }],
+  reps: [{ key: "reps", label: "次" }],
+  duration: [{ key: "durationMin", label: "分钟" }],
+  cardio: [{ key: "durationMin", label: "分钟" }, { key: "distanceKm", label: "km" }],
+}
+
+const toSet = (draft: DraftSet): WorkoutSet =>
+  Object.fromEntries(
+    Object.entries(draft)
+      .filter(([, value]) => value !== "")
+      .map(([key, value]) => [key, Number(value)])
+  )
+
+const toExercises = (draft: DraftExercise[]) =>
+  draft.map(exercise => ({ exerciseId: exercise.exerciseId, sets: exercise.sets.map(toSet) }))
+
+interface WorkoutLoggerProps {
+  onSaved: () => void
+}
+
+export function WorkoutLogger({ onSaved }: WorkoutLoggerProps) {
+  const [title, setTitle] = useState("")
+  const [durationMin, setDurationMin] = useState("")
+  const [draft, setDraft] = useState<DraftExercise[]>([])
+  const [isPickerOpen, setIsPickerOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [lastEstimateKcal, setLastEstimateKcal] = useState<number | null>(null)
+  // 清空所有动作后不再显示上一次的估算
+  const estimatedKcal = draft.length > 0 ? lastEstimateKcal : null
+  const { toast } = useToast()
+
+  // 编辑停顿后估算本次训练消耗
+  useEffect(() => {
+    if (draft.length === 0) return
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/energy/burn', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            durationMin: durationMin ? Number(durationMin) : undefined,
+            exercises: toExercises(draft),
+          })
+        })
+        const result = await response.json()
+
+        if (response.ok) {
+          setLastEstimateKcal(result.burn.totalKcal)
+        }
+      } catch (error) {
+        console.error('Error estimating burn:', error)
+      }
+    }, 400)
+
+    return () => clearTimeout(timer)
+  }, [draft, durationMin])
+
+  const handleAddExercise = (exercise: Exercise) => {
+    setDraft(prev => [...prev, { exerciseId: exercise.id, sets: [{ ...emptySet }] }])
+    setIsPickerOpen(false)
+  }
+
+  const updateExercise = (index: number, update: (exercise: DraftExercise) => DraftExercise | null) => {
+    setDraft(prev => prev.flatMap((exercise, i) => {
+      if (i !== index) return [exercise]
+      const updated = update(exercise)
+      return updated ? [updated] : []
+    }))
+  }
+
+  // 新的一组默认沿用上一组的数值
+  const handleAddSet = (index: number) => {
+    updateExercise(index, exercise => ({
+      ...exercise,
+      sets: [...exercise.sets, { ...(exercise.sets[exercise.sets.length - 1] || emptySet) }],
+    }))
+  }
+
+  const handleSetChange = (index: number, setIndex: number, key: keyof WorkoutSet, value: string) => {
+    updateExercise(index, exercise => ({
+      ...exercise,
+      sets: exercise.sets.map((set, i) => i === setIndex ? { ...set, [key]: value } : set),
+    }))
+  }
+
+  const handleRemoveSet = (index: number, setIndex: number) => {
+    updateExercise(index, exercise => {
+      const sets = exercise.sets.filter((_, i) => i !== setIndex)
+      return sets.length > 0 ? { ...exercise, sets } : null
+    })
+  }
+
+  const handleSave = async () => {
+    if (draft.length === 0 || isSaving) return
+
+    setIsSaving(true)
+
+    try {
+      const response = await fetch('/api/workouts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          date: toDateKey(),
+          title,
+          durationMin: durationMin ? Number(durationMin) : undefined,
+          exercises: toExercises(draft),
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error('Failed to save workout')
+      }
+
+      setTitle("")
+      setDurationMin("")
+      setDraft([])
+      toast({ title: "训练已保存" })
+      onSaved()
+    } catch (error) {
+      console.error('Error saving workout:', error)
+      toast({
+        title: "保存失败",
+        description: "无法保存训练，请检查输入后再试。",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        <Input className="col-span-2" placeholder="训练名称，例如：腿部日" value={title} onChange={(e) => setTitle(e.target.value)} />
+        <Input type="number" inputMode="numeric" placeholder="总时长（分钟）" value={durationMin} onChange={(e) => setDurationMin(e.target.value)} />
+      </div>
+
+      {draft.map((item, index) => {
+        const exercise = getExercise(item.exerciseId)
+        if (!exercise) return null
+        const fields = trackingFields[exercise.tracking]
+
+        return (
+          <Card key={`${item.exerciseId}-${index}`} className="gap-3">
+            <CardHeader>
+              <CardTitle className="text-base">{exercise.nameZh}</CardTitle>
+              <CardAction>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="移除动作" onClick={() => updateExercise(index, () => null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </CardAction>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {item.sets.map((set, setIndex) => (
+                <div key={setIndex} className="flex items-center gap-2">
+                  <span className="w-10 text-sm text-muted-foreground">第{setIndex + 1}组</span>
+                  {fields.map(({ key, label }) => (
+                    <div key={key} className="flex flex-1 items-center gap-1">
+                      <Input
+                        type="number"
+                        inputMode="decimal"
+                        step="any"
+                        value={set[key]}
+                        onChange={(e) => handleSetChange(index, setIndex, key, e.target.value)}
+                      />
+                      <span className="text-xs text-muted-foreground">{label}</span>
+                    </div>
+                  ))}
+                  <Button variant="ghost" size="icon" className="h-7 w-7" title="删除这一组" onClick={() => handleRemoveSet(index, setIndex)}>
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+              <Button variant="outline" size="sm" onClick={() => handleAddSet(index)}>
+                <Plus className="h-3.5 w-3.5" />
+                加一组
+              </Button>
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      {estimatedKcal !== null && (
+        <p className="text-sm text-muted-foreground">预计消耗约 {estimatedKcal} kcal</p>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={() => setIsPickerOpen(true)}>
+          <Plus className="h-4 w-4" />
+          添加动作
+        </Button>
+        <Button className="flex-1" disabled={draft.length === 0 || isSaving} onClick={handleSave}>
+          {isSaving ? "保存中…" : "完成训练"}
+        </Button>
+      </div>
+
+      <Dialog open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>选择动作</DialogTitle>
+          </DialogHeader>
+          <ExerciseLibrary onSelect={handleAddExercise} />
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
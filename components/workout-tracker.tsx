@@ -0,0 +1,67 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { ExerciseLibrary } from "@/components/exercise-library"
+import { WorkoutHistory } from "@/components/workout-history"
+import { WorkoutLogger } from "@/components/workout-logger"
+import type { SessionBurn } from "@/lib/energy"
+import type { WorkoutSession } from "@/lib/workouts"
+
+type SessionWithBurn = WorkoutSession & { burn: SessionBurn }
+
+/**
+ * 读取训练记录
+ */
+async function fetchSessions(): Promise<SessionWithBurn[]> {
+  const response = await fetch('/api/workouts')
+  const result = await response.json()
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load workouts')
+  }
+
+  return result.sessions
+}
+
+export function WorkoutTracker() {
+  const [sessions, setSessions] = useState<SessionWithBurn[]>([])
+
+  const loadSessions = () => fetchSessions()
+    .then(setSessions)
+    .catch(error => console.error('Error loading workouts:', error))
+
+  useEffect(() => {
+    loadSessions()
+  }, [])
+
+  const handleDelete = async (id: string) => {
+    const response = await fetch(`/api/workouts/${id}`, { method: 'DELETE' })
+    if (response.ok) {
+      await loadSessions()
+    }
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto px-4 py-6 space-y-4">
+      <h1 className="text-2xl font-bold text-foreground">Workout</h1>
+
+      <Tabs defaultValue="log">
+        <TabsList className="w-full">
+          <TabsTrigger value="log">记录训练</TabsTrigger>
+          <TabsTrigger value="history">历史</TabsTrigger>
+          <TabsTrigger value="library">动作库</TabsTrigger>
+        </TabsList>
+        <TabsContent value="log" className="pt-2">
+          <WorkoutLogger onSaved={loadSessions} />
+        </TabsContent>
+        <TabsContent value="history" className="pt-2">
+          <WorkoutHistory sessions={sessions} onDelete={handleDelete} />
+        </TabsContent>
+        <TabsContent value="library" className="pt-2">
+          <ExerciseLibrary />
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
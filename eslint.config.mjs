@@ -0,0 +1,21 @@
+import { defineConfig, globalIgnores } from "eslint/config"
+import nextVitals from "eslint-config-next/core-web-vitals"
+import nextTs from "eslint-config-next/typescript"
+
+const eslintConfig = defineConfig([
+  ...nextVitals,
+  ...nextTs,
+  {
+    rules: {
+      // 以 _ 开头的变量表示有意不用，例如解构时丢弃的字段
+      "@typescript-eslint/no-unused-vars": ["warn", {
+        argsIgnorePattern: "^_",
+        varsIgnorePattern: "^_",
+        ignoreRestSiblings: true,
+      }],
+    },
+  },
+  globalIgnores([".next/**", "out/**", "build/**", "data/**", "next-env.d.ts"]),
+])
+
+export default eslintConfig
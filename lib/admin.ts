@@ -0,0 +1,23 @@
+/**
+ * 管理接口鉴权
+ * 请求头 Authorization: Bearer <ADMIN_TOKEN>，未配置 ADMIN_TOKEN 时管理接口全部关闭
+ */
+
+import { createHash, timingSafeEqual } from 'crypto'
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest()
+}
+
+function isAdminRequest(request: Request): boolean {
+  const token = process.env.ADMIN_TOKEN
+  if (!token) return false
+
+  const header = request.headers.get('authorization') || ''
+  const provided = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : ''
+
+  // 比较哈希，长度不同也不会提前返回
+  return provided.length > 0 && timingSafeEqual(digest(provided), digest(token))
+}
+
+export { isAdminRequest }
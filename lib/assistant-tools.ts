@@ -0,0 +1,146 @@
+/**
+ * 助手可调用的本地工具
+ * 营养数据、当天饮食合计和训练历史都从服务端读取，避免模型凭空编造数字
+ */
+
+import { z } from 'zod'
+import { addDays, isDateKey, toDateKey } from './dates'
+import { estimateSessionBurn, resolveBodyWeight } from './energy'
+import { getExercise } from './exercises'
+import type { LocalTool } from './llm/tools'
+import { loadDailyTargets } from './daily-targets'
+import { sumNutrition } from './meals'
+import { calculateNutrition, searchFoods } from './nutrition'
+import { storage } from './storage'
+
+const lookupFoodArgs = z.object({
+  query: z.string().trim().min(1).max(50),
+  grams: z.coerce.number().positive().max(5000).optional()
+})
+
+const diaryTotalsArgs = z.object({
+  date: z.string().refine(isDateKey).optional()
+})
+
+const workoutHistoryArgs = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(14)
+})
+
+function lookupFoodTool(): LocalTool {
+  return {
+    label: '查询食物营养',
+    definition: {
+      type: 'function',
+      function: {
+        name: 'lookup_food',
+        description: '在内置食物成分表中搜索食物，返回每 100g 的营养数据和常见份量。估算热量前先查询。',
+        parameters: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', description: '食物名称，中文、英文或拼音' },
+            grams: { type: 'number', description: '可选，按这个克数换算热量和宏量营养素' }
+          },
+          required: ['query']
+        }
+      }
+    },
+    async execute(args) {
+      const { query, grams } = lookupFoodArgs.parse(args)
+
+      return searchFoods(query, { limit: 3 }).map(({ food }) => ({
+        name: food.nameZh,
+        per100g: food.per100g,
+        servings: food.servings,
+        ...(grams ? { forGrams: grams, ...calculateNutrition(food, grams) } : {})
+      }))
+    }
+  }
+}
+
+function diaryTotalsTool(userId: string): LocalTool {
+  return {
+    label: '查询饮食记录',
+    definition: {
+      type: 'function',
+      function: {
+        name: 'get_diary_totals',
+        description: '读取用户某天的饮食日记，返回各条记录、热量和宏量营养素合计以及每日目标。',
+        parameters: {
+          type: 'object',
+          properties: {
+            date: { type: 'string', description: '日期 YYYY-MM-DD，默认今天' }
+          }
+        }
+      }
+    },
+    async execute(args) {
+      const { date = toDateKey() } = diaryTotalsArgs.parse(args)
+      const [entries, profile] = await Promise.all([
+        storage.meals.listMeals(userId, date, date),
+        storage.profiles.getProfile(userId)
+      ])
+      const daily = await loadDailyTargets(userId, profile, date)
+
+      return {
+        date,
+        entries: entries.map(entry => ({ slot: entry.slot, name: entry.name, portion: `${entry.portion}${entry.unit}`, calories: entry.calories })),
+        totals: sumNutrition(entries),
+        targets: daily?.targets ?? null
+      }
+    }
+  }
+}
+
+function workoutHistoryTool(userId: string): LocalTool {
+  return {
+    label: '查询训练记录',
+    definition: {
+      type: 'function',
+      function: {
+        name: 'get_workout_history',
+        description: '读取用户最近的训练记录，返回每次训练的动作、组数、时长和估算消耗。',
+        parameters: {
+          type: 'object',
+          properties: {
+            days: { type: 'integer', description: '最近多少天，默认 14，最多 90' }
+          }
+        }
+      }
+    },
+    async execute(args) {
+      const { days } = workoutHistoryArgs.parse(args)
+      const [sessions, profile] = await Promise.all([
+        storage.workouts.listWorkouts(userId, addDays(toDateKey(), -days)),
+        storage.profiles.getProfile(userId)
+      ])
+      const { weightKg } = resolveBodyWeight(profile)
+
+      return sessions.map(session => {
+        const burn = estimateSessionBurn(session, weightKg)
+        return {
+          date: session.date,
+          title: session.title,
+          minutes: burn.totalMinutes,
+          kcal: burn.totalKcal,
+          exercises: session.exercises.map(item => ({
+            name: getExercise(item.exerciseId)?.nameZh || item.exerciseId,
+            sets: item.sets
+          }))
+        }
+      })
+    }
+  }
+}
+
+/** 各角色可用的工具 */
+const roleTools: Record<string, Array<(userId: string) => LocalTool>> = {
+  supportive_friend: [diaryTotalsTool],
+  nutritionist: [lookupFoodTool, diaryTotalsTool],
+  fitness_trainer: [workoutHistoryTool, diaryTotalsTool]
+}
+
+function createAssistantTools(userId: string, role: string): LocalTool[] {
+  return (roleTools[role] || roleTools.supportive_friend).map(create => create(userId))
+}
+
+export { createAssistantTools }
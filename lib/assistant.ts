@@ -0,0 +1,472 @@
+/**
+ * 减肥助手
+ * 负责角色提示词、对话组装、安全筛查、食物识别、健康替换和图片生成，模型调用交给 LLMProvider
+ */
+
+import { llmProvider, type ChatMessage, type ChatUsage, type LLMProvider } from './llm'
+import DoubaoImageClient from './doubao-image'
+import { cravingMentions, describeFoodMentions, extractFoodMentions, imageWorthyMentions, mentionToMealEntry, type FoodExtraction } from './food-extraction'
+import { suggestHealthySwap, type HealthySwap } from './healthy-swap'
+import { guessMealSlot } from './meals'
+import { DEFAULT_PERSONA_ID, type Persona } from './personas'
+import { getPersona } from './persona-prompts'
+import { SAFETY_PROMPT, StreamingReplyScreener, safetyCautionPrompt, safetyTemplate, screenAssistantReply, screenUserMessage, type SafetyTrigger } from './safety'
+import { ProviderUnavailableError } from './llm/errors'
+import { ConversationHistoryManager, type ConversationSummary } from './chat-history'
+import type { ChatStreamEvent } from './chat-stream'
+import { formatProfilePrompt, type UserProfile } from './profile'
+import { formatMemoryPrompt, type MemoryFact } from './user-memory'
+import { formatHandoffPrompt, type Handoff } from './handoff'
+import { findFoodsInText, formatFoodReference } from './nutrition'
+import { formatBurnPrompt, resolveBodyWeight } from './energy'
+import type { WorkoutSession } from './workouts'
+import { formatTdeePrompt } from './tdee'
+import { formatMealPhotoPrompt, type MealPhotoAnalysis } from './meal-photo'
+import type { DailyTargets } from './daily-targets'
+import { MAX_ACTIONS_PER_REPLY, ReplyStreamExtractor, formatActionInstructions, parseAssistantEnvelope, type ChatAction } from './chat-actions'
+import { toDateKey } from './dates'
+import { runToolLoop, runToolLoopStream, type LocalTool } from './llm/tools'
+
+interface WeightLossChatOptions {
+  conversationHistory?: ChatMessage[]
+  /** 客户端保存的滚动摘要，覆盖历史中较早的消息 */
+  summary?: ConversationSummary
+  role?: string
+  /** 由路由解析好的角色（含自定义角色），未传时按 role 读取内置角色 */
+  persona?: Persona
+  /** 用户资料，存在时注入系统提示 */
+  profile?: UserProfile | null
+  /** 所有角色共享的长期记忆 */
+  memory?: MemoryFact[]
+  /** 从其他角色转接过来时带的情况摘要 */
+  handoff?: Handoff
+  /** 最近的训练记录，健身教练估算消耗时使用 */
+  recentWorkouts?: WorkoutSession[]
+  /** 自适应 TDEE 和每日目标，营养师制定计划时使用 */
+  dailyTargets?: DailyTargets | null
+  /** 用户随消息附带的照片（data URL），以 image_url 形式发给模型 */
+  images?: string[]
+  /** 上传时已识别过的餐食照片，识别结果写进系统提示，照片不再发给模型 */
+  photoAnalyses?: MealPhotoAnalysis[]
+  /** 模型可以调用的本地工具，为空时不开启工具调用 */
+  tools?: LocalTool[]
+  /** 是否生成食物图片，图片配额用完时关闭，默认开启 */
+  generateImages?: boolean
+  /** 安全护栏命中时回调，用于记录待复核事件 */
+  onSafetyTrigger?: (trigger: SafetyTrigger) => void
+  signal?: AbortSignal
+}
+
+interface WeightLossChatResult {
+  content: string
+  images?: string[]
+  /** 模型提议、已通过校验的操作，需要用户确认 */
+  actions?: ChatAction[]
+  /** 用户想吃高热量食物时的健康替换建议 */
+  swap?: HealthySwap
+  summary?: ConversationSummary
+}
+
+class WeightLossAssistant {
+  private provider: LLMProvider
+  private historyManager: ConversationHistoryManager
+  private imageClient: DoubaoImageClient
+
+  constructor(provider: LLMProvider) {
+    this.provider = provider
+    this.historyManager = new ConversationHistoryManager(provider)
+    this.imageClient = new DoubaoImageClient(provider)
+  }
+
+  /**
+   * 为减肥助手优化的聊天方法
+   */
+  async weightLossChat(userMessage: string, options: WeightLossChatOptions = {}): Promise<WeightLossChatResult> {
+    const { conversationHistory = [], role = DEFAULT_PERSONA_ID, tools = [], signal } = options
+
+    // 命中 block 规则时不调用模型，直接回复安全模板
+    const userTrigger = this.screenUser(userMessage, options)
+    if (userTrigger?.severity === 'block') {
+      return { content: safetyTemplate(userTrigger.category) }
+    }
+
+    // 食物识别和主回复并行
+    const extractionTask = this.extractFoods(userMessage, options)
+
+    try {
+      const { messages, summary } = await this.buildWeightLossMessages(userMessage, options, userTrigger)
+      const persona = options.persona ?? getPersona(role)
+      const response = await runToolLoop(this.provider, {
+        messages,
+        temperature: persona.temperature,
+        max_tokens: 1500,
+        thinking: { type: persona.thinking },
+        response_format: { type: 'json_object' }
+      }, tools, { signal })
+
+      // 处理模型的响应格式
+      if (response.choices && response.choices.length > 0) {
+        const content = response.choices[0].message.content
+        const textContent = typeof content === 'string' ? content : JSON.stringify(content)
+        const { reply, actions: proposed } = parseAssistantEnvelope(textContent)
+        const replyTrigger = this.screenReply(reply, options)
+        if (replyTrigger) {
+          return { content: safetyTemplate(replyTrigger.category), summary }
+        }
+
+        const extraction = await extractionTask
+        const [images, swap] = await Promise.all([
+          this.generateFoodImages(extraction, options),
+          this.suggestSwap(extraction, options)
+        ])
+        const actions = this.prefillMealActions(this.filterHandoffs(proposed, role, options), extraction)
+
+        return {
+          content: reply,
+          images: images.length > 0 ? images : undefined,
+          actions: actions.length > 0 ? actions : undefined,
+          swap: swap || undefined,
+          summary
+        }
+      }
+
+      return { content: '抱歉，我现在无法回应。请稍后再试。' }
+    } catch (error) {
+      // 熔断打开时直接向上抛出，由路由返回 503
+      if (error instanceof ProviderUnavailableError) {
+        throw error
+      }
+
+      console.error('Error in weight loss chat:', error)
+      this.logWeightLossError(error, userMessage, conversationHistory, role)
+
+      return { content: '抱歉，遇到了一些技术问题。请稍后再试，或者联系开发者获得帮助。' }
+    }
+  }
+
+  /**
+   * 减肥助手的流式聊天方法
+   * 模型输出 JSON 信封，增量文本只转发其中 reply 字段已通过逐句筛查的部分；结束时产出带图片、操作和用量的 done 事件，出错时产出 error 事件
+   * 生成途中命中安全护栏时停止生成，先产出 replace 事件再产出带安全模板的 done 事件
+   */
+  async *weightLossChatStream(userMessage: string, options: WeightLossChatOptions = {}): AsyncGenerator<ChatStreamEvent> {
+    const { conversationHistory = [], role = DEFAULT_PERSONA_ID, tools = [], signal } = options
+    let extractor = new ReplyStreamExtractor()
+    let screener = new StreamingReplyScreener()
+    let raw = ''
+
+    const userTrigger = this.screenUser(userMessage, options)
+    if (userTrigger?.severity === 'block') {
+      yield { type: 'done', content: safetyTemplate(userTrigger.category) }
+      return
+    }
+
+    const extractionTask = this.extractFoods(userMessage, options)
+
+    try {
+      const { messages, summary } = await this.buildWeightLossMessages(userMessage, options, userTrigger)
+      const persona = options.persona ?? getPersona(role)
+      const stream = runToolLoopStream(this.provider, {
+        messages,
+        temperature: persona.temperature,
+        max_tokens: 1500,
+        thinking: { type: persona.thinking },
+        response_format: { type: 'json_object' }
+      }, tools, { signal })
+
+      let usage: ChatUsage | undefined
+      let finishReason: string | undefined
+
+      for await (const event of stream) {
+        if (event.type === 'content') {
+          raw += event.text
+          const text = screener.push(extractor.push(event.text))
+          if (text) {
+            yield { type: 'delta', content: text }
+          }
+          if (screener.trigger) break
+        } else if (event.type === 'reasoning') {
+          yield { type: 'reasoning', content: event.text }
+        } else if (event.type === 'finish') {
+          finishReason = event.reason
+        } else if (event.type === 'usage') {
+          // 工具调用的每一轮都会返回用量，累加得到整次回复的消耗
+          usage = usage ? {
+            prompt_tokens: usage.prompt_tokens + event.usage.prompt_tokens,
+            completion_tokens: usage.completion_tokens + event.usage.completion_tokens,
+            total_tokens: usage.total_tokens + event.usage.total_tokens
+          } : event.usage
+        } else if (event.type === 'tool') {
+          // 工具执行完会开始新一轮请求，只有最后一轮的输出是回复信封
+          extractor = new ReplyStreamExtractor()
+          screener = new StreamingReplyScreener()
+          raw = ''
+          yield { type: 'tool', name: event.call.function.name, label: event.label }
+        }
+      }
+
+      // 先用安全模板替换已经推送的句子，没写完的半句不再推送；done 要等保存完才发出，用户这时停止也能看到替换后的内容
+      if (screener.trigger) {
+        options.onSafetyTrigger?.(screener.trigger)
+        const content = safetyTemplate(screener.trigger.category)
+        yield { type: 'replace', content }
+        yield { type: 'done', content, usage, finishReason, summary }
+        return
+      }
+
+      const { reply, actions: proposed } = parseAssistantEnvelope(raw)
+
+      // 最后半句在这里筛查，命中时同样替换已推送的文本
+      const replyTrigger = this.screenReply(reply, options)
+      if (replyTrigger) {
+        yield { type: 'done', content: safetyTemplate(replyTrigger.category), usage, finishReason, summary }
+        return
+      }
+
+      const extraction = await extractionTask
+      const [images, swap] = await Promise.all([
+        this.generateFoodImages(extraction, options),
+        this.suggestSwap(extraction, options)
+      ])
+      const actions = this.prefillMealActions(this.filterHandoffs(proposed, role, options), extraction)
+
+      yield {
+        type: 'done',
+        content: reply,
+        images: images.length > 0 ? images : undefined,
+        actions: actions.length > 0 ? actions : undefined,
+        swap: swap || undefined,
+        usage,
+        finishReason,
+        summary
+      }
+    } catch (error) {
+      // 用户主动停止时不再推送错误
+      if (signal?.aborted) {
+        return
+      }
+
+      if (error instanceof ProviderUnavailableError) {
+        throw error
+      }
+
+      console.error('Error in weight loss chat stream:', error)
+      this.logWeightLossError(error, userMessage, conversationHistory, role)
+
+      yield { type: 'error', error: '抱歉，遇到了一些技术问题。请稍后再试，或者联系开发者获得帮助。' }
+    }
+  }
+
+  /**
+   * 根据角色组装发送给模型的消息列表，历史超出预算时先折叠进摘要
+   */
+  private async buildWeightLossMessages(
+    userMessage: string,
+    options: WeightLossChatOptions,
+    safetyTrigger: SafetyTrigger | null
+  ): Promise<{ messages: ChatMessage[]; summary?: ConversationSummary }> {
+    const { conversationHistory = [], summary, role = DEFAULT_PERSONA_ID, profile, memory = [], handoff, recentWorkouts, dailyTargets, images = [], photoAnalyses = [], tools = [], signal } = options
+
+    const rolePrompt = (options.persona ?? getPersona(role)).systemPrompt
+    const promptSections = [rolePrompt, SAFETY_PROMPT]
+
+    const cautionPrompt = safetyTrigger && safetyCautionPrompt(safetyTrigger.category)
+    if (cautionPrompt) {
+      promptSections.push(cautionPrompt)
+    }
+
+    if (profile) {
+      promptSections.push(formatProfilePrompt(profile))
+    }
+
+    const memoryPrompt = formatMemoryPrompt(memory)
+    if (memoryPrompt) {
+      promptSections.push(memoryPrompt)
+    }
+
+    if (handoff) {
+      promptSections.push(formatHandoffPrompt(handoff))
+    }
+
+    if (role === 'nutritionist' && dailyTargets) {
+      promptSections.push(formatTdeePrompt(dailyTargets.tdee, dailyTargets.targets.calories))
+    }
+
+    if (role === 'fitness_trainer') {
+      promptSections.push(formatBurnPrompt(resolveBodyWeight(profile), recentWorkouts))
+    }
+
+    if (photoAnalyses.length > 0) {
+      promptSections.push(formatMealPhotoPrompt(photoAnalyses))
+    }
+
+    // 用户提到内置成分表中的食物时附上营养数据，减少模型凭空估算
+    const mentionedFoods = findFoodsInText(userMessage)
+    if (mentionedFoods.length > 0) {
+      promptSections.push(formatFoodReference(mentionedFoods))
+    }
+
+    if (tools.length > 0) {
+      promptSections.push(`可用工具：${tools.map(tool => tool.label).join('、')}。涉及用户的记录或具体营养数字时先调用工具查询，不要凭空编造。`)
+    }
+
+    promptSections.push(formatActionInstructions(toDateKey(), role))
+
+    const systemPrompt = promptSections.join('\n\n')
+
+    const history = await this.historyManager.prepare(conversationHistory, summary, role, signal)
+
+    return {
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...history.messages,
+        {
+          role: 'user',
+          content: images.length > 0
+            ? [...images.map(url => ({ type: 'image_url', image_url: { url } })), { type: 'text', text: userMessage }]
+            : userMessage
+        }
+      ],
+      summary: history.summary
+    }
+  }
+
+  /**
+   * 筛查用户消息，命中时上报
+   */
+  private screenUser(userMessage: string, { onSafetyTrigger }: WeightLossChatOptions): SafetyTrigger | null {
+    const trigger = screenUserMessage(userMessage)
+    if (trigger) onSafetyTrigger?.(trigger)
+    return trigger
+  }
+
+  /**
+   * 筛查模型回复，只返回需要替换的 block 命中
+   */
+  private screenReply(reply: string, { onSafetyTrigger }: WeightLossChatOptions): SafetyTrigger | null {
+    const trigger = screenAssistantReply(reply)
+    if (trigger) onSafetyTrigger?.(trigger)
+    return trigger
+  }
+
+  /**
+   * 识别用户消息中提到的食物，用户自己发了照片或识别出错时返回空结果
+   */
+  private async extractFoods(userMessage: string, { images, photoAnalyses, signal }: WeightLossChatOptions): Promise<FoodExtraction> {
+    if ((images && images.length > 0) || (photoAnalyses && photoAnalyses.length > 0)) {
+      return { mentions: [], source: 'keywords' }
+    }
+
+    try {
+      return await extractFoodMentions(this.provider, userMessage, { signal })
+    } catch {
+      return { mentions: [], source: 'keywords' }
+    }
+  }
+
+  /**
+   * 为识别出的食物生成图片，失败时返回空数组
+   */
+  private async generateFoodImages(extraction: FoodExtraction, { generateImages = true, signal }: WeightLossChatOptions): Promise<string[]> {
+    const mentions = imageWorthyMentions(extraction)
+
+    if (!generateImages || mentions.length === 0) {
+      return []
+    }
+
+    const foodDescription = describeFoodMentions(mentions)
+
+    try {
+      console.log('检测到食物相关内容，开始生成图片...')
+      const images = await this.imageClient.generateFoodImage(foodDescription, { signal })
+      console.log('图片生成成功，数量:', images.length)
+      return images
+    } catch (imageError) {
+      console.error('图片生成失败:', imageError)
+      // 图片生成失败不影响聊天回复
+      return []
+    }
+  }
+
+  /**
+   * 用户想吃某样食物时请营养师给出低热量替代，并生成两者构图一致的对比图
+   * 没有想吃的食物、替代不够划算或出错时返回 null，关闭图片或图片生成失败时只返回文字对比
+   */
+  private async suggestSwap(extraction: FoodExtraction, { generateImages = true, signal }: WeightLossChatOptions): Promise<HealthySwap | null> {
+    const [craving] = cravingMentions(extraction)
+
+    if (!craving) {
+      return null
+    }
+
+    try {
+      const swap = await suggestHealthySwap(this.provider, craving, { signal })
+      if (!swap || !generateImages) {
+        return swap
+      }
+
+      const [cravingImages, swapImages] = await Promise.all([
+        this.imageClient.generateFoodImage(swap.craving.name, { signal }, 'craving').catch(() => []),
+        this.imageClient.generateFoodImage(swap.swap.name, { signal }, 'swap').catch(() => [])
+      ])
+
+      return {
+        ...swap,
+        craving: { ...swap.craving, imageUrl: cravingImages[0] },
+        swap: { ...swap.swap, imageUrl: swapImages[0] }
+      }
+    } catch (error) {
+      console.error('健康替换生成失败:', error)
+      return null
+    }
+  }
+
+  /**
+   * 去掉转给自己的转接；刚转接过来的这一轮也不再转走，避免来回转
+   */
+  private filterHandoffs(actions: ChatAction[], role: string, options: WeightLossChatOptions): ChatAction[] {
+    return actions.filter(action => action.type !== 'handoff' || (action.to !== role && !options.handoff))
+  }
+
+  /**
+   * 模型没有提议记录饮食时，把用户说已经吃了的食物预填成待确认的记录
+   */
+  private prefillMealActions(actions: ChatAction[], extraction: FoodExtraction): ChatAction[] {
+    if (actions.some(action => action.type === 'log_meal')) {
+      return actions
+    }
+
+    const date = toDateKey()
+    const slot = guessMealSlot()
+    const prefilled: ChatAction[] = []
+
+    for (const mention of extraction.mentions) {
+      const entry = mentionToMealEntry(mention, date, slot)
+      if (entry) {
+        prefilled.push({ type: 'log_meal', entry })
+      }
+    }
+
+    return [...actions, ...prefilled].slice(0, MAX_ACTIONS_PER_REPLY)
+  }
+
+  /**
+   * 输出减肥助手调用失败时的详细日志
+   */
+  private logWeightLossError(error: unknown, userMessage: string, conversationHistory: ChatMessage[], role: string) {
+    console.error(`=== ${this.provider.name} API错误信息 ===`)
+    if (error instanceof Error) {
+      console.error('错误消息:', error.message)
+    }
+    console.error('用户消息:', userMessage)
+    console.error('角色模式:', role)
+    console.error('对话历史长度:', conversationHistory.length)
+    console.error('========================')
+  }
+}
+
+// 创建单例实例
+export const weightLossAssistant = new WeightLossAssistant(llmProvider)
+
+export type { WeightLossChatOptions, WeightLossChatResult }
+export default WeightLossAssistant
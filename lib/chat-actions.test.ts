@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  ReplyStreamExtractor,
+  describeChatAction,
+  formatActionInstructions,
+  parseAssistantEnvelope,
+  parseChatAction
+} from './chat-actions'
+
+describe('parseAssistantEnvelope', () => {
+  it('解析回复和合法操作', () => {
+    const envelope = parseAssistantEnvelope(JSON.stringify({
+      reply: ' 记下了 ',
+      actions: [{ type: 'log_weight', weightKg: 62.4 }]
+    }))
+
+    expect(envelope).toEqual({ reply: '记下了', actions: [{ type: 'log_weight', weightKg: 62.4 }] })
+  })
+
+  it('去掉代码块包裹', () => {
+    const envelope = parseAssistantEnvelope('```json\n{"reply": "好的", "actions": []}\n```')
+    expect(envelope).toEqual({ reply: '好的', actions: [] })
+  })
+
+  it('不是 JSON 时把原文当作回复', () => {
+    expect(parseAssistantEnvelope('直接回复')).toEqual({ reply: '直接回复', actions: [] })
+  })
+
+  it('逐条丢弃不合规的操作', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    const envelope = parseAssistantEnvelope(JSON.stringify({
+      reply: '好的',
+      actions: [
+        { type: 'log_weight', weightKg: -1 },
+        { type: 'set_goal' },
+        { type: 'set_goal', goal: 'lose' }
+      ]
+    }))
+
+    expect(envelope.actions).toEqual([{ type: 'set_goal', goal: 'lose' }])
+  })
+})
+
+describe('handoff 操作', () => {
+  it('perform 默认为 false', () => {
+    expect(parseChatAction({ type: 'handoff', to: 'nutritionist', summary: '想算蛋白质' })).toEqual({
+      type: 'handoff',
+      to: 'nutritionist',
+      summary: '想算蛋白质',
+      perform: false
+    })
+  })
+
+  it('只能转给营养师或健身教练', () => {
+    expect(parseChatAction({ type: 'handoff', to: 'friend', summary: '随便聊聊' })).toBeNull()
+    expect(parseChatAction({ type: 'handoff', to: 'nutritionist', summary: '  ' })).toBeNull()
+  })
+
+  it('说明中不把当前角色列为转接目标', () => {
+    const instructions = formatActionInstructions('2026-10-19', 'nutritionist')
+    expect(instructions).toContain('fitness_trainer=健身教练')
+    expect(instructions).not.toContain('nutritionist=营养师')
+  })
+
+  it('卡片标题为目标角色', () => {
+    expect(describeChatAction({ type: 'handoff', to: 'fitness_trainer', summary: '膝盖疼想练腿', perform: false }))
+      .toEqual({ title: '转给健身教练', detail: '膝盖疼想练腿' })
+  })
+})
+
+describe('ReplyStreamExtractor', () => {
+  const collect = (chunks: string[]) => {
+    const extractor = new ReplyStreamExtractor()
+    return chunks.map(chunk => extractor.push(chunk)).join('')
+  }
+
+  it('从分块的 JSON 信封中提取 reply', () => {
+    expect(collect(['{"re', 'ply": "你', '好\\n', '呀", "actions": []}'])).toBe('你好\n呀')
+  })
+
+  it('转义序列被拆开时等到完整再输出', () => {
+    expect(collect(['{"reply": "a\\', 'u4f60b"}'])).toBe('a你b')
+  })
+
+  it('不是 JSON 时原样转发', () => {
+    expect(collect(['普通', '文本'])).toBe('普通文本')
+  })
+})
@@ -0,0 +1,277 @@
+/**
+ * 助手结构化回复
+ * 模型以 JSON 信封返回回复正文和可选的操作（记录饮食、体重、训练，调整目标，转接教练），
+ * 服务端逐条校验，前端渲染为需要用户确认的操作卡片
+ */
+
+import { z } from 'zod'
+import { isDateKey } from './dates'
+import { mealEntrySchema, mealSlots } from './meals'
+import { goalOptions } from './profile'
+import { exercises, getExercise } from './exercises'
+import { workoutSessionSchema } from './workouts'
+import { handoffTargets, type HandoffTarget } from './handoff'
+import { personas } from './personas'
+
+const optionalDate = z.string().refine(isDateKey, '日期格式应为 YYYY-MM-DD').optional()
+
+const logMealActionSchema = z.object({
+  type: z.literal('log_meal'),
+  entry: mealEntrySchema.extend({ date: optionalDate })
+})
+
+const logWeightActionSchema = z.object({
+  type: z.literal('log_weight'),
+  date: optionalDate,
+  weightKg: z.coerce.number().min(20).max(400)
+})
+
+const logWorkoutActionSchema = z.object({
+  type: z.literal('log_workout'),
+  session: workoutSessionSchema.extend({ date: optionalDate })
+})
+
+const setGoalActionSchema = z.object({
+  type: z.literal('set_goal'),
+  goal: z.enum(['lose', 'maintain', 'gain']).optional(),
+  goalWeightKg: z.coerce.number().min(30).max(300).optional()
+})
+
+const handoffActionSchema = z.object({
+  type: z.literal('handoff'),
+  to: z.enum(handoffTargets),
+  /** 带给新角色的情况摘要 */
+  summary: z.string().trim().min(1).max(300),
+  /** 用户明确要求换教练时直接转接，否则等用户确认 */
+  perform: z.boolean().default(false)
+})
+
+const chatActionSchema = z.discriminatedUnion('type', [
+  logMealActionSchema,
+  logWeightActionSchema,
+  logWorkoutActionSchema,
+  setGoalActionSchema,
+  handoffActionSchema
+])
+
+type ChatAction = z.infer<typeof chatActionSchema>
+type ChatActionType = ChatAction['type']
+
+type ChatActionStatus = 'pending' | 'applied' | 'dismissed'
+
+/** 随助手消息保存的操作及其处理状态 */
+interface MessageAction {
+  action: ChatAction
+  status: ChatActionStatus
+}
+
+interface AssistantEnvelope {
+  reply: string
+  actions: ChatAction[]
+}
+
+/** 单条回复最多保留的操作数 */
+const MAX_ACTIONS_PER_REPLY = 5
+
+function parseChatAction(value: unknown): ChatAction | null {
+  const parsed = chatActionSchema.safeParse(value)
+  if (!parsed.success) return null
+
+  // 调整目标时至少要给出一项
+  const action = parsed.data
+  if (action.type === 'set_goal' && action.goal === undefined && action.goalWeightKg === undefined) return null
+  return action
+}
+
+/**
+ * 去掉模型偶尔包裹的 ```json 代码块
+ */
+function stripCodeFence(text: string): string {
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i)
+  return match ? match[1] : text.trim()
+}
+
+/**
+ * 解析模型输出的 JSON 信封
+ * 不是合法 JSON 时把原文当作回复；不合规的操作逐条丢弃，不影响回复正文
+ */
+function parseAssistantEnvelope(raw: string): AssistantEnvelope {
+  let data: unknown
+  try {
+    data = JSON.parse(stripCodeFence(raw))
+  } catch {
+    return { reply: raw.trim(), actions: [] }
+  }
+
+  const envelope = data as { reply?: unknown; actions?: unknown }
+  if (typeof envelope !== 'object' || envelope === null || typeof envelope.reply !== 'string') {
+    return { reply: raw.trim(), actions: [] }
+  }
+
+  const candidates = Array.isArray(envelope.actions) ? envelope.actions : []
+  const actions = candidates
+    .map(candidate => {
+      const action = parseChatAction(candidate)
+      if (!action) {
+        console.warn('助手返回的操作未通过校验，已忽略:', JSON.stringify(candidate))
+      }
+      return action
+    })
+    .filter((action): action is ChatAction => action !== null)
+    .slice(0, MAX_ACTIONS_PER_REPLY)
+
+  return { reply: envelope.reply.trim(), actions }
+}
+
+const JSON_START = /^\s*(```(?:json)?\s*)?\{/i
+const REPLY_FIELD = /"reply"\s*:\s*"/
+
+/**
+ * 从流式输出中增量提取 reply 字段的文本
+ * 输出不是 JSON 时按普通文本原样转发
+ */
+class ReplyStreamExtractor {
+  private buffer = ''
+  private mode: 'detect' | 'json' | 'text' | 'done' = 'detect'
+  /** buffer 中尚未解码的位置，指向 reply 字符串内部 */
+  private cursor = -1
+
+  push(chunk: string): string {
+    this.buffer += chunk
+
+    if (this.mode === 'detect') {
+      const head = this.buffer.trimStart()
+      if (!head) return ''
+
+      if (JSON_START.test(head)) {
+        this.mode = 'json'
+      } else if (('```'.startsWith(head) || head.startsWith('```')) && !/^```[^\n{]*\n\s*[^\s{]/.test(head)) {
+        // 代码块开头，等看到后面的内容再判断
+        return ''
+      } else {
+        this.mode = 'text'
+        return this.buffer
+      }
+    } else if (this.mode === 'text') {
+      return chunk
+    }
+
+    if (this.mode !== 'json') return ''
+
+    if (this.cursor < 0) {
+      const match = REPLY_FIELD.exec(this.buffer)
+      if (!match) return ''
+      this.cursor = match.index + match[0].length
+    }
+
+    return this.decode()
+  }
+
+  /**
+   * 解码 cursor 之后完整的字符和转义序列，遇到未转义的引号时结束
+   */
+  private decode(): string {
+    let text = ''
+
+    while (this.cursor < this.buffer.length) {
+      const char = this.buffer[this.cursor]
+
+      if (char === '"') {
+        this.mode = 'done'
+        break
+      }
+
+      if (char !== '\\') {
+        text += char
+        this.cursor++
+        continue
+      }
+
+      const escape = this.buffer[this.cursor + 1]
+      if (escape === undefined) break
+
+      if (escape === 'u') {
+        const hex = this.buffer.slice(this.cursor + 2, this.cursor + 6)
+        if (hex.length < 4) break
+        text += String.fromCharCode(parseInt(hex, 16))
+        this.cursor += 6
+        continue
+      }
+
+      text += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escape] ?? escape
+      this.cursor += 2
+    }
+
+    return text
+  }
+}
+
+const handoffScopes: Record<HandoffTarget, string> = {
+  nutritionist: '详细的营养素、热量计算、饮食计划',
+  fitness_trainer: '训练计划、动作要领、运动损伤'
+}
+
+/**
+ * 生成注入系统提示的输出格式说明，转接目标不包含当前角色
+ */
+function formatActionInstructions(today: string, role: string): string {
+  const slots = Object.entries(mealSlots).map(([key, label]) => `${key}=${label}`).join('，')
+  const goals = Object.entries(goalOptions).map(([key, label]) => `${key}=${label}`).join('，')
+  const exerciseIds = exercises.map(exercise => `${exercise.id}=${exercise.nameZh}`).join('，')
+  const targets = handoffTargets.filter(target => target !== role)
+
+  return `输出格式：
+只输出一个 JSON 对象，不要使用代码块，reply 字段放在最前面：
+{"reply": "给用户看的回复正文", "actions": []}
+当用户明确说出吃了什么、称了体重、完成了训练或想调整目标时，在 actions 中附上对应操作，用户确认后才会写入记录；只是闲聊或提问时 actions 为空数组，不要替用户编造数据。
+可用操作（date 省略时为今天 ${today}）：
+- {"type": "log_meal", "entry": {"slot": "lunch", "name": "米饭", "portion": 150, "unit": "g", "calories": 174, "proteinG": 3.9, "carbsG": 38.9, "fatG": 0.5}}，slot 可选 ${slots}
+- {"type": "log_weight", "weightKg": 68.5}
+- {"type": "log_workout", "session": {"title": "跑步", "durationMin": 30, "exercises": [{"exerciseId": "running", "sets": [{"durationMin": 30, "distanceKm": 5}]}]}}，exerciseId 只能从以下动作中选：${exerciseIds}
+- {"type": "set_goal", "goal": "lose", "goalWeightKg": 60}，goal 可选 ${goals}
+- {"type": "handoff", "to": "${targets[0]}", "summary": "用户的情况和想问的问题", "perform": false}，to 可选 ${targets.map(target => `${target}=${personas[target].name.zh}`).join('，')}
+在 reply 中简单说明你准备记录的内容，提醒用户点击确认。
+转接：用户的问题明显更适合${targets.map(target => personas[target].name.zh).join('或')}（${targets.map(target => handoffScopes[target]).join('；')}）时，先简短回应，再附上 handoff 建议转接；summary 用第三人称概括用户的情况和问题，让对方不用再问一遍。用户明确要求换教练时 perform 为 true，直接转接。`
+}
+
+/**
+ * 操作卡片上的简短描述
+ */
+function describeChatAction(action: ChatAction): { title: string; detail: string } {
+  switch (action.type) {
+    case 'log_meal': {
+      const { entry } = action
+      return {
+        title: `记录${mealSlots[entry.slot]}`,
+        detail: `${entry.name} ${entry.portion}${entry.unit} · ${Math.round(entry.calories)} kcal`
+      }
+    }
+    case 'log_weight':
+      return { title: '记录体重', detail: `${action.weightKg} kg${action.date ? ` · ${action.date}` : ''}` }
+    case 'log_workout': {
+      const names = action.session.exercises.map(exercise => getExercise(exercise.exerciseId)?.nameZh || exercise.exerciseId)
+      return {
+        title: `记录训练${action.session.title ? `：${action.session.title}` : ''}`,
+        detail: `${names.join('、')}${action.session.durationMin ? ` · ${action.session.durationMin} 分钟` : ''}`
+      }
+    }
+    case 'set_goal':
+      return {
+        title: '调整目标',
+        detail: [action.goal && goalOptions[action.goal], action.goalWeightKg && `目标体重 ${action.goalWeightKg} kg`].filter(Boolean).join(' · ')
+      }
+    case 'handoff':
+      return { title: `转给${personas[action.to].name.zh}`, detail: action.summary }
+  }
+}
+
+export {
+  MAX_ACTIONS_PER_REPLY,
+  ReplyStreamExtractor,
+  chatActionSchema,
+  describeChatAction,
+  formatActionInstructions,
+  parseAssistantEnvelope,
+  parseChatAction
+}
+export type { AssistantEnvelope, ChatAction, ChatActionStatus, ChatActionType, MessageAction }
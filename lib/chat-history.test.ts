@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ConversationHistoryManager, estimateTokens, getHistoryBudget } from './chat-history'
+import type { ChatMessage, LLMProvider } from './llm'
+
+function createSummaryProvider(reply: () => Promise<string>) {
+  const chatCompletion = vi.fn(async () => ({ choices: [{ message: { content: await reply() } }] }))
+  return { provider: { chatCompletion } as unknown as LLMProvider, chatCompletion }
+}
+
+/** 每条约 200 token */
+function createHistory(count: number): ChatMessage[] {
+  return Array.from({ length: count }, (_, index) => ({
+    role: index % 2 === 0 ? 'user' as const : 'assistant' as const,
+    content: `第${index}条${'减'.repeat(196)}`
+  }))
+}
+
+describe('estimateTokens', () => {
+  it('中文按字计算，其余约 4 个字符 1 token', () => {
+    expect(estimateTokens('你好')).toBe(2)
+    expect(estimateTokens('abcdefgh')).toBe(2)
+    expect(estimateTokens([{ type: 'text', text: '你好' }, { type: 'image_url', image_url: { url: 'data:' } }])).toBe(2)
+  })
+})
+
+describe('getHistoryBudget', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('按角色合并默认值和 HISTORY_BUDGETS 覆盖', () => {
+    expect(getHistoryBudget('nutritionist')).toMatchObject({ maxTokens: 3000, summaryMaxTokens: 400, minRecentMessages: 4 })
+
+    vi.stubEnv('HISTORY_BUDGETS', '{"nutritionist":{"maxTokens":5000}}')
+    expect(getHistoryBudget('nutritionist').maxTokens).toBe(5000)
+  })
+})
+
+describe('ConversationHistoryManager', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('预算内原样返回，不请求摘要', async () => {
+    const { provider, chatCompletion } = createSummaryProvider(async () => '摘要')
+    const history = createHistory(4)
+
+    const result = await new ConversationHistoryManager(provider).prepare(history, undefined, 'supportive_friend')
+
+    expect(result.messages).toEqual(history)
+    expect(result.summary).toBeUndefined()
+    expect(chatCompletion).not.toHaveBeenCalled()
+  })
+
+  it('超出预算时把较早的消息折叠进摘要，只保留一半预算内的最近消息', async () => {
+    const { provider, chatCompletion } = createSummaryProvider(async () => '用户想减 5 公斤')
+    const history = createHistory(12)
+
+    const result = await new ConversationHistoryManager(provider).prepare(history, undefined, 'supportive_friend')
+
+    expect(chatCompletion).toHaveBeenCalledOnce()
+    expect(result.summary).toEqual({ content: '用户想减 5 公斤', messageCount: 8 })
+    expect(result.messages[0]).toMatchObject({ role: 'system' })
+    expect(result.messages[0].content).toContain('用户想减 5 公斤')
+    expect(result.messages.slice(1)).toEqual(history.slice(8))
+  })
+
+  it('已有摘要覆盖的消息不再计入预算', async () => {
+    const { provider, chatCompletion } = createSummaryProvider(async () => '新摘要')
+    const history = createHistory(12)
+    const summary = { content: '旧摘要', messageCount: 8 }
+
+    const result = await new ConversationHistoryManager(provider).prepare(history, summary, 'supportive_friend')
+
+    expect(chatCompletion).not.toHaveBeenCalled()
+    expect(result.summary).toBe(summary)
+    expect(result.messages.slice(1)).toEqual(history.slice(8))
+  })
+
+  it('摘要失败时保留原摘要和最近消息', async () => {
+    const { provider } = createSummaryProvider(async () => { throw new Error('boom') })
+    const history = createHistory(12)
+    const summary = { content: '旧摘要', messageCount: 2 }
+
+    const result = await new ConversationHistoryManager(provider).prepare(history, summary, 'supportive_friend')
+
+    expect(result.summary).toBe(summary)
+    expect(result.messages[0].content).toContain('旧摘要')
+    expect(result.messages.slice(1)).toEqual(history.slice(8))
+  })
+
+  it('调用方取消时抛出错误，不退化处理', async () => {
+    const controller = new AbortController()
+    const { provider } = createSummaryProvider(async () => {
+      controller.abort()
+      throw new Error('aborted')
+    })
+
+    await expect(new ConversationHistoryManager(provider).prepare(createHistory(12), undefined, 'supportive_friend', controller.signal))
+      .rejects.toThrow('aborted')
+  })
+})
@@ -0,0 +1,180 @@
+/**
+ * 对话历史管理
+ * 按 token 预算保留最近的对话，更早的内容交给模型折叠成滚动摘要
+ */
+
+import type { ChatMessage, LLMProvider } from './llm'
+
+interface ConversationSummary {
+  content: string
+  /** 摘要已覆盖的历史消息条数（从头算起） */
+  messageCount: number
+}
+
+interface HistoryBudget {
+  /** 摘要和历史消息合计的 token 上限 */
+  maxTokens: number
+  /** 无论预算多紧都原样保留的最近消息条数 */
+  minRecentMessages: number
+  /** 摘要本身的 token 上限 */
+  summaryMaxTokens: number
+}
+
+const defaultBudget: HistoryBudget = {
+  maxTokens: 2000,
+  minRecentMessages: 4,
+  summaryMaxTokens: 300
+}
+
+const roleBudgets: Record<string, Partial<HistoryBudget>> = {
+  supportive_friend: { maxTokens: 2000 },
+  // 营养和训练计划需要更多上下文
+  nutritionist: { maxTokens: 3000, summaryMaxTokens: 400 },
+  fitness_trainer: { maxTokens: 3000, summaryMaxTokens: 400 }
+}
+
+/**
+ * 读取角色的历史预算，HISTORY_BUDGETS 环境变量（JSON）可按角色覆盖
+ * 例如 {"nutritionist":{"maxTokens":4000}}
+ */
+function getHistoryBudget(role: string): HistoryBudget {
+  let overrides: Record<string, Partial<HistoryBudget>> = {}
+
+  if (process.env.HISTORY_BUDGETS) {
+    try {
+      overrides = JSON.parse(process.env.HISTORY_BUDGETS)
+    } catch (error) {
+      console.error('HISTORY_BUDGETS 解析失败，使用默认预算:', error)
+    }
+  }
+
+  return { ...defaultBudget, ...roleBudgets[role], ...overrides[role] }
+}
+
+/**
+ * 粗略估算 token 数：中日韩字符约 1 字 1 token，其余约 4 个字符 1 token
+ */
+function estimateTokens(content: ChatMessage['content']): number {
+  const text = typeof content === 'string'
+    ? content
+    : content.map(part => part.text || '').join('')
+
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length || 0
+  return cjk + Math.ceil((text.length - cjk) / 4)
+}
+
+/** 每条消息的角色和分隔符开销 */
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+function estimateMessagesTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, message) => sum + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS, 0)
+}
+
+function summaryToMessage(summary: ConversationSummary): ChatMessage {
+  return { role: 'system', content: `以下是你和用户之前对话的摘要，请在回复时参考：\n${summary.content}` }
+}
+
+class ConversationHistoryManager {
+  private provider: LLMProvider
+
+  constructor(provider: LLMProvider) {
+    this.provider = provider
+  }
+
+  /**
+   * 按预算整理历史，必要时把较早的消息折叠进摘要
+   * 返回发送给模型的历史消息（含摘要）和更新后的摘要
+   */
+  async prepare(
+    history: ChatMessage[],
+    summary: ConversationSummary | undefined,
+    role: string,
+    signal?: AbortSignal
+  ): Promise<{ messages: ChatMessage[]; summary?: ConversationSummary }> {
+    const budget = getHistoryBudget(role)
+    const coveredCount = Math.min(summary?.messageCount || 0, history.length)
+    const pending = history.slice(coveredCount)
+    const summaryTokens = summary ? estimateTokens(summary.content) + MESSAGE_OVERHEAD_TOKENS : 0
+
+    if (summaryTokens + estimateMessagesTokens(pending) <= budget.maxTokens) {
+      return this.compose(summary, pending)
+    }
+
+    // 超出预算时一次折叠到只剩一半预算，避免之后每一轮都要重新摘要
+    const keepCount = this.countRecentWithin(pending, budget.maxTokens / 2, budget.minRecentMessages)
+    const toFold = pending.slice(0, pending.length - keepCount)
+    const recent = pending.slice(pending.length - keepCount)
+
+    try {
+      const content = await this.summarize(summary?.content, toFold, budget.summaryMaxTokens, signal)
+      return this.compose({ content, messageCount: coveredCount + toFold.length }, recent)
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error
+      }
+
+      // 摘要失败时退化为直接丢弃较早的消息，保留原摘要
+      console.error('对话摘要生成失败，仅保留最近消息:', error)
+      return { messages: [...(summary ? [summaryToMessage(summary)] : []), ...recent], summary }
+    }
+  }
+
+  private compose(summary: ConversationSummary | undefined, recent: ChatMessage[]) {
+    return {
+      messages: summary ? [summaryToMessage(summary), ...recent] : recent,
+      summary
+    }
+  }
+
+  /**
+   * 从末尾往前数，计算预算内可以保留多少条消息
+   */
+  private countRecentWithin(messages: ChatMessage[], maxTokens: number, minCount: number): number {
+    let tokens = 0
+    let count = 0
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      tokens += estimateTokens(messages[i].content) + MESSAGE_OVERHEAD_TOKENS
+      if (tokens > maxTokens && count >= minCount) break
+      count++
+    }
+
+    return Math.min(Math.max(count, minCount), messages.length)
+  }
+
+  private async summarize(previous: string | undefined, messages: ChatMessage[], maxTokens: number, signal?: AbortSignal): Promise<string> {
+    const transcript = messages
+      .map(message => `${message.role === 'user' ? '用户' : '助手'}：${typeof message.content === 'string' ? message.content : ''}`)
+      .join('\n')
+
+    const response = await this.provider.chatCompletion({
+      messages: [
+        {
+          role: 'system',
+          content: `你负责为减肥助手维护对话摘要。请把已有摘要和新的对话合并成一份更新后的摘要：
+- 保留用户的目标、身体状况、饮食和运动习惯、偏好和已经给出的重要建议
+- 省略寒暄和重复内容
+- 使用第三人称简洁陈述，不超过 ${maxTokens} 字
+- 只输出摘要正文`
+        },
+        {
+          role: 'user',
+          content: `已有摘要：\n${previous || '（无）'}\n\n新的对话：\n${transcript}`
+        }
+      ],
+      temperature: 0.3,
+      max_tokens: maxTokens * 2,
+      thinking: { type: 'disabled' }
+    }, { signal })
+
+    const content = response.choices?.[0]?.message.content
+    if (typeof content !== 'string' || !content.trim()) {
+      throw new Error('Empty summary response')
+    }
+
+    return content.trim()
+  }
+}
+
+export { ConversationHistoryManager, estimateMessagesTokens, estimateTokens, getHistoryBudget }
+export type { ConversationSummary, HistoryBudget }
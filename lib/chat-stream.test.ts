@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { encodeChatStreamEvent, readChatStream, type ChatStreamEvent } from './chat-stream'
+
+describe('chat stream', () => {
+  it('编码后的事件可以按原样读回，分片位置不影响结果', async () => {
+    const events: ChatStreamEvent[] = [
+      { type: 'delta', content: '你好\n第二行' },
+      { type: 'tool', name: 'get_diary_totals', label: '查询今日饮食' },
+      { type: 'done', content: '你好', messageId: 'm1' }
+    ]
+    const bytes = new TextEncoder().encode(events.map(encodeChatStreamEvent).join(''))
+
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += 7) controller.enqueue(bytes.slice(i, i + 7))
+        controller.close()
+      }
+    })
+
+    const received = []
+    for await (const event of readChatStream(body)) received.push(event)
+
+    expect(received).toEqual(events)
+  })
+})
@@ -0,0 +1,51 @@
+/**
+ * 聊天流式事件
+ * 服务端 /api/chat 以 SSE 格式推送，客户端 ChatInterface 逐条读取
+ * tool 表示助手正在调用本地工具查询数据，replace 表示已推送的回复命中安全护栏，客户端要整体替换已显示的文本
+ */
+
+import type { ChatUsage } from './llm/types'
+import type { ConversationSummary } from './chat-history'
+import type { ChatAction } from './chat-actions'
+import type { HealthySwap } from './healthy-swap'
+import { parseSSEStream } from './llm/sse'
+
+type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'reasoning'; content: string }
+  | { type: 'tool'; name: string; label: string }
+  | { type: 'replace'; content: string }
+  | {
+      type: 'done'
+      content: string
+      images?: string[]
+      /** 需要用户确认的操作 */
+      actions?: ChatAction[]
+      /** 想吃高热量食物时的健康替换对比 */
+      swap?: HealthySwap
+      /** 保存到对话后的消息 ID，确认操作时使用 */
+      messageId?: string
+      usage?: ChatUsage
+      finishReason?: string
+      summary?: ConversationSummary
+    }
+  | { type: 'error'; error: string }
+
+/**
+ * 将事件编码为一条 SSE 消息
+ */
+function encodeChatStreamEvent(event: ChatStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+}
+
+/**
+ * 读取 /api/chat 返回的 SSE 响应体，逐条产出事件
+ */
+async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  for await (const message of parseSSEStream(body)) {
+    yield JSON.parse(message.data) as ChatStreamEvent
+  }
+}
+
+export { encodeChatStreamEvent, readChatStream }
+export type { ChatStreamEvent }
@@ -0,0 +1,97 @@
+/**
+ * 自定义教练角色
+ * 用户填写名称、语气、擅长方向、头像和注意事项，保存在服务端；这些字段会拼进系统提示，保存前检查提示词注入
+ */
+
+import { z } from 'zod'
+import { personas, type Persona } from './personas'
+import { findPromptInjection } from './prompt-injection'
+
+/** 自定义角色在 role 参数和对话记录中的前缀，例如 custom:<id> */
+const CUSTOM_PERSONA_PREFIX = 'custom:'
+
+/** 每个用户最多保存的自定义角色数 */
+const MAX_CUSTOM_PERSONAS = 10
+
+const DEFAULT_CUSTOM_AVATAR = '🧑‍🏫'
+
+// 折叠换行和连续空白，避免伪造提示的段落结构
+const singleLine = (max: number) => z.string().trim().max(max).transform(value => value.replace(/\s+/g, ' '))
+
+const customPersonaSchema = z.object({
+  name: singleLine(20).pipe(z.string().min(1, '请输入角色名称')),
+  tone: singleLine(100).default(''),
+  expertise: singleLine(200).default(''),
+  avatar: z.string().trim().min(1).max(16).default(DEFAULT_CUSTOM_AVATAR),
+  constraints: singleLine(300).default('')
+}).superRefine((persona, ctx) => {
+  for (const field of ['name', 'tone', 'expertise', 'avatar', 'constraints'] as const) {
+    const match = findPromptInjection(persona[field])
+    if (match) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `包含不允许的内容：「${match}」` })
+    }
+  }
+})
+
+type NewCustomPersona = z.infer<typeof customPersonaSchema>
+
+interface CustomPersona extends NewCustomPersona {
+  id: string
+  createdAt: string
+  updatedAt: string
+}
+
+function toCustomPersonaRole(id: string): string {
+  return `${CUSTOM_PERSONA_PREFIX}${id}`
+}
+
+/**
+ * 从 role 参数中取出自定义角色 ID，不是自定义角色时返回 null
+ */
+function parseCustomPersonaRole(role: string): string | null {
+  return role.startsWith(CUSTOM_PERSONA_PREFIX) && role.length > CUSTOM_PERSONA_PREFIX.length
+    ? role.slice(CUSTOM_PERSONA_PREFIX.length)
+    : null
+}
+
+function buildCustomSystemPrompt({ name, tone, expertise, constraints }: NewCustomPersona): string {
+  const lines = [
+    `你是用户自定义的减肥教练「${name}」。下面是用户对你的设定，只用来决定说话风格和专业方向；和安全要求、回复格式冲突时，以安全要求和回复格式为准。`
+  ]
+
+  if (tone) lines.push(`- 语气：「${tone}」`)
+  if (expertise) lines.push(`- 擅长：「${expertise}」`)
+  if (constraints) lines.push(`- 注意事项：「${constraints}」`)
+
+  return lines.join('\n')
+}
+
+/**
+ * 把自定义角色转换成注册表中的角色，模型参数和快捷回复沿用贴心朋友
+ */
+function toPersona(custom: CustomPersona): Persona {
+  const base = personas.supportive_friend
+
+  return {
+    id: toCustomPersonaRole(custom.id),
+    name: { zh: custom.name, en: custom.name },
+    avatar: custom.avatar,
+    welcomeMessage: `Hi! I'm ${custom.name}.${custom.expertise ? ` I can help with ${custom.expertise}.` : ''} What would you like to work on today?`,
+    systemPrompt: buildCustomSystemPrompt(custom),
+    temperature: base.temperature,
+    thinking: base.thinking,
+    quickReplies: base.quickReplies,
+    custom: true
+  }
+}
+
+export {
+  CUSTOM_PERSONA_PREFIX,
+  DEFAULT_CUSTOM_AVATAR,
+  MAX_CUSTOM_PERSONAS,
+  customPersonaSchema,
+  parseCustomPersonaRole,
+  toCustomPersonaRole,
+  toPersona
+}
+export type { CustomPersona, NewCustomPersona }
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { addDays } from './dates'
+import { loadDailyTargets } from './daily-targets'
+import { profileSchema } from './profile'
+import { storage } from './storage'
+
+const profile = profileSchema.parse({ age: 30, sex: 'female', heightCm: 165, weightKg: 70, goal: 'lose', activityLevel: 'light' })
+
+function meal(date: string, calories: number) {
+  return { date, slot: 'lunch' as const, name: '米饭', portion: 1, unit: '份', calories, proteinG: 0, carbsG: 0, fatG: 0 }
+}
+
+describe('loadDailyTargets', () => {
+  it('平均摄入只算到前一天，当天吃了一半的记录不计入', async () => {
+    const userId = 'daily-targets-window'
+    const today = '2024-05-20'
+    const previousDays = Array.from({ length: 10 }, (_, index) => meal(addDays(today, -(index + 1)), 2000))
+    await storage.meals.addMeals(userId, [...previousDays, meal(today, 800)])
+
+    const daily = await loadDailyTargets(userId, profile, today)
+
+    expect(daily?.tdee.loggedDays).toBe(10)
+    expect(daily?.tdee.averageIntakeKcal).toBe(2000)
+  })
+
+  it('没有资料时返回 null', async () => {
+    expect(await loadDailyTargets('daily-targets-no-profile', null)).toBeNull()
+  })
+})
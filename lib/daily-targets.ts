@@ -0,0 +1,41 @@
+/**
+ * 服务端读取用户数据，计算自适应 TDEE 和每日营养目标
+ * Home、Meal 页面和营养师提示共用，保证各处看到的目标一致
+ */
+
+import { addDays, toDateKey } from './dates'
+import type { NutritionTotals } from './meals'
+import { calculateDailyTargets } from './nutrition-targets'
+import type { UserProfile } from './profile'
+import { storage } from './storage'
+import { TDEE_WINDOW_DAYS, estimateAdaptiveTdee, type TdeeEstimate } from './tdee'
+
+interface DailyTargets {
+  tdee: TdeeEstimate
+  targets: NutritionTotals
+}
+
+/**
+ * 计算 date 当天（默认今天）的目标，未填写资料时返回 null
+ * 窗口截止到前一天：当天还没吃完，算进去会拉低平均摄入
+ */
+async function loadDailyTargets(userId: string, profile: UserProfile | null, date = toDateKey()): Promise<DailyTargets | null> {
+  if (!profile) return null
+
+  const endDate = addDays(date, -1)
+
+  const [meals, weights] = await Promise.all([
+    storage.meals.listMeals(userId, addDays(endDate, -TDEE_WINDOW_DAYS), endDate),
+    storage.weights.listWeights(userId, undefined, endDate)
+  ])
+
+  const tdee = estimateAdaptiveTdee({ profile, meals, weights, endDate })
+
+  return {
+    tdee,
+    targets: calculateDailyTargets(profile, tdee.estimateKcal)
+  }
+}
+
+export { loadDailyTargets }
+export type { DailyTargets }
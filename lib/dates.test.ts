@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+// 2024-03-01 17:30 UTC，上海已是 3 月 2 日，纽约还是 3 月 1 日
+const instant = new Date('2024-03-01T17:30:00Z')
+
+async function loadDates(timeZone: string) {
+  vi.stubEnv('APP_TIME_ZONE', timeZone)
+  vi.resetModules()
+  return import('./dates')
+}
+
+describe('toDateKey', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('服务端按 APP_TIME_ZONE 计算日期', async () => {
+    expect((await loadDates('Asia/Shanghai')).toDateKey(instant)).toBe('2024-03-02')
+    expect((await loadDates('America/New_York')).toDateKey(instant)).toBe('2024-03-01')
+  })
+
+  it('时区无效时退回本地时区', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const local = new Date(2024, 2, 1, 12)
+    expect((await loadDates('Mars/Olympus')).toDateKey(local)).toBe('2024-03-01')
+    expect(warn).toHaveBeenCalledOnce()
+  })
+})
+
+describe('hourOfDay / startOfNextDay', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('按 APP_TIME_ZONE 取小时和下一个零点', async () => {
+    const shanghai = await loadDates('Asia/Shanghai')
+    expect(shanghai.hourOfDay(instant)).toBe(1)
+    expect(shanghai.startOfNextDay(instant).toISOString()).toBe('2024-03-02T16:00:00.000Z')
+
+    const newYork = await loadDates('America/New_York')
+    expect(newYork.hourOfDay(instant)).toBe(12)
+    expect(newYork.startOfNextDay(instant).toISOString()).toBe('2024-03-02T05:00:00.000Z')
+  })
+
+  it('夏令时结束当天的下一个零点', async () => {
+    // 纽约 2024-11-03 01:30（夏令时），当天 02:00 起改回标准时间
+    const { startOfNextDay } = await loadDates('America/New_York')
+    expect(startOfNextDay(new Date('2024-11-03T05:30:00Z')).toISOString()).toBe('2024-11-04T05:00:00.000Z')
+  })
+})
+
+describe('addDays / daysBetween', () => {
+  it('跨月和跨年计算', async () => {
+    const { addDays, daysBetween } = await import('./dates')
+    expect(addDays('2024-02-28', 2)).toBe('2024-03-01')
+    expect(addDays('2024-01-01', -1)).toBe('2023-12-31')
+    expect(daysBetween('2024-03-01', '2024-03-31')).toBe(30)
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * 日期工具
+ * 日志类数据统一以本地日期字符串 YYYY-MM-DD 作为键
+ * 浏览器使用本机时区，服务端使用 APP_TIME_ZONE
+ */
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let serverDateFormatter: Intl.DateTimeFormat | null | undefined
+
+interface DateParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+/**
+ * 服务端按 APP_TIME_ZONE 计算日期和时间，避免服务器时区和用户不一致时“今天”错位
+ * 未配置或时区无效时退回服务器本地时区
+ */
+function getServerDateFormatter(): Intl.DateTimeFormat | null {
+  if (serverDateFormatter !== undefined) return serverDateFormatter
+
+  const timeZone = typeof window === 'undefined' ? process.env.APP_TIME_ZONE?.trim() : undefined
+  serverDateFormatter = null
+  if (timeZone) {
+    try {
+      serverDateFormatter = new Intl.DateTimeFormat('en-CA', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        hourCycle: 'h23'
+      })
+    } catch {
+      console.warn(`APP_TIME_ZONE 无效，使用服务器本地时区: ${timeZone}`)
+    }
+  }
+  return serverDateFormatter
+}
+
+function toDateParts(date: Date): DateParts {
+  const formatter = getServerDateFormatter()
+  if (formatter) {
+    const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, Number(part.value)]))
+    return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second }
+  }
+
+  return {
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+    second: date.getSeconds()
+  }
+}
+
+function toDateKey(date: Date = new Date()): string {
+  const { year, month, day } = toDateParts(date)
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * 当前是几点（0-23），和 toDateKey 使用同一时区
+ */
+function hourOfDay(date: Date = new Date()): number {
+  return toDateParts(date).hour
+}
+
+/**
+ * 该时刻的时区偏移，墙上时间减去 UTC 时间
+ */
+function timeZoneOffsetMs(date: Date): number {
+  const { year, month, day, hour, minute, second } = toDateParts(date)
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * 下一个零点的时刻，和 toDateKey 使用同一时区
+ */
+function startOfNextDay(date: Date = new Date()): Date {
+  const midnight = parseDateKey(addDays(toDateKey(date), 1)).getTime()
+
+  // 先按现在的偏移换算，再按零点时的偏移修正一次，夏令时切换当天也能落在零点
+  const estimate = midnight - timeZoneOffsetMs(date)
+  return new Date(midnight - timeZoneOffsetMs(new Date(estimate)))
+}
+
+function isDateKey(value: unknown): value is string {
+  return typeof value === 'string' && DATE_KEY_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+}
+
+/**
+ * 按 UTC 解析，避免夏令时导致相邻日期相差不是整 24 小时
+ */
+function parseDateKey(key: string): Date {
+  return new Date(`${key}T00:00:00Z`)
+}
+
+function addDays(key: string, days: number): string {
+  return new Date(parseDateKey(key).getTime() + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / DAY_MS)
+}
+
+export { addDays, daysBetween, hourOfDay, isDateKey, parseDateKey, startOfNextDay, toDateKey }
@@ -3,115 +3,49 @@
  * 用于生成食物相关的图片
  */
 
-interface ImageGenerationRequest {
-  prompt: string
-  model?: string
-  image?: string[]
-  response_format?: 'url' | 'b64_json'
-  size?: '2K' | '1K' | '512'
-  stream?: boolean
-  watermark?: boolean
-  sequential_image_generation?: 'auto' | 'manual'
-  sequential_image_generation_options?: {
-    max_images?: number
-  }
-}
+import { getOrCreateImages } from './image-cache'
+import { llmProvider, type LLMProvider, type RequestOptions } from './llm'
 
-interface ImageGenerationResponse {
-  id: string
-  object: string
-  created: number
-  data: Array<{
-    url?: string
-    b64_json?: string
-    revised_prompt?: string
-    index: number
-  }>
-  model: string
-  usage?: {
-    prompt_tokens: number
-    completion_tokens: number
-    total_tokens: number
-  }
-}
+/**
+ * 食物图片风格
+ * menu 为诱人的菜单照，craving 和 swap 用于健康替换的并排对比：
+ * 两者构图一致，craving 如实呈现不加美化，swap 清爽明亮
+ */
+type FoodImageStyle = 'menu' | 'craving' | 'swap'
 
 class DoubaoImageClient {
-  private apiKey: string
-  private baseURL: string
-  private defaultModel: string
-
-  constructor() {
-    this.apiKey = process.env.DOUBAO_API_KEY || ''
-    this.baseURL = process.env.DOUBAO_API_BASE_URL || 'https://ark.cn-beijing.volces.com/api/v3'
-    this.defaultModel = 'doubao-seedream-4-0-250828'
+  private provider: LLMProvider
 
-    if (!this.apiKey) {
-      console.warn('豆包图片生成API key not configured. Please set DOUBAO_API_KEY in your environment variables.')
-    }
+  constructor(provider: LLMProvider) {
+    this.provider = provider
   }
 
   /**
-   * 生成食物图片
+   * 生成食物图片，返回本地文件地址；相同提示词直接复用已生成的图片
    */
-  async generateFoodImage(foodDescription: string): Promise<string[]> {
-    if (!this.apiKey) {
-      throw new Error('豆包图片生成API key not configured')
-    }
-
+  async generateFoodImage(foodDescription: string, options?: RequestOptions, style: FoodImageStyle = 'menu'): Promise<string[]> {
     try {
       // 构建专门用于食物图片生成的提示词
-      const foodPrompt = this.buildFoodPrompt(foodDescription)
-
-      const requestData: ImageGenerationRequest = {
-        model: this.defaultModel,
-        prompt: foodPrompt,
-        response_format: 'url',
-        size: '2K',
-        stream: false,
-        watermark: true,
-        sequential_image_generation: 'auto',
-        sequential_image_generation_options: {
-          max_images: 1 // 生成2张图片，展示不同角度
-        }
-      }
+      const foodPrompt = this.buildFoodPrompt(foodDescription, style)
 
       console.log('=== 豆包图片生成请求 ===')
       console.log('食物描述:', foodDescription)
+      console.log('图片风格:', style)
       console.log('生成提示词:', foodPrompt)
       console.log('========================')
 
-      const response = await fetch(`${this.baseURL}/images/generations`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify(requestData),
-      })
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error('豆包图片生成API错误响应:', {
-          status: response.status,
-          statusText: response.statusText,
-          errorText: errorText
-        })
-        throw new Error(`豆包图片生成API error: ${response.status} ${response.statusText} - ${errorText}`)
-      }
-
-      const data: ImageGenerationResponse = await response.json()
-
-      // 提取图片URL
-      const imageUrls: string[] = []
-      if (data.data && data.data.length > 0) {
-        data.data.forEach(item => {
-          if (item.url) {
-            imageUrls.push(item.url)
-          }
-        })
-      }
+      const { urls: imageUrls, cached } = await getOrCreateImages(
+        foodPrompt,
+        signal => this.provider.generateImage({
+          prompt: foodPrompt,
+          count: 1,
+          responseFormat: 'b64_json'
+        }, { ...options, signal }),
+        options?.signal
+      )
 
       console.log('=== 豆包图片生成结果 ===')
+      console.log('命中缓存:', cached)
       console.log('生成图片数量:', imageUrls.length)
       console.log('图片URLs:', imageUrls)
       console.log('========================')
@@ -133,7 +67,33 @@ class DoubaoImageClient {
   /**
    * 构建专门用于食物图片生成的提示词
    */
-  private buildFoodPrompt(foodDescription: string): string {
+  private buildFoodPrompt(foodDescription: string, style: FoodImageStyle = 'menu'): string {
+    if (style === 'craving') {
+      return `Generate a realistic, everyday photograph of: ${foodDescription}
+
+Requirements:
+- Show one typical serving exactly as it is usually bought or served, without glamorizing it
+- Neutral, even indoor lighting; no dramatic highlights, steam or glistening effects
+- Composition: single plate or container, 45-degree angle, centered, plain light-grey background
+- Natural, realistic colors and portion size
+- No text, watermarks (except the default API watermark), or signatures
+
+The image will be shown side by side with a healthier alternative, so keep it honest and matter-of-fact.`
+    }
+
+    if (style === 'swap') {
+      return `Generate a fresh, bright photograph of a healthy meal: ${foodDescription}
+
+Requirements:
+- Light, wholesome plating with visible fresh vegetables and lean ingredients
+- Soft natural daylight, clean and airy feel
+- Composition: single plate or container, 45-degree angle, centered, plain light-grey background
+- Natural, vibrant colors and a realistic portion size
+- No text, watermarks (except the default API watermark), or signatures
+
+The image will be shown side by side with a less healthy craving, so make this option look satisfying and easy to choose.`
+    }
+
     return `Generate a high-quality, appetizing food photograph of: ${foodDescription}
 
 Requirements:
@@ -216,17 +176,12 @@ The image should be suitable for a food blog or restaurant menu and make viewers
    * 获取API状态信息
    */
   getStatus() {
-    return {
-      configured: !!this.apiKey,
-      baseURL: this.baseURL,
-      model: this.defaultModel,
-      hasKey: this.apiKey.length > 0
-    }
+    return this.provider.getStatus()
   }
 }
 
 // 创建单例实例
-export const doubaoImageClient = new DoubaoImageClient()
+export const doubaoImageClient = new DoubaoImageClient(llmProvider)
 
-export type { ImageGenerationRequest, ImageGenerationResponse }
+export type { FoodImageStyle }
 export default DoubaoImageClient
\ No newline at end of file
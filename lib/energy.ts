@@ -0,0 +1,113 @@
+/**
+ * 运动能量消耗估算
+ * 按 ACSM 公式：千卡/分钟 = MET × 3.5 × 体重(kg) / 200，体重取自用户资料
+ */
+
+import { exercises, getExercise } from './exercises'
+import type { UserProfile } from './profile'
+import type { WorkoutExercise, WorkoutSession } from './workouts'
+
+/** 没有资料时使用的参考体重 */
+const DEFAULT_BODY_WEIGHT_KG = 65
+
+/** 力量训练没有计时时，每组按 2.5 分钟估算（含组间休息） */
+const MINUTES_PER_STRENGTH_SET = 2.5
+
+interface ExerciseBurn {
+  exerciseId: string
+  minutes: number
+  kcal: number
+}
+
+interface SessionBurn {
+  totalKcal: number
+  totalMinutes: number
+  exercises: ExerciseBurn[]
+}
+
+interface BodyWeight {
+  weightKg: number
+  source: 'profile' | 'default'
+}
+
+function resolveBodyWeight(profile: Pick<UserProfile, 'weightKg'> | null | undefined): BodyWeight {
+  return profile
+    ? { weightKg: profile.weightKg, source: 'profile' }
+    : { weightKg: DEFAULT_BODY_WEIGHT_KG, source: 'default' }
+}
+
+function caloriesBurned(met: number, weightKg: number, minutes: number): number {
+  return (met * 3.5 * weightKg / 200) * minutes
+}
+
+function timedMinutes(exercise: WorkoutExercise): number {
+  return exercise.sets.reduce((sum, set) => sum + (set.durationMin || 0), 0)
+}
+
+/**
+ * 估算一次训练的消耗
+ * 填写了总时长时，未逐组计时的动作按组数比例分摊剩余时间
+ */
+function estimateSessionBurn(session: Pick<WorkoutSession, 'exercises' | 'durationMin'>, weightKg: number): SessionBurn {
+  const totalTimed = session.exercises.reduce((sum, exercise) => sum + timedMinutes(exercise), 0)
+  const untimed = session.exercises.filter(exercise => timedMinutes(exercise) === 0)
+  const untimedSets = untimed.reduce((sum, exercise) => sum + exercise.sets.length, 0)
+  const remainingMinutes = session.durationMin ? session.durationMin - totalTimed : 0
+  const minutesPerSet = remainingMinutes > 0 && untimedSets > 0 ? remainingMinutes / untimedSets : MINUTES_PER_STRENGTH_SET
+
+  const breakdown = session.exercises.map(exercise => {
+    const minutes = untimed.includes(exercise) ? exercise.sets.length * minutesPerSet : timedMinutes(exercise)
+    const met = getExercise(exercise.exerciseId)?.met ?? 0
+
+    return {
+      exerciseId: exercise.exerciseId,
+      minutes: Math.round(minutes),
+      kcal: Math.round(caloriesBurned(met, weightKg, minutes))
+    }
+  })
+
+  return {
+    totalKcal: breakdown.reduce((sum, item) => sum + item.kcal, 0),
+    totalMinutes: breakdown.reduce((sum, item) => sum + item.minutes, 0),
+    exercises: breakdown
+  }
+}
+
+function estimateActivityBurn(exerciseId: string, minutes: number, weightKg: number): number | null {
+  const exercise = getExercise(exerciseId)
+  return exercise ? Math.round(caloriesBurned(exercise.met, weightKg, minutes)) : null
+}
+
+/** 提示词中列出的参考运动 */
+const REFERENCE_EXERCISE_IDS = ['brisk-walking', 'running', 'cycling', 'jump-rope', 'swimming', 'barbell-squat', 'yoga']
+
+/**
+ * 生成注入健身教练系统提示的消耗参考段落
+ */
+function formatBurnPrompt(bodyWeight: BodyWeight, recentSessions: WorkoutSession[] = []): string {
+  const { weightKg } = bodyWeight
+  const references = exercises
+    .filter(exercise => REFERENCE_EXERCISE_IDS.includes(exercise.id))
+    .map(exercise => `${exercise.nameZh} ${Math.round(caloriesBurned(exercise.met, weightKg, 30))}kcal`)
+    .join('、')
+
+  const lines = [
+    `能量消耗估算（按 MET × 3.5 × 体重 / 200 × 分钟计算，体重 ${weightKg}kg${bodyWeight.source === 'default' ? '，用户未填写资料，为参考值' : ''}）：`,
+    `- 30 分钟参考消耗：${references}`
+  ]
+
+  if (recentSessions.length > 0) {
+    const sessions = recentSessions.map(session => {
+      const burn = estimateSessionBurn(session, weightKg)
+      const names = session.exercises.map(exercise => getExercise(exercise.exerciseId)?.nameZh || exercise.exerciseId).join('、')
+      return `${session.date} ${names}，约 ${burn.totalMinutes} 分钟 ${burn.totalKcal}kcal`
+    })
+    lines.push(`- 最近训练：${sessions.join('；')}`)
+  }
+
+  lines.push('谈到运动消耗时请使用以上估算，不要夸大运动抵消饮食的效果。')
+  return lines.join('\n')
+}
+
+export { caloriesBurned, estimateActivityBurn, estimateSessionBurn, formatBurnPrompt, resolveBodyWeight }
+export type { BodyWeight, ExerciseBurn, SessionBurn }
@@ -0,0 +1,221 @@
+/**
+ * 动作库
+ * MET 值参考 2011 版《Compendium of Physical Activities》，力量训练按常见训练强度取值
+ */
+
+const muscleGroups = {
+  chest: '胸',
+  back: '背',
+  shoulders: '肩',
+  biceps: '肱二头',
+  triceps: '肱三头',
+  core: '核心',
+  glutes: '臀',
+  legs: '腿',
+  full_body: '全身'
+} as const
+
+const equipmentOptions = {
+  bodyweight: '自重',
+  barbell: '杠铃',
+  dumbbell: '哑铃',
+  kettlebell: '壶铃',
+  machine: '器械',
+  cardio_machine: '有氧器械',
+  none: '无'
+} as const
+
+/**
+ * 记录方式：决定每组需要填写哪些字段
+ * - weight_reps：重量 + 次数
+ * - reps：次数（自重）
+ * - duration：时长
+ * - cardio：时长 + 距离（可选）
+ */
+type ExerciseTracking = 'weight_reps' | 'reps' | 'duration' | 'cardio'
+
+type MuscleGroup = keyof typeof muscleGroups
+type Equipment = keyof typeof equipmentOptions
+
+interface Exercise {
+  id: string
+  nameZh: string
+  nameEn: string
+  tracking: ExerciseTracking
+  muscleGroups: MuscleGroup[]
+  equipment: Equipment
+  met: number
+  cues: string[]
+}
+
+const exercises: Exercise[] = [
+  // 力量
+  {
+    id: 'barbell-squat', nameZh: '杠铃深蹲', nameEn: 'Barbell squat', tracking: 'weight_reps',
+    muscleGroups: ['legs', 'glutes', 'core'], equipment: 'barbell', met: 5.0,
+    cues: ['双脚与肩同宽，脚尖略外展', '下蹲时膝盖与脚尖方向一致', '保持背部中立，核心收紧', '蹲至大腿与地面平行后发力站起']
+  },
+  {
+    id: 'deadlift', nameZh: '硬拉', nameEn: 'Deadlift', tracking: 'weight_reps',
+    muscleGroups: ['back', 'glutes', 'legs'], equipment: 'barbell', met: 6.0,
+    cues: ['杠铃贴近小腿，双脚位于杠铃正下方', '背部挺直，不要弓腰', '用臀腿发力把杠铃沿腿部拉起', '顶端髋部伸直即可，不要后仰']
+  },
+  {
+    id: 'bench-press', nameZh: '卧推', nameEn: 'Bench press', tracking: 'weight_reps',
+    muscleGroups: ['chest', 'triceps', 'shoulders'], equipment: 'barbell', met: 5.0,
+    cues: ['肩胛骨后缩下沉贴紧凳面', '握距略宽于肩', '杠铃下放至胸部中下方', '双脚踩实地面，推起时不要抬臀']
+  },
+  {
+    id: 'overhead-press', nameZh: '站姿推举', nameEn: 'Overhead press', tracking: 'weight_reps',
+    muscleGroups: ['shoulders', 'triceps', 'core'], equipment: 'barbell', met: 5.0,
+    cues: ['收紧臀部和核心，避免腰部过度后仰', '杠铃沿面部直线上推', '顶端头部略向前穿过手臂']
+  },
+  {
+    id: 'barbell-row', nameZh: '杠铃划船', nameEn: 'Barbell row', tracking: 'weight_reps',
+    muscleGroups: ['back', 'biceps'], equipment: 'barbell', met: 5.0,
+    cues: ['俯身约 45 度，背部保持平直', '以肘部带动把杠铃拉向腹部', '顶端夹紧肩胛骨，控制下放']
+  },
+  {
+    id: 'hip-thrust', nameZh: '臀推', nameEn: 'Hip thrust', tracking: 'weight_reps',
+    muscleGroups: ['glutes', 'legs'], equipment: 'barbell', met: 5.0,
+    cues: ['上背靠在凳沿，杠铃放在髋部', '下巴微收，顶端身体成一条直线', '用臀部发力，不要用腰代偿']
+  },
+  {
+    id: 'dumbbell-lunge', nameZh: '哑铃弓步蹲', nameEn: 'Dumbbell lunge', tracking: 'weight_reps',
+    muscleGroups: ['legs', 'glutes'], equipment: 'dumbbell', met: 4.0,
+    cues: ['步幅足够大，前后膝都约成 90 度', '上身保持直立', '前脚跟发力回到起始位置']
+  },
+  {
+    id: 'dumbbell-curl', nameZh: '哑铃弯举', nameEn: 'Dumbbell curl', tracking: 'weight_reps',
+    muscleGroups: ['biceps'], equipment: 'dumbbell', met: 3.5,
+    cues: ['大臂贴紧身体两侧', '不要借助身体摆动', '缓慢下放到手臂伸直']
+  },
+  {
+    id: 'lat-pulldown', nameZh: '高位下拉', nameEn: 'Lat pulldown', tracking: 'weight_reps',
+    muscleGroups: ['back', 'biceps'], equipment: 'machine', met: 3.5,
+    cues: ['挺胸，身体略微后倾', '把横杆拉到锁骨附近', '想象用肘部向下向后拉']
+  },
+  {
+    id: 'leg-press', nameZh: '腿举', nameEn: 'Leg press', tracking: 'weight_reps',
+    muscleGroups: ['legs', 'glutes'], equipment: 'machine', met: 3.5,
+    cues: ['腰背始终贴紧靠垫', '膝盖不要内扣', '推起时不要完全锁死膝关节']
+  },
+  {
+    id: 'kettlebell-swing', nameZh: '壶铃摆荡', nameEn: 'Kettlebell swing', tracking: 'weight_reps',
+    muscleGroups: ['glutes', 'back', 'core'], equipment: 'kettlebell', met: 9.8,
+    cues: ['髋部铰链发力，而不是下蹲', '用臀部爆发把壶铃送到胸口高度', '手臂只负责引导，不主动上抬']
+  },
+  {
+    id: 'push-up', nameZh: '俯卧撑', nameEn: 'Push-up', tracking: 'reps',
+    muscleGroups: ['chest', 'triceps', 'core'], equipment: 'bodyweight', met: 3.8,
+    cues: ['身体从头到脚保持一条直线', '手肘与身体约成 45 度', '做不了标准动作时可以跪姿或扶墙']
+  },
+  {
+    id: 'pull-up', nameZh: '引体向上', nameEn: 'Pull-up', tracking: 'reps',
+    muscleGroups: ['back', 'biceps'], equipment: 'bodyweight', met: 8.0,
+    cues: ['先下沉肩胛再屈臂', '下巴过杠，避免身体摆动', '可用弹力带辅助循序渐进']
+  },
+  {
+    id: 'crunch', nameZh: '卷腹', nameEn: 'Crunch', tracking: 'reps',
+    muscleGroups: ['core'], equipment: 'bodyweight', met: 3.8,
+    cues: ['下背贴地，只卷起上背', '双手轻扶耳侧，不要抱头拉颈', '呼气时卷起，吸气时还原']
+  },
+  {
+    id: 'plank', nameZh: '平板支撑', nameEn: 'Plank', tracking: 'duration',
+    muscleGroups: ['core', 'shoulders'], equipment: 'bodyweight', met: 3.8,
+    cues: ['肘部位于肩部正下方', '收紧腹部和臀部，不要塌腰或撅臀', '保持正常呼吸']
+  },
+
+  // 有氧
+  {
+    id: 'running', nameZh: '跑步', nameEn: 'Running (8 km/h)', tracking: 'cardio',
+    muscleGroups: ['legs', 'full_body'], equipment: 'none', met: 8.3,
+    cues: ['步频保持在每分钟 160-180 步', '前脚掌或全脚掌落地，落点靠近身体重心', '能边跑边说完整句子为中等强度']
+  },
+  {
+    id: 'brisk-walking', nameZh: '快走', nameEn: 'Brisk walking', tracking: 'cardio',
+    muscleGroups: ['legs'], equipment: 'none', met: 4.3,
+    cues: ['抬头挺胸，手臂自然摆动', '速度以微微出汗、略有气喘为宜']
+  },
+  {
+    id: 'cycling', nameZh: '骑行', nameEn: 'Cycling (moderate)', tracking: 'cardio',
+    muscleGroups: ['legs'], equipment: 'none', met: 6.8,
+    cues: ['座椅高度以踩到最低点时膝盖微屈为准', '保持均匀踏频']
+  },
+  {
+    id: 'stationary-bike', nameZh: '动感单车', nameEn: 'Stationary bike', tracking: 'cardio',
+    muscleGroups: ['legs'], equipment: 'cardio_machine', met: 6.8,
+    cues: ['调整座椅和把手高度', '阻力以能维持踏频为准，不要只靠惯性']
+  },
+  {
+    id: 'elliptical', nameZh: '椭圆机', nameEn: 'Elliptical', tracking: 'cardio',
+    muscleGroups: ['legs', 'full_body'], equipment: 'cardio_machine', met: 5.0,
+    cues: ['上身直立，不要趴在扶手上', '推拉扶手同时带动上肢']
+  },
+  {
+    id: 'rowing-machine', nameZh: '划船机', nameEn: 'Rowing machine', tracking: 'cardio',
+    muscleGroups: ['back', 'legs', 'full_body'], equipment: 'cardio_machine', met: 7.0,
+    cues: ['发力顺序：蹬腿、后仰、拉手', '还原顺序相反', '腿部贡献约六成力量']
+  },
+  {
+    id: 'swimming', nameZh: '游泳', nameEn: 'Swimming (freestyle)', tracking: 'cardio',
+    muscleGroups: ['full_body'], equipment: 'none', met: 5.8,
+    cues: ['身体保持水平流线型', '呼吸节奏稳定，不要憋气']
+  },
+  {
+    id: 'jump-rope', nameZh: '跳绳', nameEn: 'Jump rope', tracking: 'cardio',
+    muscleGroups: ['legs', 'full_body'], equipment: 'none', met: 11.8,
+    cues: ['用手腕摇绳，大臂贴近身体', '前脚掌轻落地，膝盖微屈缓冲', '体重较大时注意膝踝负担']
+  },
+  {
+    id: 'hiit', nameZh: '高强度间歇训练', nameEn: 'HIIT', tracking: 'cardio',
+    muscleGroups: ['full_body'], equipment: 'bodyweight', met: 8.0,
+    cues: ['做好充分热身', '冲刺阶段全力，休息阶段充分恢复', '新手每周不超过 2-3 次']
+  },
+  {
+    id: 'stair-climbing', nameZh: '爬楼梯', nameEn: 'Stair climbing', tracking: 'cardio',
+    muscleGroups: ['legs', 'glutes'], equipment: 'none', met: 8.8,
+    cues: ['整个脚掌踩实台阶', '上身略微前倾，膝盖不要内扣']
+  },
+  {
+    id: 'badminton', nameZh: '羽毛球', nameEn: 'Badminton', tracking: 'cardio',
+    muscleGroups: ['full_body'], equipment: 'none', met: 5.5,
+    cues: ['运动前活动好肩、膝和踝关节', '注意步法，减少急停扭转受伤']
+  },
+  {
+    id: 'basketball', nameZh: '篮球', nameEn: 'Basketball', tracking: 'cardio',
+    muscleGroups: ['full_body'], equipment: 'none', met: 6.5,
+    cues: ['佩戴护踝，落地时屈膝缓冲', '对抗中注意保护自己']
+  },
+
+  // 柔韧与身心
+  {
+    id: 'yoga', nameZh: '瑜伽', nameEn: 'Hatha yoga', tracking: 'duration',
+    muscleGroups: ['full_body', 'core'], equipment: 'none', met: 2.5,
+    cues: ['配合呼吸完成动作', '拉伸到有感觉即可，不要强求幅度']
+  },
+  {
+    id: 'pilates', nameZh: '普拉提', nameEn: 'Pilates', tracking: 'duration',
+    muscleGroups: ['core'], equipment: 'none', met: 3.0,
+    cues: ['动作过程中保持核心收紧', '质量优先于次数']
+  },
+  {
+    id: 'stretching', nameZh: '拉伸', nameEn: 'Stretching', tracking: 'duration',
+    muscleGroups: ['full_body'], equipment: 'none', met: 2.3,
+    cues: ['每个部位保持 20-30 秒', '不要弹震式拉伸']
+  },
+  {
+    id: 'tai-chi', nameZh: '太极拳', nameEn: 'Tai chi', tracking: 'duration',
+    muscleGroups: ['full_body'], equipment: 'none', met: 3.0,
+    cues: ['动作缓慢连贯，呼吸自然', '膝盖不要超过脚尖过多']
+  }
+]
+
+const exercisesById = new Map(exercises.map(exercise => [exercise.id, exercise]))
+
+function getExercise(id: string): Exercise | null {
+  return exercisesById.get(id) || null
+}
+
+export { equipmentOptions, exercises, getExercise, muscleGroups }
+export type { Equipment, Exercise, ExerciseTracking, MuscleGroup }
@@ -0,0 +1,126 @@
+/**
+ * 本地文件存储
+ * 用户上传的照片和生成的食物图片按内容哈希命名保存在 FILE_STORAGE_DIR（默认 data/files），
+ * 通过 /api/files/[name] 读取，相同内容只保存一份
+ */
+
+import { createHash } from 'crypto'
+import { mkdir, readFile, stat, writeFile } from 'fs/promises'
+import { join } from 'path'
+
+const fileTypes = {
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+} as const
+
+type FileExtension = keyof typeof fileTypes
+
+const FILE_NAME_PATTERN = /^[a-f0-9]{64}\.(jpg|png|webp)$/
+const FILE_URL_PREFIX = '/api/files/'
+
+function getFileDir(): string {
+  return process.env.FILE_STORAGE_DIR || 'data/files'
+}
+
+function isStoredFileName(name: string): boolean {
+  return FILE_NAME_PATTERN.test(name)
+}
+
+/**
+ * 从 /api/files/xxx 地址中取出文件名，不是本地文件地址时返回 null
+ */
+function fileNameFromUrl(url: string): string | null {
+  if (!url.startsWith(FILE_URL_PREFIX)) return null
+  const name = url.slice(FILE_URL_PREFIX.length)
+  return isStoredFileName(name) ? name : null
+}
+
+/**
+ * 按文件头判断图片格式，不支持的格式返回 null
+ */
+function detectImageExtension(data: Buffer): FileExtension | null {
+  if (data[0] === 0xff && data[1] === 0xd8) return 'jpg'
+  if (data.subarray(0, 4).toString('hex') === '89504e47') return 'png'
+  if (data.subarray(0, 4).toString('ascii') === 'RIFF' && data.subarray(8, 12).toString('ascii') === 'WEBP') return 'webp'
+  return null
+}
+
+/**
+ * 保存文件并返回文件名和访问地址，已存在相同内容时直接复用
+ */
+async function saveFile(data: Buffer, extension: FileExtension): Promise<{ name: string; url: string }> {
+  const name = `${createHash('sha256').update(data).digest('hex')}.${extension}`
+
+  if (!(await storedFileExists(name))) {
+    await mkdir(getFileDir(), { recursive: true })
+    await writeFile(join(getFileDir(), name), data)
+  }
+
+  return { name, url: `${FILE_URL_PREFIX}${name}` }
+}
+
+async function storedFileExists(name: string): Promise<boolean> {
+  if (!isStoredFileName(name)) return false
+  return stat(join(getFileDir(), name)).then(() => true, () => false)
+}
+
+/**
+ * 读取已保存的文件，文件名不合法或不存在时返回 null
+ */
+async function readStoredFile(name: string): Promise<{ data: Buffer; contentType: string } | null> {
+  if (!isStoredFileName(name)) return null
+
+  try {
+    const data = await readFile(join(getFileDir(), name))
+    const extension = name.slice(name.lastIndexOf('.') + 1) as FileExtension
+    return { data, contentType: fileTypes[extension] }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 保存文件的附加信息（如照片识别结果），存为同名 .json，不能通过 /api/files 读取
+ */
+async function saveFileMetadata(name: string, metadata: unknown): Promise<void> {
+  if (!isStoredFileName(name)) throw new Error(`Invalid stored file name: ${name}`)
+
+  await mkdir(getFileDir(), { recursive: true })
+  await writeFile(join(getFileDir(), `${name}.json`), JSON.stringify(metadata))
+}
+
+/**
+ * 读取文件的附加信息，不存在或无法解析时返回 null
+ */
+async function readFileMetadata(name: string): Promise<unknown> {
+  if (!isStoredFileName(name)) return null
+
+  try {
+    return JSON.parse(await readFile(join(getFileDir(), `${name}.json`), 'utf8'))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * 把本地文件地址转换为 data URL，供需要直接读取图片内容的模型调用使用
+ */
+async function fileUrlToDataUrl(url: string): Promise<string | null> {
+  const name = fileNameFromUrl(url)
+  const file = name ? await readStoredFile(name) : null
+  return file ? `data:${file.contentType};base64,${file.data.toString('base64')}` : null
+}
+
+export {
+  detectImageExtension,
+  fileNameFromUrl,
+  fileUrlToDataUrl,
+  isStoredFileName,
+  readFileMetadata,
+  readStoredFile,
+  saveFile,
+  saveFileMetadata,
+  storedFileExists
+}
+export type { FileExtension }
@@ -0,0 +1,210 @@
+/**
+ * 食物实体识别
+ * 用模型从用户消息中提取提到的食物（名称、份量、做法、已吃还是想吃）和置信度，
+ * 用于决定是否生成食物图片以及预填饮食记录；模型不可用时退回关键词匹配
+ */
+
+import { z } from 'zod'
+import { doubaoImageClient } from './doubao-image'
+import type { LLMProvider, RequestOptions } from './llm'
+import type { MealSlot, NewMealEntry } from './meals'
+import { calculateNutrition, searchFoods } from './nutrition'
+
+/** 识别请求的超时时间，和主回复并行，超时就退回关键词 */
+const EXTRACTION_TIMEOUT_MS = 10000
+
+/** 置信度达到这个值才生成图片或预填记录 */
+const MIN_MENTION_CONFIDENCE = 0.6
+
+/** 搜索得分达到这个值才用成分表数据预填记录 */
+const FOOD_MATCH_MIN_SCORE = 60
+
+const GRAM_UNITS = ['g', '克', 'gram', 'grams', 'ml', '毫升']
+
+const foodIntents = ['eaten', 'craving', 'other'] as const
+
+type FoodIntent = typeof foodIntents[number]
+
+const extractionResultSchema = z.object({
+  mentions: z.array(z.object({
+    name: z.string().trim().min(1).max(50),
+    quantity: z.coerce.number().positive().max(10000).nullish(),
+    unit: z.string().trim().max(10).nullish(),
+    cookingMethod: z.string().trim().max(20).nullish(),
+    intent: z.enum(foodIntents).catch('other'),
+    confidence: z.coerce.number().min(0).max(1).catch(0.5)
+  })).max(10)
+})
+
+interface FoodMention {
+  name: string
+  quantity?: number
+  unit?: string
+  /** 例如「红烧」「清蒸」 */
+  cookingMethod?: string
+  /** eaten 已经吃了，craving 想吃，other 只是提到 */
+  intent: FoodIntent
+  /** 0-1，模型对这条识别的把握 */
+  confidence: number
+}
+
+interface FoodExtraction {
+  mentions: FoodMention[]
+  /** llm 为模型识别，keywords 为关键词兜底 */
+  source: 'llm' | 'keywords'
+}
+
+const EXTRACTION_PROMPT = `从用户消息中找出真正指代食物或饮品的词，只输出一个 JSON 对象：
+{"mentions": [{"name": "红烧肉", "quantity": 1, "unit": "碗", "cookingMethod": "红烧", "intent": "eaten", "confidence": 0.9}]}
+- name 为食物名称，不含份量和做法以外的修饰
+- quantity、unit 为用户说的份量，没说时为 null；cookingMethod 没说时为 null
+- intent：已经吃了或正在吃为 eaten，想吃、馋、打算吃为 craving，其余为 other
+- 「吃不消」「吃亏」「吃力」等不是食物；「菜」「茶」「dish」只有确实指食物时才算
+- confidence 为 0-1，拿不准时调低
+- 没有提到食物时 mentions 为空数组`
+
+/**
+ * 关键词兜底：沿用原来的关键词和正则，意图按「想吃」「吃了」粗略判断
+ */
+function extractWithKeywords(text: string): FoodExtraction {
+  if (!doubaoImageClient.detectFoodKeywords(text)) {
+    return { mentions: [], source: 'keywords' }
+  }
+
+  const name = doubaoImageClient.extractFoodDescription(text)
+  if (!name) {
+    return { mentions: [], source: 'keywords' }
+  }
+
+  const intent: FoodIntent = /想吃|馋|好想|want|crav/i.test(text)
+    ? 'craving'
+    : /吃了|喝了|\bate\b|\bhad\b/i.test(text) ? 'eaten' : 'other'
+
+  return {
+    mentions: [{ name: name.slice(0, 50), intent, confidence: MIN_MENTION_CONFIDENCE }],
+    source: 'keywords'
+  }
+}
+
+/**
+ * 提取消息中的食物
+ * 关键词完全没命中时直接返回空结果，不调用模型；模型未配置、熔断或返回格式不对时退回关键词
+ */
+async function extractFoodMentions(provider: LLMProvider, text: string, options: RequestOptions = {}): Promise<FoodExtraction> {
+  const fallback = extractWithKeywords(text)
+  const status = provider.getStatus()
+
+  if (fallback.mentions.length === 0 || !status.configured || status.circuit === 'open') {
+    return fallback
+  }
+
+  try {
+    const response = await provider.chatCompletion({
+      messages: [
+        { role: 'system', content: EXTRACTION_PROMPT },
+        { role: 'user', content: text }
+      ],
+      temperature: 0,
+      max_tokens: 400,
+      thinking: { type: 'disabled' },
+      response_format: { type: 'json_object' }
+    }, { signal: options.signal, timeoutMs: options.timeoutMs ?? EXTRACTION_TIMEOUT_MS })
+
+    const content = response.choices?.[0]?.message.content
+    const raw = typeof content === 'string' ? content.trim().replace(/^```(?:json)?\s*|\s*```$/g, '') : ''
+    const parsed = extractionResultSchema.parse(JSON.parse(raw))
+
+    return {
+      mentions: parsed.mentions.map(mention => ({
+        name: mention.name,
+        quantity: mention.quantity ?? undefined,
+        unit: mention.unit || undefined,
+        cookingMethod: mention.cookingMethod || undefined,
+        intent: mention.intent,
+        confidence: mention.confidence
+      })),
+      source: 'llm'
+    }
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw error
+    }
+
+    console.warn('食物识别失败，使用关键词匹配:', error instanceof Error ? error.message : error)
+    return fallback
+  }
+}
+
+/**
+ * 值得配图的食物：置信度足够且不是想吃的（想吃的走健康替换），模型识别时还要求确实吃了
+ */
+function imageWorthyMentions(extraction: FoodExtraction): FoodMention[] {
+  return extraction.mentions.filter(mention =>
+    mention.confidence >= MIN_MENTION_CONFIDENCE &&
+    mention.intent !== 'craving' &&
+    (extraction.source === 'keywords' || mention.intent === 'eaten')
+  )
+}
+
+/**
+ * 用户想吃的食物，置信度高的在前
+ */
+function cravingMentions(extraction: FoodExtraction): FoodMention[] {
+  return extraction.mentions
+    .filter(mention => mention.intent === 'craving' && mention.confidence >= MIN_MENTION_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence)
+}
+
+/**
+ * 生成图片用的食物描述，例如「红烧肉、清炒西兰花」
+ */
+function describeFoodMentions(mentions: FoodMention[]): string {
+  return mentions
+    .slice(0, 3)
+    .map(mention => mention.cookingMethod && !mention.name.includes(mention.cookingMethod)
+      ? `${mention.cookingMethod}${mention.name}`
+      : mention.name)
+    .join('、')
+}
+
+/**
+ * 把已吃的食物换算成饮食记录，成分表里找不到或份量无法换算时返回 null
+ * 份量单位是克/毫升时直接使用，是「碗」「个」等时按成分表里的常见份量换算，没说份量时按第一种常见份量
+ */
+function mentionToMealEntry(mention: FoodMention, date: string, slot: MealSlot): NewMealEntry | null {
+  if (mention.intent !== 'eaten' || mention.confidence < MIN_MENTION_CONFIDENCE) {
+    return null
+  }
+
+  const [match] = searchFoods(mention.name, { limit: 1 })
+  if (!match || match.score < FOOD_MATCH_MIN_SCORE) {
+    return null
+  }
+
+  const { food } = match
+  const unit = mention.unit?.toLowerCase()
+  let grams: number | undefined
+
+  if (unit && GRAM_UNITS.includes(unit)) {
+    grams = mention.quantity
+  } else {
+    const serving = (unit && food.servings.find(item => item.label.includes(unit))) || food.servings[0]
+    grams = serving ? serving.grams * (mention.quantity || 1) : undefined
+  }
+
+  if (!grams || grams > 5000) {
+    return null
+  }
+
+  return {
+    date,
+    slot,
+    name: mention.name,
+    portion: Math.round(grams),
+    unit: 'g',
+    ...calculateNutrition(food, grams)
+  }
+}
+
+export { MIN_MENTION_CONFIDENCE, cravingMentions, describeFoodMentions, extractFoodMentions, imageWorthyMentions, mentionToMealEntry }
+export type { FoodExtraction, FoodIntent, FoodMention }
@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import WeightLossAssistant from './assistant'
+import MockProvider from './llm/mock'
+import { formatHandoffPrompt, handoffSchema } from './handoff'
+
+const handoffAction = { type: 'handoff', to: 'nutritionist', summary: '用户想知道每天该吃多少蛋白质', perform: true }
+
+function createAssistant(actions: unknown[]) {
+  const provider = new MockProvider([{ match: '蛋白质', reply: '这个问题营养师更专业，我帮你转过去。', actions }])
+  return new WeightLossAssistant(provider)
+}
+
+describe('handoffSchema', () => {
+  it('校验目标角色和摘要', () => {
+    expect(handoffSchema.safeParse({ from: 'friend', to: 'fitness_trainer', summary: '想练腿' }).success).toBe(true)
+    expect(handoffSchema.safeParse({ from: 'friend', to: 'friend', summary: '想练腿' }).success).toBe(false)
+    expect(handoffSchema.safeParse({ from: 'friend', to: 'nutritionist', summary: 'x'.repeat(301) }).success).toBe(false)
+  })
+})
+
+describe('formatHandoffPrompt', () => {
+  it('带上原角色和情况摘要', () => {
+    const prompt = formatHandoffPrompt({ from: 'friend', fromName: '知心朋友', to: 'nutritionist', summary: '想算蛋白质' })
+    expect(prompt).toContain('「知心朋友」')
+    expect(prompt).toContain('想算蛋白质')
+  })
+})
+
+describe('助手回复中的转接', () => {
+  // 模拟服务商不返回食物识别结果，助手会退回关键词匹配并打印警告
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('保留转给其他角色的建议', async () => {
+    const result = await createAssistant([handoffAction]).weightLossChat('每天要吃多少蛋白质', { role: 'friend', generateImages: false })
+    expect(result.actions).toEqual([handoffAction])
+  })
+
+  it('去掉转给自己的建议', async () => {
+    const result = await createAssistant([handoffAction]).weightLossChat('每天要吃多少蛋白质', { role: 'nutritionist', generateImages: false })
+    expect(result.actions).toBeUndefined()
+  })
+
+  it('刚转接过来的这一轮不再转走', async () => {
+    const result = await createAssistant([{ ...handoffAction, to: 'fitness_trainer' }]).weightLossChat('每天要吃多少蛋白质', {
+      role: 'nutritionist',
+      handoff: { from: 'friend', fromName: '知心朋友', to: 'nutritionist', summary: '想算蛋白质' },
+      generateImages: false
+    })
+    expect(result.actions).toBeUndefined()
+  })
+})
@@ -0,0 +1,35 @@
+/**
+ * 教练转接
+ * 当前角色遇到更适合营养师或健身教练的问题时，通过 handoff 操作把用户连同情况摘要转过去，
+ * 新角色收到摘要后直接接着回答，聊天里显示为一条转接事件
+ */
+
+import { z } from 'zod'
+
+/** 可以转接到的角色 */
+const handoffTargets = ['nutritionist', 'fitness_trainer'] as const
+
+type HandoffTarget = typeof handoffTargets[number]
+
+const handoffSchema = z.object({
+  /** 原角色，可以是自定义角色 */
+  from: z.string().min(1).max(100),
+  to: z.enum(handoffTargets),
+  summary: z.string().trim().min(1).max(300)
+})
+
+interface Handoff extends z.infer<typeof handoffSchema> {
+  /** 原角色的名称，服务端解析后保存，原角色删除后仍能显示 */
+  fromName: string
+}
+
+/**
+ * 生成注入新角色系统提示的转接说明
+ */
+function formatHandoffPrompt({ fromName, summary }: Handoff): string {
+  return `转接说明：用户刚从「${fromName}」转到你这里，之前的情况：${summary}
+直接接着回答用户的问题，不要让用户重复，也不用再做自我介绍。`
+}
+
+export { formatHandoffPrompt, handoffSchema, handoffTargets }
+export type { Handoff, HandoffTarget }
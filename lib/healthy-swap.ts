@@ -0,0 +1,162 @@
+/**
+ * 馋嘴时的健康替换
+ * 用户想吃高热量食物时，由营养师给出一个低热量的替代和热量对比，前端把两者的图片并排展示；
+ * 模型不可用时按内置替换表给出建议
+ */
+
+import { z } from 'zod'
+import type { LLMProvider, RequestOptions } from './llm'
+import { describeFoodMentions, type FoodMention } from './food-extraction'
+import { calculateNutrition, getFood, searchFoods } from './nutrition'
+
+/** 替换建议请求的超时时间 */
+const SWAP_TIMEOUT_MS = 15000
+
+/** 替代品至少要比原来少这么多热量才值得推荐 */
+const MIN_SAVED_CALORIES = 50
+
+/** 搜索得分达到这个值才用成分表数据覆盖模型估算 */
+const FOOD_MATCH_MIN_SCORE = 60
+
+/** 模型不可用时的替换表：想吃的食物 ID → 替代食物 ID 和做法 */
+const fallbackSwaps: Record<string, { foodId: string; name: string }> = {
+  'fried-chicken': { foodId: 'chicken-breast', name: '烤鸡胸肉' },
+  'fries': { foodId: 'sweet-potato', name: '烤红薯' },
+  'chips': { foodId: 'almonds', name: '原味杏仁' },
+  'hamburger': { foodId: 'sandwich', name: '全麦鸡胸三明治' },
+  'pizza': { foodId: 'salad', name: '鸡胸蔬菜沙拉' },
+  'chocolate': { foodId: 'greek-yogurt', name: '希腊酸奶' },
+  'milk-tea': { foodId: 'soy-milk', name: '无糖豆浆' },
+  'hongshaorou': { foodId: 'steamed-fish', name: '清蒸鱼' },
+  'twice-cooked-pork': { foodId: 'pepper-pork', name: '青椒肉丝' },
+  'peking-duck': { foodId: 'white-cut-chicken', name: '白切鸡' },
+  'sweet-sour-pork': { foodId: 'white-cut-chicken', name: '白切鸡' }
+}
+
+const swapItemSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  portion: z.string().trim().min(1).max(30),
+  calories: z.coerce.number().min(0).max(5000)
+})
+
+const swapResultSchema = z.object({
+  craving: swapItemSchema,
+  swap: swapItemSchema,
+  tip: z.string().trim().max(200).default('')
+})
+
+interface SwapItem {
+  name: string
+  /** 例如「一份约200g」 */
+  portion: string
+  calories: number
+  /** 并排展示的图片，生成失败时为空 */
+  imageUrl?: string
+}
+
+interface HealthySwap {
+  craving: SwapItem
+  swap: SwapItem
+  /** 营养师的一句话建议 */
+  tip: string
+}
+
+const SWAP_PROMPT = `你是一名专业的营养师。用户正想吃某样高热量食物，请推荐一个口感或满足感相近、热量明显更低的替代品。
+只输出一个 JSON 对象：
+{"craving": {"name": "炸鸡", "portion": "两块约200g", "calories": 520}, "swap": {"name": "空气炸锅烤鸡胸", "portion": "一块约150g", "calories": 250}, "tip": "一句话说明为什么这样换、怎么做更好吃"}
+- portion 为常见的一份，calories 按该份量估算
+- 替代品要容易买到或做到，不要推荐只喝水、不吃之类的做法
+- 语气温和，不评判用户`
+
+function cravingDescription(mention: FoodMention): string {
+  const name = describeFoodMentions([mention])
+  return mention.quantity ? `${name}（${mention.quantity}${mention.unit || ''}）` : name
+}
+
+/**
+ * 能在成分表里找到、份量写明了克数的食物按成分表重算热量，避免模型估算偏差过大
+ */
+function withTableCalories(item: SwapItem): SwapItem {
+  const [match] = searchFoods(item.name, { limit: 1 })
+  const grams = Number(item.portion.match(/(\d+(?:\.\d+)?)\s*(?:g|克|ml|毫升)/i)?.[1])
+
+  if (!match || match.score < FOOD_MATCH_MIN_SCORE || !grams) {
+    return item
+  }
+
+  return { ...item, calories: calculateNutrition(match.food, grams).calories }
+}
+
+/**
+ * 按内置替换表给出建议，想吃的食物不在表中时返回 null
+ */
+function fallbackSwap(mention: FoodMention): HealthySwap | null {
+  const [match] = searchFoods(mention.name, { limit: 1 })
+  const rule = match && match.score >= FOOD_MATCH_MIN_SCORE ? fallbackSwaps[match.food.id] : undefined
+  const swapFood = rule ? getFood(rule.foodId) : null
+
+  if (!match || !rule || !swapFood) {
+    return null
+  }
+
+  const [cravingServing] = match.food.servings
+  const [swapServing] = swapFood.servings
+  const craving = calculateNutrition(match.food, cravingServing.grams).calories
+  const swap = calculateNutrition(swapFood, swapServing.grams).calories
+
+  return {
+    craving: { name: mention.name, portion: `${cravingServing.label}约${cravingServing.grams}g`, calories: craving },
+    swap: { name: rule.name, portion: `${swapServing.label}约${swapServing.grams}g`, calories: swap },
+    tip: `换成${rule.name}，同样能解馋，少摄入约 ${craving - swap} kcal。`
+  }
+}
+
+/**
+ * 为想吃的食物推荐低热量替代，替代品热量不够低或无法给出建议时返回 null
+ */
+async function suggestHealthySwap(provider: LLMProvider, mention: FoodMention, options: RequestOptions = {}): Promise<HealthySwap | null> {
+  const status = provider.getStatus()
+  let result: HealthySwap | null = null
+
+  if (status.configured && status.circuit !== 'open') {
+    try {
+      const response = await provider.chatCompletion({
+        messages: [
+          { role: 'system', content: SWAP_PROMPT },
+          { role: 'user', content: `我好想吃${cravingDescription(mention)}` }
+        ],
+        temperature: 0.5,
+        max_tokens: 400,
+        thinking: { type: 'disabled' },
+        response_format: { type: 'json_object' }
+      }, { signal: options.signal, timeoutMs: options.timeoutMs ?? SWAP_TIMEOUT_MS })
+
+      const content = response.choices?.[0]?.message.content
+      const raw = typeof content === 'string' ? content.trim().replace(/^```(?:json)?\s*|\s*```$/g, '') : ''
+      const parsed = swapResultSchema.parse(JSON.parse(raw))
+
+      result = {
+        craving: withTableCalories(parsed.craving),
+        swap: withTableCalories(parsed.swap),
+        tip: parsed.tip
+      }
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error
+      }
+
+      console.warn('替换建议生成失败，使用内置替换表:', error instanceof Error ? error.message : error)
+    }
+  }
+
+  result = result || fallbackSwap(mention)
+
+  if (!result || result.craving.calories - result.swap.calories < MIN_SAVED_CALORIES) {
+    return null
+  }
+
+  return result
+}
+
+export { suggestHealthySwap }
+export type { HealthySwap, SwapItem }
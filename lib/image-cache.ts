@@ -0,0 +1,174 @@
+/**
+ * 生成图片本地缓存
+ * 模型返回的图片（data URL 或会过期的远程地址）转存为本地文件，并按归一化后的提示词去重，
+ * 同一道菜只生成、计费一次
+ */
+
+import { createHash } from 'crypto'
+import { detectImageExtension, fileNameFromUrl, saveFile, storedFileExists } from './file-store'
+import { storage } from './storage'
+
+/** 下载远程图片的超时时间 */
+const DOWNLOAD_TIMEOUT_MS = 30000
+
+/**
+ * 同一提示词正在进行的生成任务
+ * 任务有自己的 AbortController，所有等待者都放弃后才中止
+ */
+interface PendingTask {
+  promise: Promise<string[]>
+  controller: AbortController
+  waiters: number
+}
+
+// 同一提示词正在生成时复用同一个请求
+const pending = new Map<string, PendingTask>()
+
+/**
+ * 归一化提示词：忽略大小写、空白和标点差异
+ */
+function normalizePrompt(prompt: string): string {
+  return prompt
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function promptKey(prompt: string): string {
+  return createHash('sha256').update(normalizePrompt(prompt)).digest('hex')
+}
+
+/**
+ * 读取图片内容：data URL 直接解码，http(s) 地址下载
+ */
+async function loadImageData(source: string, signal?: AbortSignal): Promise<Buffer> {
+  const dataUrl = source.match(/^data:image\/[\w.+-]+;base64,(.+)$/)
+  if (dataUrl) {
+    return Buffer.from(dataUrl[1], 'base64')
+  }
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT_MS)
+  const onAbort = () => controller.abort()
+  signal?.addEventListener('abort', onAbort)
+
+  try {
+    const response = await fetch(source, { signal: controller.signal })
+    if (!response.ok) {
+      throw new Error(`Image download failed with status ${response.status}`)
+    }
+    return Buffer.from(await response.arrayBuffer())
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+/**
+ * 把一张图片保存为本地文件并返回 /api/files 地址；站内路径（如占位图）原样返回
+ */
+async function storeImage(source: string, signal?: AbortSignal): Promise<string> {
+  if (source.startsWith('/')) return source
+
+  const data = await loadImageData(source, signal)
+  const extension = detectImageExtension(data)
+
+  if (!extension) {
+    throw new Error('Unsupported image format')
+  }
+
+  const { url } = await saveFile(data, extension)
+  return url
+}
+
+/**
+ * 缓存中的文件都还在时才算命中
+ */
+async function filesExist(urls: string[]): Promise<boolean> {
+  for (const url of urls) {
+    const name = fileNameFromUrl(url)
+    if (name && !(await storedFileExists(name))) return false
+  }
+  return true
+}
+
+async function generateAndStore(
+  key: string,
+  prompt: string,
+  generate: (signal: AbortSignal) => Promise<string[]>,
+  signal: AbortSignal
+): Promise<string[]> {
+  const sources = await generate(signal)
+  const urls = await Promise.all(sources.map(source => storeImage(source, signal)))
+
+  if (urls.length > 0) {
+    await storage.images.saveImages(key, prompt, urls)
+  }
+
+  return urls
+}
+
+/**
+ * 等待共享任务完成，调用方的 signal 中止时只有这一方提前退出
+ */
+function waitForTask(task: PendingTask, signal?: AbortSignal): Promise<string[]> {
+  if (!signal) return task.promise
+  if (signal.aborted) return Promise.reject(signal.reason)
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+    task.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+function startTask(key: string, prompt: string, generate: (signal: AbortSignal) => Promise<string[]>): PendingTask {
+  const controller = new AbortController()
+  const task: PendingTask = {
+    promise: generateAndStore(key, prompt, generate, controller.signal),
+    controller,
+    waiters: 0
+  }
+  task.promise
+    .finally(() => {
+      if (pending.get(key) === task) pending.delete(key)
+    })
+    .catch(() => {})
+  pending.set(key, task)
+  return task
+}
+
+/**
+ * 按提示词取缓存的图片，没有时调用 generate 生成并转存到本地
+ */
+async function getOrCreateImages(
+  prompt: string,
+  generate: (signal: AbortSignal) => Promise<string[]>,
+  signal?: AbortSignal
+): Promise<{ urls: string[]; cached: boolean }> {
+  const key = promptKey(prompt)
+  const cached = await storage.images.getImages(key)
+
+  if (cached && cached.urls.length > 0 && await filesExist(cached.urls)) {
+    return { urls: cached.urls, cached: true }
+  }
+
+  const task = pending.get(key) ?? startTask(key, prompt, generate)
+  task.waiters++
+
+  try {
+    return { urls: await waitForTask(task, signal), cached: false }
+  } finally {
+    task.waiters--
+    // 最后一个等待者离开时任务已无人需要，未完成的下载和生成一并中止
+    if (task.waiters === 0) {
+      if (pending.get(key) === task) pending.delete(key)
+      task.controller.abort()
+    }
+  }
+}
+
+export { getOrCreateImages, normalizePrompt, promptKey }
@@ -0,0 +1,46 @@
+/**
+ * 大模型服务调用错误
+ */
+
+class ProviderError extends Error {
+  readonly provider: string
+  readonly status?: number
+  /** 是否值得重试（429、5xx、网络错误、超时） */
+  readonly retryable: boolean
+
+  constructor(provider: string, message: string, options: { status?: number; retryable?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause })
+    this.name = 'ProviderError'
+    this.provider = provider
+    this.status = options.status
+    this.retryable = options.retryable ?? false
+  }
+}
+
+/**
+ * 单次请求超过配置的超时时间
+ */
+class ProviderTimeoutError extends ProviderError {
+  readonly timeoutMs: number
+
+  constructor(provider: string, timeoutMs: number) {
+    super(provider, `${provider} API request timed out after ${timeoutMs}ms`, { retryable: true })
+    this.name = 'ProviderTimeoutError'
+    this.timeoutMs = timeoutMs
+  }
+}
+
+/**
+ * 熔断器打开，服务暂不可用，请求直接失败
+ */
+class ProviderUnavailableError extends ProviderError {
+  readonly retryAfterMs: number
+
+  constructor(provider: string, retryAfterMs: number) {
+    super(provider, `${provider} API is temporarily unavailable`)
+    this.name = 'ProviderUnavailableError'
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+export { ProviderError, ProviderTimeoutError, ProviderUnavailableError }
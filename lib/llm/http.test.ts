@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CircuitBreaker, fetchWithRetry, parseRetryAfter, type RetryPolicy } from './http'
+import { ProviderError, ProviderTimeoutError, ProviderUnavailableError } from './errors'
+
+const policy: RetryPolicy = { timeoutMs: 1000, idleTimeoutMs: 50, maxRetries: 2, baseDelayMs: 0, maxDelayMs: 100 }
+
+/**
+ * 先发出给定的数据块，之后一直不再发送也不结束
+ */
+function stallingBody(chunks: string[]) {
+  const encoder = new TextEncoder()
+  const cancel = vi.fn()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+    },
+    cancel
+  })
+  return { body, cancel }
+}
+
+function stubFetch(...responses: Array<() => Response | Promise<Response>>) {
+  const fetch = vi.fn(async (_url: string, _init?: RequestInit) => {
+    const next = responses.shift()
+    if (!next) throw new Error('Unexpected request')
+    return next()
+  })
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+describe('fetchWithRetry', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('5xx 和网络错误会重试，成功后返回响应', async () => {
+    const fetch = stubFetch(
+      () => new Response('busy', { status: 503 }),
+      () => { throw new TypeError('fetch failed') },
+      () => new Response('ok')
+    )
+
+    const response = await fetchWithRetry('test', 'http://llm.test', {}, policy, new CircuitBreaker())
+
+    expect(await response.text()).toBe('ok')
+    expect(fetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('4xx 不重试，也不计入熔断', async () => {
+    const fetch = stubFetch(() => new Response('bad request', { status: 400 }))
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 })
+
+    const error = await fetchWithRetry('test', 'http://llm.test', {}, policy, breaker).catch(error => error)
+
+    expect(error).toBeInstanceOf(ProviderError)
+    expect(error.status).toBe(400)
+    expect(fetch).toHaveBeenCalledOnce()
+    expect(breaker.state).toBe('closed')
+  })
+
+  it('Retry-After 超过最大等待时间时不再重试', async () => {
+    const fetch = stubFetch(() => new Response('slow down', { status: 429, headers: { 'Retry-After': '60' } }))
+
+    await expect(fetchWithRetry('test', 'http://llm.test', {}, policy, new CircuitBreaker())).rejects.toMatchObject({ status: 429 })
+    expect(fetch).toHaveBeenCalledOnce()
+  })
+
+  it('请求超时时抛出 ProviderTimeoutError', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init?: RequestInit) => new Promise<Response>((_, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+    })))
+
+    await expect(fetchWithRetry('test', 'http://llm.test', {}, { ...policy, timeoutMs: 10, maxRetries: 0 }, new CircuitBreaker()))
+      .rejects.toBeInstanceOf(ProviderTimeoutError)
+  })
+
+  it('调用方取消时立即停止，不计入熔断', async () => {
+    const controller = new AbortController()
+    vi.stubGlobal('fetch', vi.fn((_url: string, init?: RequestInit) => new Promise<Response>((_, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal?.reason))
+    })))
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 })
+
+    const request = fetchWithRetry('test', 'http://llm.test', {}, policy, breaker, controller.signal)
+    controller.abort()
+
+    await expect(request).rejects.toBeDefined()
+    expect(breaker.state).toBe('closed')
+  })
+
+  it('响应体长时间没有新数据时抛出超时并取消底层流', async () => {
+    const { body, cancel } = stallingBody(['data: 1\n\n'])
+    stubFetch(() => new Response(body))
+
+    const response = await fetchWithRetry('test', 'http://llm.test', {}, policy, new CircuitBreaker())
+    const reader = response.body!.getReader()
+
+    expect(new TextDecoder().decode((await reader.read()).value)).toBe('data: 1\n\n')
+    await expect(reader.read()).rejects.toBeInstanceOf(ProviderTimeoutError)
+    expect(cancel).toHaveBeenCalled()
+  })
+
+  it('持续收到数据时不超时', async () => {
+    stubFetch(() => new Response('{"ok":true}'))
+
+    const response = await fetchWithRetry('test', 'http://llm.test', {}, policy, new CircuitBreaker())
+    expect(await response.json()).toEqual({ ok: true })
+  })
+})
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('连续失败达到阈值后打开，冷却后只放行一次试探', () => {
+    vi.useFakeTimers()
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 })
+
+    breaker.acquire('test')
+    breaker.recordFailure()
+    expect(breaker.state).toBe('closed')
+
+    breaker.acquire('test')
+    breaker.recordFailure()
+    expect(breaker.state).toBe('open')
+    expect(() => breaker.acquire('test')).toThrow(ProviderUnavailableError)
+
+    vi.advanceTimersByTime(1000)
+    expect(breaker.state).toBe('half-open')
+    breaker.acquire('test')
+    expect(() => breaker.acquire('test')).toThrow(ProviderUnavailableError)
+
+    breaker.recordSuccess()
+    expect(breaker.state).toBe('closed')
+  })
+
+  it('试探失败时重新打开', () => {
+    vi.useFakeTimers()
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 })
+
+    breaker.recordFailure()
+    vi.advanceTimersByTime(1000)
+    breaker.acquire('test')
+    breaker.recordFailure()
+
+    expect(breaker.state).toBe('open')
+  })
+})
+
+describe('parseRetryAfter', () => {
+  it('支持秒数和 HTTP 日期', () => {
+    expect(parseRetryAfter('3')).toBe(3000)
+    expect(parseRetryAfter(null)).toBeUndefined()
+    expect(parseRetryAfter('not a date')).toBeUndefined()
+
+    const inTenSeconds = new Date(Date.now() + 10_000).toUTCString()
+    expect(parseRetryAfter(inTenSeconds)).toBeGreaterThan(8000)
+  })
+})
@@ -0,0 +1,276 @@
+/**
+ * 大模型请求的超时、重试与熔断
+ */
+
+import { ProviderError, ProviderTimeoutError, ProviderUnavailableError } from './errors'
+
+interface RetryPolicy {
+  /** 单次请求超时，计算到收到响应头为止 */
+  timeoutMs: number
+  /** 读取响应体时两次收到数据的最长间隔，0 表示不限制 */
+  idleTimeoutMs: number
+  /** 失败后的最大重试次数 */
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+interface CircuitBreakerOptions {
+  /** 连续失败多少次后打开熔断 */
+  failureThreshold: number
+  /** 熔断打开后多久允许一次试探请求 */
+  cooldownMs: number
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+/**
+ * 从环境变量读取默认策略
+ */
+function defaultRetryPolicy(): RetryPolicy {
+  return {
+    timeoutMs: readNumberEnv('LLM_TIMEOUT_MS', 60_000),
+    idleTimeoutMs: readNumberEnv('LLM_STREAM_IDLE_TIMEOUT_MS', 30_000),
+    maxRetries: readNumberEnv('LLM_MAX_RETRIES', 2),
+    baseDelayMs: readNumberEnv('LLM_RETRY_BASE_DELAY_MS', 500),
+    maxDelayMs: readNumberEnv('LLM_RETRY_MAX_DELAY_MS', 10_000)
+  }
+}
+
+function defaultCircuitBreakerOptions(): CircuitBreakerOptions {
+  return {
+    failureThreshold: readNumberEnv('LLM_CIRCUIT_FAILURE_THRESHOLD', 5),
+    cooldownMs: readNumberEnv('LLM_CIRCUIT_COOLDOWN_MS', 30_000)
+  }
+}
+
+/**
+ * 熔断器：连续失败达到阈值后直接拒绝请求，冷却结束后放行一次试探
+ */
+class CircuitBreaker {
+  private options: CircuitBreakerOptions
+  private failures = 0
+  private openedAt: number | null = null
+  private probing = false
+
+  constructor(options: CircuitBreakerOptions = defaultCircuitBreakerOptions()) {
+    this.options = options
+  }
+
+  get state(): 'closed' | 'open' | 'half-open' {
+    if (this.openedAt === null) return 'closed'
+    return Date.now() - this.openedAt >= this.options.cooldownMs ? 'half-open' : 'open'
+  }
+
+  /**
+   * 请求前调用，熔断打开时抛出 ProviderUnavailableError
+   */
+  acquire(provider: string) {
+    const state = this.state
+
+    if (state === 'open' || (state === 'half-open' && this.probing)) {
+      const elapsed = Date.now() - (this.openedAt ?? 0)
+      throw new ProviderUnavailableError(provider, Math.max(this.options.cooldownMs - elapsed, 1000))
+    }
+
+    if (state === 'half-open') {
+      this.probing = true
+    }
+  }
+
+  recordSuccess() {
+    this.failures = 0
+    this.openedAt = null
+    this.probing = false
+  }
+
+  recordFailure() {
+    this.failures++
+    this.probing = false
+
+    if (this.openedAt !== null || this.failures >= this.options.failureThreshold) {
+      this.openedAt = Date.now()
+    }
+  }
+
+  /**
+   * 本次请求没有得出结论（如调用方主动取消），释放试探名额
+   */
+  release() {
+    this.probing = false
+  }
+}
+
+/**
+ * 解析 Retry-After 头，支持秒数和 HTTP 日期两种格式
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0)
+  }
+
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0)
+}
+
+/**
+ * 指数退避加全抖动
+ */
+function backoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+  return Math.random() * ceiling
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * 包装响应体，超过 idleTimeoutMs 没有收到新数据时中断连接并抛出 ProviderTimeoutError
+ * 避免服务端发完响应头后卡住，流式读取一直挂起
+ */
+function withIdleTimeout(provider: string, response: Response, idleTimeoutMs: number, abort: () => void): Response {
+  if (!response.body || idleTimeoutMs <= 0) return response
+
+  const reader = response.body.getReader()
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let timer: ReturnType<typeof setTimeout> | undefined
+      const idle = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new ProviderTimeoutError(provider, idleTimeoutMs)), idleTimeoutMs)
+      })
+
+      try {
+        const { done, value } = await Promise.race([reader.read(), idle])
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      } catch (error) {
+        if (error instanceof ProviderTimeoutError) {
+          abort()
+          reader.cancel(error).catch(() => {})
+        }
+        controller.error(error)
+      } finally {
+        clearTimeout(timer)
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    }
+  })
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers })
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+/**
+ * 带超时、重试和熔断的 fetch
+ * 调用方的 signal 取消时立即停止，不计入熔断失败
+ */
+async function fetchWithRetry(
+  provider: string,
+  url: string,
+  init: RequestInit,
+  policy: RetryPolicy,
+  breaker: CircuitBreaker,
+  signal?: AbortSignal
+): Promise<Response> {
+  breaker.acquire(provider)
+
+  let attempt = 0
+
+  while (true) {
+    const timeoutController = new AbortController()
+    const timer = setTimeout(() => timeoutController.abort(), policy.timeoutMs)
+    const combinedSignal = signal ? AbortSignal.any([signal, timeoutController.signal]) : timeoutController.signal
+
+    let error: ProviderError
+    let retryAfterMs: number | undefined
+
+    try {
+      const response = await fetch(url, { ...init, signal: combinedSignal }).finally(() => clearTimeout(timer))
+
+      if (response.ok) {
+        breaker.recordSuccess()
+        return withIdleTimeout(provider, response, policy.idleTimeoutMs, () => timeoutController.abort())
+      }
+
+      const errorText = await response.text()
+      console.error(`${provider} API错误响应:`, {
+        status: response.status,
+        statusText: response.statusText,
+        errorText: errorText,
+        attempt
+      })
+
+      error = new ProviderError(provider, `${provider} API error: ${response.status} ${response.statusText} - ${errorText}`, {
+        status: response.status,
+        retryable: isRetryableStatus(response.status)
+      })
+      retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'))
+    } catch (fetchError) {
+      if (signal?.aborted) {
+        breaker.release()
+        throw fetchError
+      }
+
+      error = timeoutController.signal.aborted
+        ? new ProviderTimeoutError(provider, policy.timeoutMs)
+        : new ProviderError(provider, `${provider} API network error`, { retryable: true, cause: fetchError })
+    }
+
+    if (!error.retryable) {
+      // 客户端错误说明请求本身有问题，与服务是否健康无关
+      breaker.release()
+      throw error
+    }
+
+    const delay = retryAfterMs ?? backoffDelay(attempt, policy)
+    if (attempt >= policy.maxRetries || delay > policy.maxDelayMs) {
+      breaker.recordFailure()
+      throw error
+    }
+
+    attempt++
+    console.warn(`${provider} API 请求失败，${Math.round(delay)}ms 后第 ${attempt} 次重试:`, error.message)
+
+    try {
+      await sleep(delay, signal)
+    } catch (abortError) {
+      breaker.release()
+      throw abortError
+    }
+  }
+}
+
+export { CircuitBreaker, defaultRetryPolicy, fetchWithRetry, parseRetryAfter }
+export type { CircuitBreakerOptions, RetryPolicy }
@@ -0,0 +1,35 @@
+/**
+ * 按环境变量选择大模型服务商
+ * LLM_PROVIDER = doubao（默认）| openai | mock
+ */
+
+import DoubaoClient from '../doubao'
+import MockProvider from './mock'
+import OpenAICompatibleProvider from './openai-compatible'
+import type { LLMProvider } from './types'
+
+function createLLMProvider(name: string = process.env.LLM_PROVIDER || 'doubao'): LLMProvider {
+  switch (name) {
+    case 'doubao':
+      return new DoubaoClient()
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        name: 'openai',
+        apiKey: process.env.OPENAI_API_KEY || '',
+        baseURL: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+        imageModel: process.env.OPENAI_IMAGE_MODEL || 'dall-e-3'
+      })
+    case 'mock':
+      return new MockProvider()
+    default:
+      console.warn(`Unknown LLM_PROVIDER "${name}", falling back to doubao.`)
+      return new DoubaoClient()
+  }
+}
+
+// 创建单例实例
+export const llmProvider = createLLMProvider()
+
+export { createLLMProvider }
+export type * from './types'
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import MeteredProvider, { type MeteredUsage } from './metered'
+import MockProvider from './mock'
+import type { ChatCompletionRequest } from './types'
+
+const request: ChatCompletionRequest = { messages: [{ role: 'user', content: '你好' }] }
+
+function createMetered() {
+  const records: MeteredUsage[] = []
+  const provider = new MeteredProvider(new MockProvider([{ match: '你好', reply: '你好呀，今天想聊点什么？' }]), usage => records.push(usage))
+  return { provider, records }
+}
+
+describe('MeteredProvider', () => {
+  it('记录普通调用的用量', async () => {
+    const { provider, records } = createMetered()
+    const response = await provider.chatCompletion(request)
+
+    expect(records).toEqual([{ kind: 'chat', model: 'mock', usage: response.usage }])
+  })
+
+  it('流式调用完整结束时记录服务商返回的用量', async () => {
+    const { provider, records } = createMetered()
+    for await (const _event of provider.chatCompletionStream(request)) { /* 读完 */ }
+
+    expect(records).toHaveLength(1)
+    expect(records[0]).toMatchObject({ kind: 'chat', usage: { completion_tokens: '你好呀，今天想聊点什么？'.length } })
+  })
+
+  it('中途停止时按已收到的输出估算用量', async () => {
+    const { provider, records } = createMetered()
+    for await (const event of provider.chatCompletionStream(request)) {
+      if (event.type === 'content') break
+    }
+
+    expect(records).toHaveLength(1)
+    const usage = (records[0] as Extract<MeteredUsage, { kind: 'chat' }>).usage
+    expect(usage.completion_tokens).toBeGreaterThan(0)
+    expect(usage.total_tokens).toBe(usage.prompt_tokens + usage.completion_tokens)
+  })
+
+  it('没有收到任何输出时不记账', async () => {
+    const { provider, records } = createMetered()
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(async () => {
+      for await (const _event of provider.chatCompletionStream(request, { signal: controller.signal })) { /* 不会执行 */ }
+    }).rejects.toThrow()
+    expect(records).toEqual([])
+  })
+})
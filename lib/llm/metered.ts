@@ -0,0 +1,105 @@
+/**
+ * 计量包装
+ * 包一层 LLMProvider，把每次调用返回的 token 用量和生成的图片数量交给回调记账，调用本身原样转发
+ */
+
+import { estimateMessagesTokens, estimateTokens } from '../chat-history'
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatUsage,
+  CompletionStreamEvent,
+  ImageRequest,
+  LLMProvider,
+  ProviderStatus,
+  RequestOptions
+} from './types'
+
+type MeteredUsage =
+  | { kind: 'chat'; model: string; usage: ChatUsage }
+  | { kind: 'image'; model: string; images: number }
+
+type UsageCallback = (usage: MeteredUsage) => void
+
+class MeteredProvider implements LLMProvider {
+  constructor(private inner: LLMProvider, private onUsage: UsageCallback) {}
+
+  get name(): string {
+    return this.inner.name
+  }
+
+  async chatCompletion(request: ChatCompletionRequest, options?: RequestOptions): Promise<ChatCompletionResponse> {
+    const response = await this.inner.chatCompletion(request, options)
+
+    if (response.usage) {
+      this.report({ kind: 'chat', model: response.model || this.chatModel(request), usage: response.usage })
+    }
+
+    return response
+  }
+
+  /**
+   * 中途停止或出错时服务商不会返回用量，按已收到的输出估算，避免漏记
+   */
+  async *chatCompletionStream(request: ChatCompletionRequest, options?: RequestOptions): AsyncGenerator<CompletionStreamEvent> {
+    let reported = false
+    let received = false
+    let output = ''
+
+    try {
+      for await (const event of this.inner.chatCompletionStream(request, options)) {
+        if (event.type === 'usage') {
+          reported = true
+          this.report({ kind: 'chat', model: this.chatModel(request), usage: event.usage })
+        } else if (event.type === 'content' || event.type === 'reasoning') {
+          received = true
+          output += event.text
+        } else if (event.type === 'tool_calls') {
+          received = true
+          output += event.calls.map(call => call.function.name + call.function.arguments).join('')
+        }
+        yield event
+      }
+    } finally {
+      if (!reported && received) {
+        const prompt_tokens = estimateMessagesTokens(request.messages)
+        const completion_tokens = estimateTokens(output)
+        this.report({
+          kind: 'chat',
+          model: this.chatModel(request),
+          usage: { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens }
+        })
+      }
+    }
+  }
+
+  async generateImage(request: ImageRequest, options?: RequestOptions): Promise<string[]> {
+    const urls = await this.inner.generateImage(request, options)
+
+    if (urls.length > 0) {
+      this.report({ kind: 'image', model: this.inner.getStatus().imageModel, images: urls.length })
+    }
+
+    return urls
+  }
+
+  getStatus(): ProviderStatus {
+    return this.inner.getStatus()
+  }
+
+  private chatModel(request: ChatCompletionRequest): string {
+    return request.model || this.inner.getStatus().model
+  }
+
+  // 记账失败不影响调用结果
+  private report(usage: MeteredUsage) {
+    try {
+      this.onUsage(usage)
+    } catch (error) {
+      console.error('用量记录失败:', error)
+    }
+  }
+}
+
+export type { MeteredUsage, UsageCallback }
+export default MeteredProvider
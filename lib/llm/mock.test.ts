@@ -0,0 +1,79 @@
+import { mkdtempSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import MockProvider from './mock'
+import type { ChatCompletionRequest, CompletionStreamEvent } from './types'
+
+const request = (content: string, extra: Partial<ChatCompletionRequest> = {}): ChatCompletionRequest => ({
+  messages: [{ role: 'user', content }],
+  ...extra
+})
+
+async function collect(events: AsyncGenerator<CompletionStreamEvent>): Promise<CompletionStreamEvent[]> {
+  const result: CompletionStreamEvent[] = []
+  for await (const event of events) result.push(event)
+  return result
+}
+
+describe('MockProvider.loadScript', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('未配置时使用内置脚本', () => {
+    vi.stubEnv('MOCK_LLM_SCRIPT', '')
+    expect(MockProvider.loadScript().length).toBeGreaterThan(0)
+  })
+
+  it('接受内联 JSON 数组', () => {
+    vi.stubEnv('MOCK_LLM_SCRIPT', '[{ "match": "你好", "reply": "内联回复" }]')
+    expect(MockProvider.loadScript()).toEqual([{ match: '你好', reply: '内联回复' }])
+  })
+
+  it('接受 JSON 文件路径', () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'mock-script-')), 'script.json')
+    writeFileSync(file, JSON.stringify([{ match: 'hi', reply: '文件回复' }]))
+    vi.stubEnv('MOCK_LLM_SCRIPT', file)
+
+    expect(MockProvider.loadScript()).toEqual([{ match: 'hi', reply: '文件回复' }])
+  })
+})
+
+describe('MockProvider', () => {
+  const provider = new MockProvider([
+    { match: '体重', reply: '记下了', actions: [{ type: 'log_weight', weightKg: 60 }] },
+    { match: '查记录', reply: '查好了', tool: { name: 'get_meals', arguments: { date: '2026-10-19' } } }
+  ])
+
+  it('按规则回复，没有匹配时返回默认回复', async () => {
+    const matched = await provider.chatCompletion(request('今天体重60'))
+    const fallback = await provider.chatCompletion(request('随便说说'))
+
+    expect(matched.choices[0].message.content).toBe('记下了')
+    expect(fallback.choices[0].message.content).toContain('离线模拟助手')
+  })
+
+  it('json_object 模式下返回信封', async () => {
+    const response = await provider.chatCompletion(request('今天体重60', { response_format: { type: 'json_object' } }))
+    expect(JSON.parse(response.choices[0].message.content as string)).toEqual({
+      reply: '记下了',
+      actions: [{ type: 'log_weight', weightKg: 60 }]
+    })
+  })
+
+  it('流式输出拼起来等于完整回复', async () => {
+    const events = await collect(provider.chatCompletionStream(request('今天体重60')))
+    const text = events.map(event => event.type === 'content' ? event.text : '').join('')
+
+    expect(text).toBe('记下了')
+    expect(events.at(-1)?.type).toBe('usage')
+  })
+
+  it('提供了对应工具时先返回工具调用', async () => {
+    const tools = [{ type: 'function' as const, function: { name: 'get_meals', description: '', parameters: {} } }]
+    const response = await provider.chatCompletion(request('帮我查记录', { tools }))
+
+    expect(response.choices[0].message.tool_calls?.[0].function).toEqual({ name: 'get_meals', arguments: '{"date":"2026-10-19"}' })
+  })
+})
@@ -0,0 +1,191 @@
+/**
+ * 离线模拟服务商
+ * 按脚本规则返回固定回复，不访问网络，便于本地开发和测试
+ */
+
+import { readFileSync } from 'fs'
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  ChatUsage,
+  CompletionStreamEvent,
+  ImageRequest,
+  LLMProvider,
+  ProviderStatus,
+  RequestOptions,
+  ToolCall
+} from './types'
+
+interface MockScriptRule {
+  /** 与最后一条用户消息匹配的正则（不区分大小写） */
+  match: string
+  reply: string
+  /** 结构化输出模式下附带的操作，原样放进 JSON 信封 */
+  actions?: unknown[]
+  /** 请求中提供了同名工具时，先返回这次工具调用，拿到结果后再回复 */
+  tool?: { name: string; arguments?: Record<string, unknown> }
+}
+
+const defaultScript: MockScriptRule[] = [
+  { match: 'junk food|垃圾食品|炸鸡|薯条', reply: '想吃垃圾食品很正常！试试用烤鸡胸肉配烤红薯代替，同样满足又少一半热量。🍠' },
+  { match: 'skipped lunch|没吃午饭|haven\'t eaten|没吃饭', reply: '记得按时吃饭哦，长时间空腹容易在下一餐吃过量。现在来点酸奶或坚果垫一垫吧。🥜' },
+  { match: 'stress|压力|累', reply: '辛苦了！压力大的时候先深呼吸几次，出去散步十分钟也会让你感觉好很多。💪' },
+  { match: 'exercise|运动|健身|workout', reply: '今天没运动也没关系，睡前做 10 分钟拉伸或一组深蹲就是很好的开始。🏃' }
+]
+
+const defaultReply = '收到！我是离线模拟助手，这是一条固定的测试回复。'
+
+/** 流式输出时每块的字符数 */
+const STREAM_CHUNK_SIZE = 4
+
+class MockProvider implements LLMProvider {
+  readonly name = 'mock'
+  private script: MockScriptRule[]
+
+  constructor(script: MockScriptRule[] = MockProvider.loadScript()) {
+    this.script = script
+  }
+
+  /**
+   * 从 MOCK_LLM_SCRIPT 加载脚本：以 [ 开头时按内联 JSON 数组解析，否则当作 JSON 文件路径，未配置时使用内置脚本
+   */
+  static loadScript(): MockScriptRule[] {
+    const script = process.env.MOCK_LLM_SCRIPT?.trim()
+    if (!script) {
+      return defaultScript
+    }
+
+    try {
+      const json = script.startsWith('[') ? script : readFileSync(script, 'utf-8')
+      return JSON.parse(json) as MockScriptRule[]
+    } catch (error) {
+      console.error('模拟脚本加载失败，使用内置脚本:', error)
+      return defaultScript
+    }
+  }
+
+  async chatCompletion(request: ChatCompletionRequest, options: RequestOptions = {}): Promise<ChatCompletionResponse> {
+    options.signal?.throwIfAborted()
+
+    const toolCall = this.resolveToolCall(request)
+    if (toolCall) {
+      return {
+        id: 'mock-completion',
+        object: 'chat.completion',
+        created: 0,
+        model: this.name,
+        choices: [{
+          index: 0,
+          message: { role: 'assistant', content: '', tool_calls: [toolCall] },
+          finish_reason: 'tool_calls'
+        }],
+        usage: this.countUsage(request.messages, toolCall.function.arguments)
+      }
+    }
+
+    const reply = this.resolveReply(request)
+
+    return {
+      id: 'mock-completion',
+      object: 'chat.completion',
+      created: 0,
+      model: this.name,
+      choices: [{
+        index: 0,
+        message: { role: 'assistant', content: reply },
+        finish_reason: 'stop'
+      }],
+      usage: this.countUsage(request.messages, reply)
+    }
+  }
+
+  async *chatCompletionStream(request: ChatCompletionRequest, options: RequestOptions = {}): AsyncGenerator<CompletionStreamEvent> {
+    const toolCall = this.resolveToolCall(request)
+    if (toolCall) {
+      options.signal?.throwIfAborted()
+      yield { type: 'finish', reason: 'tool_calls' }
+      yield { type: 'usage', usage: this.countUsage(request.messages, toolCall.function.arguments) }
+      yield { type: 'tool_calls', calls: [toolCall] }
+      return
+    }
+
+    const reply = this.resolveReply(request)
+    const chars = Array.from(reply)
+
+    for (let i = 0; i < chars.length; i += STREAM_CHUNK_SIZE) {
+      options.signal?.throwIfAborted()
+      yield { type: 'content', text: chars.slice(i, i + STREAM_CHUNK_SIZE).join('') }
+    }
+
+    yield { type: 'finish', reason: 'stop' }
+    yield { type: 'usage', usage: this.countUsage(request.messages, reply) }
+  }
+
+  async generateImage(request: ImageRequest): Promise<string[]> {
+    return Array.from({ length: request.count || 1 }, () => '/placeholder.jpg')
+  }
+
+  getStatus(): ProviderStatus {
+    return {
+      provider: this.name,
+      configured: true,
+      baseURL: '',
+      model: this.name,
+      imageModel: this.name,
+      hasKey: false,
+      circuit: 'closed'
+    }
+  }
+
+  private matchRule(request: ChatCompletionRequest): MockScriptRule | undefined {
+    const lastUser = [...request.messages].reverse().find(message => message.role === 'user')
+    const text = typeof lastUser?.content === 'string' ? lastUser.content : ''
+
+    return this.script.find(item => new RegExp(item.match, 'i').test(text))
+  }
+
+  /**
+   * 规则配置了工具、请求提供了该工具且还没有工具结果时返回工具调用
+   */
+  private resolveToolCall(request: ChatCompletionRequest): ToolCall | null {
+    const tool = this.matchRule(request)?.tool
+    const lastMessage = request.messages[request.messages.length - 1]
+
+    if (!tool || request.tool_choice === 'none' || lastMessage?.role === 'tool' ||
+      !request.tools?.some(item => item.function.name === tool.name)) {
+      return null
+    }
+
+    return {
+      id: `mock-call-${request.messages.length}`,
+      type: 'function',
+      function: { name: tool.name, arguments: JSON.stringify(tool.arguments || {}) }
+    }
+  }
+
+  /**
+   * 请求 json_object 时把回复包装成 { reply, actions } 信封
+   */
+  private resolveReply(request: ChatCompletionRequest): string {
+    const rule = this.matchRule(request)
+    const reply = rule ? rule.reply : defaultReply
+
+    return request.response_format?.type === 'json_object'
+      ? JSON.stringify({ reply, actions: rule?.actions || [] })
+      : reply
+  }
+
+  /**
+   * 以字符数近似 token 数，保证结果可复现
+   */
+  private countUsage(messages: ChatMessage[], reply: string): ChatUsage {
+    const prompt_tokens = messages.reduce((sum, message) => sum + JSON.stringify(message.content).length, 0)
+    const completion_tokens = reply.length
+
+    return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens }
+  }
+}
+
+export type { MockScriptRule }
+export default MockProvider
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import OpenAICompatibleProvider from './openai-compatible'
+
+function createProvider() {
+  return new OpenAICompatibleProvider({
+    name: 'test',
+    apiKey: 'test-key',
+    baseURL: 'https://llm.example.com/v1/',
+    model: 'test-model',
+    imageModel: 'test-image',
+    retryPolicy: { maxRetries: 0 }
+  })
+}
+
+function stubFetch() {
+  const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response(JSON.stringify({ choices: [] }), { status: 200 }))
+  vi.stubGlobal('fetch', fetchMock)
+  return fetchMock
+}
+
+function sentBody(fetchMock: ReturnType<typeof stubFetch>) {
+  const [, init] = fetchMock.mock.calls[0]
+  return JSON.parse(init?.body as string)
+}
+
+describe('OpenAICompatibleProvider 请求体', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('保留显式的 temperature 0 和 max_tokens', async () => {
+    const fetchMock = stubFetch()
+    await createProvider().chatCompletion({ messages: [{ role: 'user', content: 'hi' }], temperature: 0, max_tokens: 300 })
+
+    expect(sentBody(fetchMock)).toMatchObject({ model: 'test-model', temperature: 0, max_tokens: 300, stream: false })
+  })
+
+  it('未指定时使用默认值', async () => {
+    const fetchMock = stubFetch()
+    await createProvider().chatCompletion({ messages: [{ role: 'user', content: 'hi' }] })
+
+    expect(sentBody(fetchMock)).toMatchObject({ temperature: 0.7, max_tokens: 2000 })
+    expect(fetchMock.mock.calls[0][0]).toBe('https://llm.example.com/v1/chat/completions')
+  })
+})
@@ -0,0 +1,270 @@
+/**
+ * OpenAI 兼容接口客户端
+ * 适用于任何实现了 /chat/completions 和 /images/generations 的服务
+ */
+
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatUsage,
+  CompletionStreamEvent,
+  ImageRequest,
+  LLMProvider,
+  ProviderStatus,
+  RequestOptions,
+  ToolCall
+} from './types'
+import { parseSSEStream } from './sse'
+import { CircuitBreaker, defaultRetryPolicy, fetchWithRetry, type RetryPolicy } from './http'
+
+interface StreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null
+      reasoning_content?: string | null
+      /** 工具调用按 index 分片返回，名称和参数需要逐块拼接 */
+      tool_calls?: Array<{
+        index: number
+        id?: string
+        function?: { name?: string; arguments?: string }
+      }>
+    }
+    finish_reason?: string | null
+  }>
+  usage?: ChatUsage | null
+}
+
+/**
+ * 按 base64 开头的文件头判断图片格式，服务商返回 b64_json 时不附带类型
+ */
+function detectImageMimeType(base64: string): string {
+  if (base64.startsWith('iVBOR')) return 'image/png'
+  if (base64.startsWith('UklGR')) return 'image/webp'
+  return 'image/jpeg'
+}
+
+interface OpenAICompatibleConfig {
+  name: string
+  apiKey: string
+  baseURL: string
+  model: string
+  imageModel: string
+  retryPolicy?: Partial<RetryPolicy>
+  /** 图片生成较慢，单独设置超时 */
+  imageTimeoutMs?: number
+}
+
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string
+  protected apiKey: string
+  protected baseURL: string
+  protected defaultModel: string
+  protected imageModel: string
+  private retryPolicy: RetryPolicy
+  private imageTimeoutMs: number
+  private circuitBreaker = new CircuitBreaker()
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name
+    this.apiKey = config.apiKey
+    this.baseURL = config.baseURL.replace(/\/+$/, '')
+    this.defaultModel = config.model
+    this.imageModel = config.imageModel
+    this.retryPolicy = { ...defaultRetryPolicy(), ...config.retryPolicy }
+    this.imageTimeoutMs = config.imageTimeoutMs ?? (Number(process.env.LLM_IMAGE_TIMEOUT_MS) || 120_000)
+
+    if (!this.apiKey) {
+      console.warn(`${this.name} API key not configured.`)
+    }
+  }
+
+  /**
+   * 发送聊天请求
+   */
+  async chatCompletion(request: ChatCompletionRequest, options: RequestOptions = {}): Promise<ChatCompletionResponse> {
+    this.ensureConfigured()
+
+    try {
+      const response = await this.post('/chat/completions', this.buildChatBody(request, false), options)
+      const data = await response.json()
+      return data as ChatCompletionResponse
+    } catch (error) {
+      console.error(`Error calling ${this.name} API:`, error)
+      throw error
+    }
+  }
+
+  /**
+   * 流式聊天响应
+   */
+  async *chatCompletionStream(request: ChatCompletionRequest, options: RequestOptions = {}): AsyncGenerator<CompletionStreamEvent> {
+    this.ensureConfigured()
+
+    try {
+      const response = await this.post('/chat/completions', this.buildChatBody(request, true), options)
+
+      if (!response.body) {
+        throw new Error('Response body is not readable')
+      }
+
+      const toolCalls: ToolCall[] = []
+
+      for await (const message of parseSSEStream(response.body)) {
+        if (message.data === '[DONE]') {
+          break
+        }
+
+        let parsed: StreamChunk
+        try {
+          parsed = JSON.parse(message.data)
+        } catch {
+          console.warn(`${this.name} 流式数据无法解析，已跳过:`, message.data)
+          continue
+        }
+
+        this.mergeToolCalls(toolCalls, parsed)
+        yield* this.toStreamEvents(parsed)
+      }
+
+      if (toolCalls.length > 0) {
+        yield { type: 'tool_calls', calls: toolCalls.filter(Boolean) }
+      }
+    } catch (error) {
+      console.error(`Error in ${this.name} streaming chat completion:`, error)
+      throw error
+    }
+  }
+
+  /**
+   * 生成图片
+   */
+  async generateImage(request: ImageRequest, options: RequestOptions = {}): Promise<string[]> {
+    this.ensureConfigured()
+
+    const response = await this.post('/images/generations', this.buildImageBody(request), {
+      ...options,
+      timeoutMs: options.timeoutMs ?? this.imageTimeoutMs
+    })
+    const data: { data?: Array<{ url?: string; b64_json?: string }> } = await response.json()
+
+    const imageUrls: string[] = []
+    data.data?.forEach(item => {
+      if (item.b64_json) {
+        imageUrls.push(`data:${detectImageMimeType(item.b64_json)};base64,${item.b64_json}`)
+      } else if (item.url) {
+        imageUrls.push(item.url)
+      }
+    })
+
+    return imageUrls
+  }
+
+  /**
+   * 获取API状态信息
+   */
+  getStatus(): ProviderStatus {
+    return {
+      provider: this.name,
+      configured: !!this.apiKey,
+      baseURL: this.baseURL,
+      model: this.defaultModel,
+      imageModel: this.imageModel,
+      hasKey: this.apiKey.length > 0,
+      circuit: this.circuitBreaker.state
+    }
+  }
+
+  /**
+   * 构造聊天请求体，子类可追加服务商特有的参数
+   */
+  protected buildChatBody(request: ChatCompletionRequest, stream: boolean): Record<string, unknown> {
+    return {
+      model: request.model || this.defaultModel,
+      messages: request.messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.max_tokens ?? 2000,
+      stream,
+      ...(request.tools?.length ? { tools: request.tools, tool_choice: request.tool_choice || 'auto' } : {}),
+      ...(request.response_format ? { response_format: request.response_format } : {}),
+      ...(stream ? { stream_options: { include_usage: true } } : {})
+    }
+  }
+
+  /**
+   * 构造图片生成请求体
+   */
+  protected buildImageBody(request: ImageRequest): Record<string, unknown> {
+    return {
+      model: this.imageModel,
+      prompt: request.prompt,
+      n: request.count || 1,
+      size: '1024x1024',
+      response_format: request.responseFormat || 'url'
+    }
+  }
+
+  /**
+   * 将一个流式数据块拆成类型化事件
+   * 开启 include_usage 后，用量信息在最后一个数据块中返回
+   */
+  private *toStreamEvents(chunk: StreamChunk): Generator<CompletionStreamEvent> {
+    const choice = chunk.choices?.[0]
+
+    if (choice?.delta?.reasoning_content) {
+      yield { type: 'reasoning', text: choice.delta.reasoning_content }
+    }
+    if (choice?.delta?.content) {
+      yield { type: 'content', text: choice.delta.content }
+    }
+    if (choice?.finish_reason) {
+      yield { type: 'finish', reason: choice.finish_reason }
+    }
+    if (chunk.usage) {
+      yield { type: 'usage', usage: chunk.usage }
+    }
+  }
+
+  /**
+   * 把数据块中的工具调用分片拼接到 calls 中
+   */
+  private mergeToolCalls(calls: ToolCall[], chunk: StreamChunk) {
+    for (const delta of chunk.choices?.[0]?.delta?.tool_calls || []) {
+      const call = calls[delta.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } }
+
+      if (delta.id) call.id = delta.id
+      if (delta.function?.name) call.function.name += delta.function.name
+      if (delta.function?.arguments) call.function.arguments += delta.function.arguments
+    }
+  }
+
+  private ensureConfigured() {
+    if (!this.apiKey) {
+      throw new Error(`${this.name} API key not configured`)
+    }
+  }
+
+  private async post(path: string, body: Record<string, unknown>, options: RequestOptions = {}): Promise<Response> {
+    const policy = options.timeoutMs
+      ? { ...this.retryPolicy, timeoutMs: options.timeoutMs }
+      : this.retryPolicy
+
+    return fetchWithRetry(
+      this.name,
+      `${this.baseURL}${path}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.apiKey}`,
+        },
+        body: JSON.stringify(body),
+      },
+      policy,
+      this.circuitBreaker,
+      options.signal
+    )
+  }
+}
+
+export type { OpenAICompatibleConfig }
+export default OpenAICompatibleProvider
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest'
+import { SSEParser, parseSSEStream } from './sse'
+
+function streamOf(chunks: Array<string | Uint8Array>) {
+  const encoder = new TextEncoder()
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk)
+      controller.close()
+    }
+  })
+}
+
+async function collect(body: ReadableStream<Uint8Array>) {
+  const messages = []
+  for await (const message of parseSSEStream(body)) messages.push(message)
+  return messages
+}
+
+describe('SSEParser', () => {
+  it('跨分片的行缓存到下一次读取', () => {
+    const parser = new SSEParser()
+    expect(parser.feed('data: {"a"')).toEqual([])
+    expect(parser.feed(':1}\n')).toEqual([])
+    expect(parser.feed('\n')).toEqual([{ event: 'message', data: '{"a":1}', id: undefined, retry: undefined }])
+  })
+
+  it('\\r\\n 被拆在两个分片时只算一个换行', () => {
+    const parser = new SSEParser()
+    expect(parser.feed('data: 1\r')).toEqual([])
+    expect(parser.feed('\n\r\n').map(message => message.data)).toEqual(['1'])
+  })
+
+  it('多行 data 以换行拼接，忽略注释和未知字段', () => {
+    const parser = new SSEParser()
+    const messages = parser.feed(': keep-alive\nevent: delta\nfoo: bar\ndata: 第一行\ndata: 第二行\nid: 7\nretry: 3000\n\n')
+
+    expect(messages).toEqual([{ event: 'delta', data: '第一行\n第二行', id: '7', retry: 3000 }])
+  })
+
+  it('没有 data 的消息不产出，事件名也不会带到下一条', () => {
+    const parser = new SSEParser()
+    expect(parser.feed('event: ping\n\ndata: x\n\n')).toEqual([{ event: 'message', data: 'x', id: undefined, retry: undefined }])
+  })
+
+  it('flush 处理没有以空行结尾的最后一条消息', () => {
+    const parser = new SSEParser()
+    expect(parser.feed('data: last')).toEqual([])
+    expect(parser.flush().map(message => message.data)).toEqual(['last'])
+  })
+})
+
+describe('parseSSEStream', () => {
+  it('多字节字符被拆在两个分片时正确解码', async () => {
+    const bytes = new TextEncoder().encode('data: 你好\n\n')
+    const messages = await collect(streamOf([bytes.slice(0, 8), bytes.slice(8)]))
+
+    expect(messages.map(message => message.data)).toEqual(['你好'])
+  })
+
+  it('调用方提前停止读取时取消底层流', async () => {
+    const cancel = vi.fn()
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('data: 1\n\ndata: 2\n\n'))
+      },
+      cancel
+    })
+
+    for await (const message of parseSSEStream(body)) {
+      expect(message.data).toBe('1')
+      break
+    }
+
+    expect(cancel).toHaveBeenCalled()
+  })
+})
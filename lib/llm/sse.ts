@@ -0,0 +1,171 @@
+/**
+ * Server-Sent Events 解析器
+ * 按 WHATWG 规范逐行解析，跨网络分片的行会缓存到下一次读取
+ */
+
+interface SSEMessage {
+  event: string
+  data: string
+  id?: string
+  retry?: number
+}
+
+class SSEParser {
+  private buffer = ''
+  private event = ''
+  private dataLines: string[] = []
+  private lastEventId: string | undefined
+  private retry: number | undefined
+  /** 上一块以 \r 结尾时，下一块开头的 \n 属于同一个换行 */
+  private pendingCR = false
+
+  /**
+   * 输入一段解码后的文本，返回其中已完整的消息
+   */
+  feed(chunk: string): SSEMessage[] {
+    if (this.pendingCR && chunk.startsWith('\n')) {
+      chunk = chunk.slice(1)
+    }
+    this.pendingCR = false
+
+    this.buffer += chunk
+    const messages: SSEMessage[] = []
+
+    let start = 0
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i]
+      if (char !== '\n' && char !== '\r') continue
+
+      const line = this.buffer.slice(start, i)
+
+      if (char === '\r') {
+        if (i + 1 === this.buffer.length) {
+          this.pendingCR = true
+        } else if (this.buffer[i + 1] === '\n') {
+          i++
+        }
+      }
+      start = i + 1
+
+      const message = this.processLine(line)
+      if (message) {
+        messages.push(message)
+      }
+    }
+
+    // 剩余的不完整行留到下次
+    this.buffer = this.buffer.slice(start)
+    return messages
+  }
+
+  /**
+   * 流结束时调用，处理没有以空行结尾的最后一条消息
+   */
+  flush(): SSEMessage[] {
+    const messages: SSEMessage[] = []
+
+    if (this.buffer) {
+      const message = this.processLine(this.buffer)
+      if (message) {
+        messages.push(message)
+      }
+      this.buffer = ''
+    }
+
+    const message = this.dispatch()
+    if (message) {
+      messages.push(message)
+    }
+
+    return messages
+  }
+
+  private processLine(line: string): SSEMessage | null {
+    // 空行表示一条消息结束
+    if (line === '') {
+      return this.dispatch()
+    }
+
+    // 冒号开头是注释（常用作心跳）
+    if (line.startsWith(':')) {
+      return null
+    }
+
+    const colonIndex = line.indexOf(':')
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex)
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1)
+    if (value.startsWith(' ')) {
+      value = value.slice(1)
+    }
+
+    switch (field) {
+      case 'event':
+        this.event = value
+        break
+      case 'data':
+        this.dataLines.push(value)
+        break
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value
+        }
+        break
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = Number(value)
+        }
+        break
+      default:
+        // 未知字段按规范忽略
+        break
+    }
+
+    return null
+  }
+
+  private dispatch(): SSEMessage | null {
+    if (this.dataLines.length === 0) {
+      this.event = ''
+      return null
+    }
+
+    const message: SSEMessage = {
+      event: this.event || 'message',
+      data: this.dataLines.join('\n'),
+      id: this.lastEventId,
+      retry: this.retry
+    }
+
+    this.event = ''
+    this.dataLines = []
+    return message
+  }
+}
+
+/**
+ * 读取字节流并逐条产出 SSE 消息
+ */
+async function* parseSSEStream(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  const parser = new SSEParser()
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      yield* parser.feed(decoder.decode(value, { stream: true }))
+    }
+
+    yield* parser.feed(decoder.decode())
+    yield* parser.flush()
+  } finally {
+    // 调用方提前停止读取时取消底层流，释放连接；正常读完时取消不产生影响
+    await reader.cancel().catch(() => {})
+    reader.releaseLock()
+  }
+}
+
+export { SSEParser, parseSSEStream }
+export type { SSEMessage }
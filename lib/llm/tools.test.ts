@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import MockProvider from './mock'
+import { executeToolCall, runToolLoop, runToolLoopStream, type LocalTool } from './tools'
+
+function createTool(execute: LocalTool['execute'] = async () => ({ calories: 1200 })): LocalTool {
+  return {
+    definition: { type: 'function', function: { name: 'get_diary_totals', description: '查询饮食记录', parameters: { type: 'object', properties: {} } } },
+    label: '查询今日饮食',
+    execute: vi.fn(execute)
+  }
+}
+
+const script = [{ match: '吃了多少', reply: '今天吃了 1200 千卡。', tool: { name: 'get_diary_totals', arguments: { date: '2024-05-20' } } }]
+
+describe('executeToolCall', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('把参数解析后交给工具，结果序列化返回', async () => {
+    const tool = createTool()
+    const result = await executeToolCall([tool], { id: '1', type: 'function', function: { name: 'get_diary_totals', arguments: '{"date":"2024-05-20"}' } })
+
+    expect(tool.execute).toHaveBeenCalledWith({ date: '2024-05-20' }, undefined)
+    expect(result).toEqual({ label: '查询今日饮食', result: '{"calories":1200}' })
+  })
+
+  it('未知工具和执行失败时把错误返回给模型', async () => {
+    const tool = createTool(async () => { throw new Error('数据库不可用') })
+
+    const unknown = await executeToolCall([tool], { id: '1', type: 'function', function: { name: 'drop_tables', arguments: '{}' } })
+    const failed = await executeToolCall([tool], { id: '2', type: 'function', function: { name: 'get_diary_totals', arguments: '{}' } })
+
+    expect(JSON.parse(unknown.result)).toEqual({ error: 'Unknown tool: drop_tables' })
+    expect(JSON.parse(failed.result)).toEqual({ error: '数据库不可用' })
+  })
+})
+
+describe('runToolLoop', () => {
+  it('执行工具后再次请求，返回最后一轮回复并累计用量', async () => {
+    const provider = new MockProvider(script)
+    const tool = createTool()
+
+    const response = await runToolLoop(provider, { messages: [{ role: 'user', content: '我今天吃了多少？' }] }, [tool])
+
+    expect(tool.execute).toHaveBeenCalledOnce()
+    expect(response.choices[0].message.content).toBe('今天吃了 1200 千卡。')
+    expect(response.usage!.total_tokens).toBeGreaterThan(0)
+  })
+})
+
+describe('runToolLoopStream', () => {
+  it('工具执行后产出 tool 事件，再转发下一轮的内容', async () => {
+    const provider = new MockProvider(script)
+    const events = []
+
+    for await (const event of runToolLoopStream(provider, { messages: [{ role: 'user', content: '我今天吃了多少？' }] }, [createTool()])) {
+      events.push(event)
+    }
+
+    const toolIndex = events.findIndex(event => event.type === 'tool')
+    const content = events.slice(toolIndex).flatMap(event => event.type === 'content' ? [event.text] : []).join('')
+
+    expect(toolIndex).toBeGreaterThanOrEqual(0)
+    expect(content).toBe('今天吃了 1200 千卡。')
+  })
+
+  it('达到轮数上限时最后一轮禁止调用工具', async () => {
+    const provider = new MockProvider(script)
+    const stream = vi.spyOn(provider, 'chatCompletionStream')
+    const tool = createTool()
+
+    for await (const _event of runToolLoopStream(provider, { messages: [{ role: 'user', content: '我今天吃了多少？' }] }, [tool], {}, 0)) {
+      // 读完即可
+    }
+
+    expect(tool.execute).not.toHaveBeenCalled()
+    expect(stream.mock.calls[0][0].tool_choice).toBe('none')
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * 工具调用循环
+ * 模型请求调用工具时在本地执行，把结果作为 tool 消息追加后再次请求，直到模型给出回复或达到轮数上限
+ */
+
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  CompletionStreamEvent,
+  LLMProvider,
+  RequestOptions,
+  ToolCall,
+  ToolDefinition
+} from './types'
+
+/** 最多允许的工具调用轮数，超过后强制模型直接回复 */
+const MAX_TOOL_ITERATIONS = 4
+
+/** 单个工具结果写回对话时的最大字符数 */
+const MAX_TOOL_RESULT_CHARS = 4000
+
+interface LocalTool {
+  definition: ToolDefinition
+  /** 展示给用户的简短说明，例如「查询今日饮食」 */
+  label: string
+  /** args 为模型生成的参数，需要自行校验 */
+  execute(args: unknown, signal?: AbortSignal): Promise<unknown>
+}
+
+/**
+ * 工具循环中的事件，tool 表示一次工具调用已执行完毕，之后会开始新一轮请求
+ */
+type ToolLoopEvent =
+  | CompletionStreamEvent
+  | { type: 'tool'; call: ToolCall; label: string; result: string }
+
+/**
+ * 执行一次工具调用，失败时把错误信息返回给模型而不是中断对话
+ */
+async function executeToolCall(tools: LocalTool[], call: ToolCall, signal?: AbortSignal): Promise<{ label: string; result: string }> {
+  const tool = tools.find(item => item.definition.function.name === call.function.name)
+  if (!tool) {
+    return { label: call.function.name, result: JSON.stringify({ error: `Unknown tool: ${call.function.name}` }) }
+  }
+
+  let result: unknown
+  try {
+    const args = call.function.arguments ? JSON.parse(call.function.arguments) : {}
+    result = await tool.execute(args, signal)
+  } catch (error) {
+    if (signal?.aborted) throw error
+
+    console.error(`工具 ${call.function.name} 执行失败:`, error)
+    result = { error: error instanceof Error ? error.message : 'Tool execution failed' }
+  }
+
+  return { label: tool.label, result: JSON.stringify(result).slice(0, MAX_TOOL_RESULT_CHARS) }
+}
+
+/**
+ * 非流式工具循环，返回最后一轮的响应，用量为各轮之和
+ */
+async function runToolLoop(
+  provider: LLMProvider,
+  request: ChatCompletionRequest,
+  tools: LocalTool[],
+  options: RequestOptions = {},
+  maxIterations = MAX_TOOL_ITERATIONS
+): Promise<ChatCompletionResponse> {
+  const messages: ChatMessage[] = [...request.messages]
+  const definitions = tools.map(tool => tool.definition)
+  const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+
+  for (let iteration = 0; ; iteration++) {
+    const response = await provider.chatCompletion({
+      ...request,
+      messages,
+      ...(definitions.length > 0 ? { tools: definitions, tool_choice: iteration < maxIterations ? 'auto' : 'none' } : {})
+    }, options)
+
+    usage.prompt_tokens += response.usage?.prompt_tokens || 0
+    usage.completion_tokens += response.usage?.completion_tokens || 0
+    usage.total_tokens += response.usage?.total_tokens || 0
+
+    const message = response.choices?.[0]?.message
+    const calls = message?.tool_calls || []
+
+    if (calls.length === 0 || iteration >= maxIterations) {
+      return { ...response, usage }
+    }
+
+    messages.push({ role: 'assistant', content: message.content || '', tool_calls: calls })
+
+    for (const call of calls) {
+      const { result } = await executeToolCall(tools, call, options.signal)
+      messages.push({ role: 'tool', tool_call_id: call.id, content: result })
+    }
+  }
+}
+
+/**
+ * 流式工具循环
+ * 转发每一轮的增量事件，工具调用执行后产出 tool 事件；最后一轮带上 tool_choice: none，保证循环一定结束
+ */
+async function* runToolLoopStream(
+  provider: LLMProvider,
+  request: ChatCompletionRequest,
+  tools: LocalTool[],
+  options: RequestOptions = {},
+  maxIterations = MAX_TOOL_ITERATIONS
+): AsyncGenerator<ToolLoopEvent> {
+  const messages: ChatMessage[] = [...request.messages]
+  const definitions = tools.map(tool => tool.definition)
+
+  for (let iteration = 0; iteration <= maxIterations; iteration++) {
+    const stream = provider.chatCompletionStream({
+      ...request,
+      messages,
+      ...(definitions.length > 0 ? { tools: definitions, tool_choice: iteration < maxIterations ? 'auto' : 'none' } : {})
+    }, options)
+
+    let content = ''
+    let calls: ToolCall[] = []
+
+    for await (const event of stream) {
+      if (event.type === 'tool_calls') {
+        calls = event.calls
+        continue
+      }
+      if (event.type === 'content') {
+        content += event.text
+      }
+      yield event
+    }
+
+    if (calls.length === 0 || iteration === maxIterations) {
+      if (calls.length > 0) {
+        console.warn(`工具调用达到 ${maxIterations} 轮上限，忽略剩余调用`)
+      }
+      return
+    }
+
+    messages.push({ role: 'assistant', content, tool_calls: calls })
+
+    for (const call of calls) {
+      const { label, result } = await executeToolCall(tools, call, options.signal)
+      messages.push({ role: 'tool', tool_call_id: call.id, content: result })
+      yield { type: 'tool', call, label, result }
+    }
+  }
+}
+
+export { MAX_TOOL_ITERATIONS, executeToolCall, runToolLoop, runToolLoopStream }
+export type { LocalTool, ToolLoopEvent }
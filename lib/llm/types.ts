@@ -0,0 +1,149 @@
+/**
+ * 大模型服务商抽象
+ * 聊天、流式聊天和图片生成统一走 LLMProvider 接口，具体实现见同目录下各文件
+ */
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string | Array<{ type: string; text?: string; image_url?: { url: string } }>
+  /** 助手消息中模型请求调用的工具 */
+  tool_calls?: ToolCall[]
+  /** 工具结果消息对应的调用 ID */
+  tool_call_id?: string
+}
+
+/**
+ * 提供给模型的函数定义，parameters 为 JSON Schema
+ */
+interface ToolDefinition {
+  type: 'function'
+  function: {
+    name: string
+    description: string
+    parameters: Record<string, unknown>
+  }
+}
+
+interface ToolCall {
+  id: string
+  type: 'function'
+  function: {
+    name: string
+    /** 模型生成的 JSON 字符串，可能不合法 */
+    arguments: string
+  }
+}
+
+interface ChatCompletionRequest {
+  messages: ChatMessage[]
+  model?: string
+  temperature?: number
+  max_tokens?: number
+  stream?: boolean
+  stream_options?: {
+    include_usage: boolean
+  }
+  thinking?: {
+    type: 'enabled' | 'disabled'
+  }
+  tools?: ToolDefinition[]
+  /** none 时禁止调用工具，强制模型直接回复 */
+  tool_choice?: 'auto' | 'none'
+  /** json_object 时要求模型只输出 JSON */
+  response_format?: {
+    type: 'text' | 'json_object'
+  }
+}
+
+interface ChatUsage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+}
+
+interface ChatCompletionResponse {
+  id: string
+  object: string
+  created: number
+  model: string
+  choices: Array<{
+    index: number
+    message: ChatMessage
+    finish_reason: string
+  }>
+  usage: ChatUsage
+}
+
+/**
+ * 流式聊天中解析出的事件
+ * reasoning 为深度思考模式下的思考过程，usage 在流末尾返回
+ * tool_calls 为拼接完整的工具调用，在流结束前产出
+ */
+type CompletionStreamEvent =
+  | { type: 'content'; text: string }
+  | { type: 'reasoning'; text: string }
+  | { type: 'finish'; reason: string }
+  | { type: 'usage'; usage: ChatUsage }
+  | { type: 'tool_calls'; calls: ToolCall[] }
+
+/**
+ * 单次调用的控制参数
+ */
+interface RequestOptions {
+  /** 调用方取消信号，通常来自 Next 请求的 request.signal */
+  signal?: AbortSignal
+  /** 覆盖默认超时（毫秒） */
+  timeoutMs?: number
+}
+
+interface ImageRequest {
+  prompt: string
+  count?: number
+  /** b64_json 时直接返回图片内容（data URL），不依赖会过期的远程地址 */
+  responseFormat?: 'url' | 'b64_json'
+}
+
+interface ProviderStatus {
+  provider: string
+  configured: boolean
+  baseURL: string
+  model: string
+  imageModel: string
+  hasKey: boolean
+  circuit: 'closed' | 'open' | 'half-open'
+}
+
+interface LLMProvider {
+  readonly name: string
+
+  /**
+   * 发送聊天请求，等待完整回复
+   */
+  chatCompletion(request: ChatCompletionRequest, options?: RequestOptions): Promise<ChatCompletionResponse>
+
+  /**
+   * 流式聊天，逐个产出增量文本、思考过程、结束原因和用量事件
+   */
+  chatCompletionStream(request: ChatCompletionRequest, options?: RequestOptions): AsyncGenerator<CompletionStreamEvent>
+
+  /**
+   * 根据提示词生成图片，返回图片地址或 data URL
+   */
+  generateImage(request: ImageRequest, options?: RequestOptions): Promise<string[]>
+
+  getStatus(): ProviderStatus
+}
+
+export type {
+  ChatMessage,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatUsage,
+  CompletionStreamEvent,
+  ImageRequest,
+  ProviderStatus,
+  RequestOptions,
+  LLMProvider,
+  ToolCall,
+  ToolDefinition
+}
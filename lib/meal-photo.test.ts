@@ -0,0 +1,65 @@
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import sharp from 'sharp'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { LLMProvider } from './llm'
+import { InvalidPhotoError, analyzeMealPhoto, formatMealPhotoPrompt, loadMealPhotoAnalysis } from './meal-photo'
+
+const visionReply = { items: [{ name: '番茄炒蛋', grams: 200, calories: 180, proteinG: 10, carbsG: 8, fatG: 12, confidence: 0.7 }], note: '一盘家常菜' }
+
+function createVisionProvider() {
+  const chatCompletion = vi.fn(async () => ({ choices: [{ message: { content: JSON.stringify(visionReply) } }] }))
+  return { provider: { chatCompletion } as unknown as LLMProvider, chatCompletion }
+}
+
+function createPhoto() {
+  return sharp({ create: { width: 16, height: 16, channels: 3, background: '#d33' } }).png().toBuffer()
+}
+
+describe('analyzeMealPhoto', () => {
+  let fileDir: string
+
+  beforeEach(async () => {
+    fileDir = await mkdtemp(join(tmpdir(), 'meal-photo-'))
+    vi.stubEnv('FILE_STORAGE_DIR', fileDir)
+  })
+
+  afterEach(async () => {
+    vi.unstubAllEnvs()
+    await rm(fileDir, { recursive: true, force: true })
+  })
+
+  it('保存识别结果，聊天时按照片地址读取', async () => {
+    const { provider, chatCompletion } = createVisionProvider()
+    const analysis = await analyzeMealPhoto(provider, await createPhoto())
+
+    expect(chatCompletion).toHaveBeenCalledOnce()
+    expect(analysis.items[0].name).toBe('番茄炒蛋')
+    expect(await loadMealPhotoAnalysis(analysis.photoUrl)).toEqual(analysis)
+  })
+
+  it('没有识别结果的地址返回 null', async () => {
+    expect(await loadMealPhotoAnalysis(`/api/files/${'a'.repeat(64)}.jpg`)).toBeNull()
+    expect(await loadMealPhotoAnalysis('https://example.com/photo.jpg')).toBeNull()
+  })
+
+  it('文件损坏时抛出 InvalidPhotoError，不调用模型', async () => {
+    const { provider, chatCompletion } = createVisionProvider()
+
+    await expect(analyzeMealPhoto(provider, Buffer.from('not an image'))).rejects.toBeInstanceOf(InvalidPhotoError)
+    expect(chatCompletion).not.toHaveBeenCalled()
+  })
+})
+
+describe('formatMealPhotoPrompt', () => {
+  it('列出识别出的食物和份量', () => {
+    const prompt = formatMealPhotoPrompt([{ photoUrl: '/api/files/x.jpg', ...visionReply }])
+    expect(prompt).toContain('番茄炒蛋 约200g，180kcal')
+  })
+
+  it('没有食物时写明原因', () => {
+    const prompt = formatMealPhotoPrompt([{ photoUrl: '/api/files/x.jpg', items: [], note: '照片里是一只猫' }])
+    expect(prompt).toContain('没有识别出食物（照片里是一只猫）')
+  })
+})
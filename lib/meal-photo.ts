@@ -0,0 +1,195 @@
+/**
+ * 餐食照片识别
+ * 上传的照片先压缩保存，再交给视觉模型识别食物和份量；能在内置成分表中找到的食物按表中数据计算营养
+ * 识别结果和照片一起保存，聊天时直接使用，不再把照片发给模型重新识别
+ */
+
+import sharp from 'sharp'
+import { z } from 'zod'
+import { fileNameFromUrl, readFileMetadata, saveFile, saveFileMetadata } from './file-store'
+import type { LLMProvider } from './llm'
+import { calculateNutrition, searchFoods } from './nutrition'
+
+/** 压缩后的最长边，足够模型辨认食物 */
+const MAX_PHOTO_EDGE = 1024
+
+/** 上传大小上限 */
+const MAX_PHOTO_BYTES = 10 * 1024 * 1024
+
+/** 搜索得分达到这个值才认为模型说的食物就是成分表里的那一项 */
+const FOOD_MATCH_MIN_SCORE = 60
+
+const visionResultSchema = z.object({
+  items: z.array(z.object({
+    name: z.string().trim().min(1).max(100),
+    grams: z.coerce.number().positive().max(5000),
+    calories: z.coerce.number().min(0).max(10000).default(0),
+    proteinG: z.coerce.number().min(0).max(1000).default(0),
+    carbsG: z.coerce.number().min(0).max(1000).default(0),
+    fatG: z.coerce.number().min(0).max(1000).default(0),
+    confidence: z.coerce.number().min(0).max(1).default(0.5)
+  })).max(10).default([]),
+  note: z.string().max(200).optional()
+})
+
+/** 保存的识别结果，读取时重新校验 */
+const storedAnalysisSchema = z.object({
+  items: z.array(z.object({
+    name: z.string().max(100),
+    grams: z.number(),
+    calories: z.number(),
+    proteinG: z.number(),
+    carbsG: z.number(),
+    fatG: z.number(),
+    confidence: z.number(),
+    foodId: z.string().optional()
+  })).max(10),
+  note: z.string().max(200).optional()
+})
+
+/**
+ * 上传的文件无法作为图片解码
+ */
+class InvalidPhotoError extends Error {
+  constructor(cause: unknown) {
+    super('Photo could not be decoded', { cause })
+    this.name = 'InvalidPhotoError'
+  }
+}
+
+interface MealPhotoItem {
+  name: string
+  grams: number
+  calories: number
+  proteinG: number
+  carbsG: number
+  fatG: number
+  /** 0-1，模型对识别结果的把握 */
+  confidence: number
+  /** 匹配到内置成分表时的食物 ID，营养数据按表计算 */
+  foodId?: string
+}
+
+interface MealPhotoAnalysis {
+  photoUrl: string
+  items: MealPhotoItem[]
+  note?: string
+}
+
+/**
+ * 自动旋转、缩放并转为 JPEG，去掉 EXIF 中的位置等信息
+ * 文件损坏或不是图片时抛出 InvalidPhotoError
+ */
+async function resizeMealPhoto(data: Buffer): Promise<Buffer> {
+  try {
+    return await sharp(data)
+      .rotate()
+      .resize(MAX_PHOTO_EDGE, MAX_PHOTO_EDGE, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80 })
+      .toBuffer()
+  } catch (error) {
+    throw new InvalidPhotoError(error)
+  }
+}
+
+const VISION_PROMPT = `你是营养师，请识别照片中的食物并估算份量。
+只输出一个 JSON 对象：
+{"items": [{"name": "米饭", "grams": 150, "calories": 174, "proteinG": 3.9, "carbsG": 38.9, "fatG": 0.5, "confidence": 0.8}], "note": "一句话说明"}
+- name 用常见中文菜名或食材名，一道菜写一项，不要拆成调料
+- grams 为照片中实际份量的估算克数，参考餐具大小
+- calories 和宏量营养素按估算份量计算
+- confidence 为 0-1，看不清或被遮挡时调低
+- 照片里没有食物时 items 为空数组，并在 note 中说明`
+
+/**
+ * 用内置成分表替换模型估算的营养数据
+ */
+function enrichItem(item: z.infer<typeof visionResultSchema>['items'][number]): MealPhotoItem {
+  const [match] = searchFoods(item.name, { limit: 1 })
+
+  if (!match || match.score < FOOD_MATCH_MIN_SCORE) {
+    return { ...item, calories: Math.round(item.calories) }
+  }
+
+  return {
+    ...item,
+    ...calculateNutrition(match.food, item.grams),
+    foodId: match.food.id
+  }
+}
+
+/**
+ * 调用视觉模型识别照片中的食物
+ */
+async function identifyFoods(provider: LLMProvider, imageDataUrl: string, signal?: AbortSignal): Promise<Omit<MealPhotoAnalysis, 'photoUrl'>> {
+  const response = await provider.chatCompletion({
+    messages: [
+      { role: 'system', content: VISION_PROMPT },
+      {
+        role: 'user',
+        content: [
+          { type: 'image_url', image_url: { url: imageDataUrl } },
+          { type: 'text', text: '这餐吃了什么？' }
+        ]
+      }
+    ],
+    temperature: 0.2,
+    max_tokens: 800,
+    thinking: { type: 'disabled' },
+    response_format: { type: 'json_object' }
+  }, { signal })
+
+  const content = response.choices?.[0]?.message.content
+  const text = typeof content === 'string' ? content.trim().replace(/^```(?:json)?\s*|\s*```$/g, '') : ''
+
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Vision response is not valid JSON')
+  }
+
+  const parsed = visionResultSchema.parse(data)
+  return { items: parsed.items.map(enrichItem), note: parsed.note }
+}
+
+/**
+ * 压缩并保存照片，然后识别其中的食物
+ */
+async function analyzeMealPhoto(provider: LLMProvider, upload: Buffer, signal?: AbortSignal): Promise<MealPhotoAnalysis> {
+  const photo = await resizeMealPhoto(upload)
+  const { name, url } = await saveFile(photo, 'jpg')
+  const result = await identifyFoods(provider, `data:image/jpeg;base64,${photo.toString('base64')}`, signal)
+  await saveFileMetadata(name, result)
+
+  return { photoUrl: url, ...result }
+}
+
+/**
+ * 读取照片保存时的识别结果，不是上传的餐食照片或没有识别结果时返回 null
+ */
+async function loadMealPhotoAnalysis(photoUrl: string): Promise<MealPhotoAnalysis | null> {
+  const name = fileNameFromUrl(photoUrl)
+  const parsed = storedAnalysisSchema.safeParse(name ? await readFileMetadata(name) : null)
+  return parsed.success ? { photoUrl, ...parsed.data } : null
+}
+
+/**
+ * 把照片识别结果写进系统提示，代替把照片再发给模型
+ */
+function formatMealPhotoPrompt(analyses: MealPhotoAnalysis[]): string {
+  const lines = analyses.flatMap(analysis => {
+    if (analysis.items.length === 0) {
+      return [`- 照片中没有识别出食物${analysis.note ? `（${analysis.note}）` : ''}`]
+    }
+
+    return analysis.items.map(item =>
+      `- ${item.name} 约${Math.round(item.grams)}g，${Math.round(item.calories)}kcal，蛋白质${item.proteinG}g，碳水${item.carbsG}g，脂肪${item.fatG}g`
+    )
+  })
+
+  return `用户随消息上传了餐食照片，识别结果（份量为估算，用户可能还会修改）：\n${lines.join('\n')}`
+}
+
+export { InvalidPhotoError, MAX_PHOTO_BYTES, analyzeMealPhoto, formatMealPhotoPrompt, loadMealPhotoAnalysis, resizeMealPhoto }
+export type { MealPhotoAnalysis, MealPhotoItem }
@@ -0,0 +1,77 @@
+/**
+ * 饮食日记
+ * 条目以日期和餐次归档，营养数值按实际份量记录
+ */
+
+import { z } from 'zod'
+import { hourOfDay, isDateKey } from './dates'
+
+const mealSlots = {
+  breakfast: '早餐',
+  lunch: '午餐',
+  dinner: '晚餐',
+  snack: '加餐'
+} as const
+
+type MealSlot = keyof typeof mealSlots
+
+const mealSlotSchema = z.enum(['breakfast', 'lunch', 'dinner', 'snack'])
+
+const mealUnits = ['g', 'ml', '份', '碗', '个', '杯', '片'] as const
+
+const mealEntrySchema = z.object({
+  date: z.string().refine(isDateKey, '日期格式应为 YYYY-MM-DD'),
+  slot: mealSlotSchema,
+  name: z.string().trim().min(1, '请输入食物名称').max(100),
+  portion: z.coerce.number().positive('份量需大于 0').max(10000),
+  unit: z.string().trim().min(1).max(10),
+  calories: z.coerce.number().min(0).max(10000),
+  proteinG: z.coerce.number().min(0).max(1000).default(0),
+  carbsG: z.coerce.number().min(0).max(1000).default(0),
+  fatG: z.coerce.number().min(0).max(1000).default(0)
+})
+
+type NewMealEntry = z.infer<typeof mealEntrySchema>
+
+interface MealEntry extends NewMealEntry {
+  id: string
+  createdAt: string
+}
+
+/** 收藏的一餐，保存条目模板（不含日期和餐次） */
+interface FavoriteMeal {
+  id: string
+  name: string
+  items: Array<Omit<NewMealEntry, 'date' | 'slot'>>
+  createdAt: string
+}
+
+interface NutritionTotals {
+  calories: number
+  proteinG: number
+  carbsG: number
+  fatG: number
+}
+
+function sumNutrition(entries: Array<Pick<NewMealEntry, 'calories' | 'proteinG' | 'carbsG' | 'fatG'>>): NutritionTotals {
+  return entries.reduce<NutritionTotals>((totals, entry) => ({
+    calories: totals.calories + entry.calories,
+    proteinG: totals.proteinG + entry.proteinG,
+    carbsG: totals.carbsG + entry.carbsG,
+    fatG: totals.fatG + entry.fatG
+  }), { calories: 0, proteinG: 0, carbsG: 0, fatG: 0 })
+}
+
+/**
+ * 按当前时间推测餐次，用于拍照或对话记录时的默认值，服务端按 APP_TIME_ZONE 取小时
+ */
+function guessMealSlot(date: Date = new Date()): MealSlot {
+  const hour = hourOfDay(date)
+  if (hour >= 5 && hour < 10) return 'breakfast'
+  if (hour >= 10 && hour < 14) return 'lunch'
+  if (hour >= 17 && hour < 21) return 'dinner'
+  return 'snack'
+}
+
+export { guessMealSlot, mealEntrySchema, mealSlotSchema, mealSlots, mealUnits, sumNutrition }
+export type { FavoriteMeal, MealEntry, MealSlot, NewMealEntry, NutritionTotals }
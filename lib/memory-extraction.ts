@@ -0,0 +1,131 @@
+/**
+ * 长期记忆提取
+ * 每轮对话后用模型从用户消息中找出值得长期记住的事实，和已有记忆比较后新增或删除过时的条目
+ */
+
+import { z } from 'zod'
+import type { LLMProvider, RequestOptions } from './llm'
+import { storage } from './storage'
+import { MAX_MEMORY_FACTS, memoryCategories, memoryFactSchema, normalizeFact, type MemoryFact, type NewMemoryFact } from './user-memory'
+
+/** 提取在回复之后进行，不阻塞聊天，超时放宽一些 */
+const MEMORY_TIMEOUT_MS = 15000
+
+// 粗筛：完全没有提到偏好、过敏、伤病或作息的消息不调用模型
+const MEMORY_HINT_PATTERN = /素|荤|不吃|不喝|忌口|喜欢|爱吃|讨厌|过敏|乳糖|麸质|清真|伤|疼|痛|扭|骨折|手术|膝|腰|肩|颈|上班|下班|加班|夜班|倒班|早起|熬夜|睡|通勤|周末|每天|每周|早上|晚上|中午|健身房|vegetarian|vegan|allerg|intoleran|gluten|lactose|halal|kosher|injur|hurt|pain|sore|surgery|knee|back|shoulder|shift|schedule|morning|evening|night|weekend|every day|prefer|love|hate|don't eat|can't eat/i
+
+/** 每轮最多新增和删除的条数 */
+const MAX_ADDITIONS = 5
+const MAX_REMOVALS = 10
+
+// 逐条校验，一条不合规只丢掉这一条
+const memoryUpdateSchema = z.object({
+  add: z.array(z.unknown()).catch([]),
+  remove: z.array(z.unknown()).catch([])
+})
+
+interface MemoryUpdate {
+  add: NewMemoryFact[]
+  /** 需要删除的已有记忆 ID */
+  remove: string[]
+}
+
+function buildMemoryPrompt(existing: MemoryFact[]): string {
+  const categories = Object.entries(memoryCategories).map(([key, label]) => `${key}（${label}）`).join('、')
+  const known = existing.length > 0
+    ? existing.map(fact => `- [${fact.id}] ${fact.category}：${fact.content}`).join('\n')
+    : '（暂无）'
+
+  return `你负责维护减肥助手对用户的长期记忆。根据用户的最新消息，只输出一个 JSON 对象：
+{"add": [{"category": "preference", "content": "素食，不吃肉"}], "remove": ["已有记忆的 ID"]}
+- 类别只能是：${categories}
+- 只记录用户明确说出、以后仍然成立的事实，例如饮食偏好和忌口、过敏、伤病、工作和作息时间；一次性的饮食记录和情绪不记录
+- content 用简短的中文第三人称描述，不超过 30 字
+- 已有记忆里已经包含的不要重复添加
+- 用户说明情况变了（例如「我现在不吃素了」「膝盖已经好了」）时，把过时记忆的 ID 放进 remove，需要时再添加新的
+- 没有需要修改的内容时两个数组都为空
+
+已有记忆：
+${known}`
+}
+
+/**
+ * 从一条用户消息中提取记忆变更，没有值得记的内容或模型不可用时返回空变更
+ */
+async function extractMemoryUpdate(
+  provider: LLMProvider,
+  message: string,
+  existing: MemoryFact[],
+  options: RequestOptions = {}
+): Promise<MemoryUpdate> {
+  const empty: MemoryUpdate = { add: [], remove: [] }
+  const status = provider.getStatus()
+
+  if (!MEMORY_HINT_PATTERN.test(message) || !status.configured || status.circuit === 'open') {
+    return empty
+  }
+
+  try {
+    const response = await provider.chatCompletion({
+      messages: [
+        { role: 'system', content: buildMemoryPrompt(existing) },
+        { role: 'user', content: message }
+      ],
+      temperature: 0,
+      max_tokens: 300,
+      thinking: { type: 'disabled' },
+      response_format: { type: 'json_object' }
+    }, { signal: options.signal, timeoutMs: options.timeoutMs ?? MEMORY_TIMEOUT_MS })
+
+    const content = response.choices?.[0]?.message.content
+    const raw = typeof content === 'string' ? content.trim().replace(/^```(?:json)?\s*|\s*```$/g, '') : ''
+    const parsed = memoryUpdateSchema.parse(JSON.parse(raw))
+    const existingIds = new Set(existing.map(fact => fact.id))
+    const add = parsed.add.flatMap(item => {
+      const fact = memoryFactSchema.safeParse(item)
+      if (!fact.success) {
+        console.warn('记忆未通过校验，已忽略:', JSON.stringify(item))
+        return []
+      }
+      return [fact.data]
+    })
+
+    return {
+      add: add.slice(0, MAX_ADDITIONS),
+      remove: parsed.remove
+        .filter((id): id is string => typeof id === 'string' && existingIds.has(id))
+        .slice(0, MAX_REMOVALS)
+    }
+  } catch (error) {
+    console.warn('记忆提取失败:', error instanceof Error ? error.message : error)
+    return empty
+  }
+}
+
+/**
+ * 提取并保存用户消息中的记忆，重复的内容和超出上限的条目会被丢弃
+ */
+async function rememberFromMessage(provider: LLMProvider, userId: string, message: string): Promise<MemoryFact[]> {
+  const existing = await storage.facts.listFacts(userId)
+  const update = await extractMemoryUpdate(provider, message, existing)
+
+  for (const id of update.remove) {
+    await storage.facts.deleteFact(userId, id)
+  }
+
+  const kept = existing.filter(fact => !update.remove.includes(fact.id))
+  const seen = new Set(kept.map(fact => `${fact.category}:${normalizeFact(fact.content)}`))
+  const additions = update.add
+    .filter(fact => {
+      const key = `${fact.category}:${normalizeFact(fact.content)}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .slice(0, Math.max(0, MAX_MEMORY_FACTS - kept.length))
+
+  return additions.length > 0 ? storage.facts.addFacts(userId, additions, 'extracted') : []
+}
+
+export { extractMemoryUpdate, rememberFromMessage }
+export type { MemoryUpdate }
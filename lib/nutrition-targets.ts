@@ -0,0 +1,52 @@
+/**
+ * 每日热量与营养素目标
+ * 基础代谢使用 Mifflin-St Jeor 公式，再乘以活动系数得到静态 TDEE
+ */
+
+import type { NutritionTotals } from './meals'
+import type { UserProfile } from './profile'
+
+const activityFactors: Record<UserProfile['activityLevel'], number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  very_active: 1.9
+}
+
+/** 按目标调整的每日热量差 */
+const goalCalorieAdjustments: Record<UserProfile['goal'], number> = {
+  lose: -500,
+  maintain: 0,
+  gain: 300
+}
+
+/** 安全下限，低于此值需要医生指导 */
+const MIN_CALORIES: Record<UserProfile['sex'], number> = {
+  male: 1500,
+  female: 1200
+}
+
+function mifflinStJeorBmr(profile: Pick<UserProfile, 'sex' | 'age' | 'heightCm' | 'weightKg'>): number {
+  const base = 10 * profile.weightKg + 6.25 * profile.heightCm - 5 * profile.age
+  return profile.sex === 'male' ? base + 5 : base - 161
+}
+
+function estimateStaticTdee(profile: UserProfile): number {
+  return mifflinStJeorBmr(profile) * activityFactors[profile.activityLevel]
+}
+
+/**
+ * 计算每日目标：热量按目标加减后不低于安全下限，蛋白质按体重，脂肪约占 25%，其余为碳水
+ * 传入 tdee 时使用该值代替静态估算
+ */
+function calculateDailyTargets(profile: UserProfile, tdee = estimateStaticTdee(profile)): NutritionTotals {
+  const calories = Math.max(Math.round(tdee + goalCalorieAdjustments[profile.goal]), MIN_CALORIES[profile.sex])
+  const proteinG = Math.round(profile.weightKg * (profile.goal === 'maintain' ? 1.2 : 1.6))
+  const fatG = Math.round((calories * 0.25) / 9)
+  const carbsG = Math.max(Math.round((calories - proteinG * 4 - fatG * 9) / 4), 0)
+
+  return { calories, proteinG, carbsG, fatG }
+}
+
+export { activityFactors, calculateDailyTargets, estimateStaticTdee, mifflinStJeorBmr }
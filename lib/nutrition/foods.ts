@@ -0,0 +1,132 @@
+/**
+ * 内置食物成分表
+ * 数值参考《中国食物成分表》和 USDA FoodData Central 整理，菜肴按常见家常做法估算，仅供记录参考
+ */
+
+import type { Food, FoodCategory, ServingSize } from './types'
+
+/**
+ * 营养数值顺序：
+ * [热量 kcal, 蛋白质 g, 碳水 g, 脂肪 g, 膳食纤维 g, 钠 mg, 钾 mg, 钙 mg, 铁 mg, 维生素 C mg]
+ */
+type NutrientTuple = [number, number, number, number, number, number, number, number, number, number]
+
+function food(
+  id: string,
+  nameZh: string,
+  pinyin: string,
+  nameEn: string,
+  category: FoodCategory,
+  nutrients: NutrientTuple,
+  servings: ServingSize[],
+  aliases: string[] = []
+): Food {
+  const [calories, proteinG, carbsG, fatG, fiberG, sodiumMg, potassiumMg, calciumMg, ironMg, vitaminCMg] = nutrients
+
+  return {
+    id,
+    nameZh,
+    nameEn,
+    pinyin,
+    aliases,
+    category,
+    per100g: { calories, proteinG, carbsG, fatG, fiberG, sodiumMg, potassiumMg, calciumMg, ironMg, vitaminCMg },
+    servings
+  }
+}
+
+const foods: Food[] = [
+  // 主食
+  food('rice', '米饭', 'mi fan', 'Steamed rice', 'staple', [116, 2.6, 25.9, 0.3, 0.3, 2, 30, 7, 1.3, 0], [{ label: '一碗', grams: 150 }, { label: '一小碗', grams: 100 }], ['白米饭', '大米饭', '白饭']),
+  food('brown-rice', '糙米饭', 'cao mi fan', 'Brown rice', 'staple', [123, 2.7, 25.6, 1.0, 1.6, 4, 86, 10, 0.6, 0], [{ label: '一碗', grams: 150 }]),
+  food('congee', '白粥', 'bai zhou', 'Rice congee', 'staple', [46, 1.1, 9.9, 0.3, 0.1, 7, 13, 7, 0.1, 0], [{ label: '一碗', grams: 250 }], ['稀饭', '大米粥', '粥']),
+  food('mantou', '馒头', 'man tou', 'Steamed bun', 'staple', [223, 7.0, 47.0, 1.1, 1.3, 165, 138, 38, 1.8, 0], [{ label: '一个', grams: 100 }], ['白馒头']),
+  food('noodles', '面条', 'mian tiao', 'Boiled noodles', 'staple', [110, 3.9, 24.3, 0.4, 0.8, 60, 40, 10, 0.9, 0], [{ label: '一碗', grams: 250 }], ['煮面条', '挂面']),
+  food('jiaozi', '饺子', 'jiao zi', 'Dumplings', 'staple', [220, 9.0, 25.0, 9.5, 1.2, 420, 150, 25, 1.5, 2], [{ label: '一个', grams: 25 }, { label: '十个', grams: 250 }], ['水饺', '猪肉白菜饺子', 'dumpling']),
+  food('baozi', '肉包子', 'rou bao zi', 'Pork bun', 'staple', [227, 8.0, 30.0, 8.2, 1.1, 380, 140, 20, 1.3, 0], [{ label: '一个', grams: 80 }], ['包子', '肉包']),
+  food('xiaolongbao', '小笼包', 'xiao long bao', 'Soup dumplings', 'staple', [230, 9.0, 26.0, 10.0, 1.0, 450, 150, 20, 1.2, 0], [{ label: '一个', grams: 25 }, { label: '一笼', grams: 200 }]),
+  food('youtiao', '油条', 'you tiao', 'Fried dough stick', 'staple', [388, 6.9, 51.0, 17.6, 0.9, 585, 227, 6, 1.0, 0], [{ label: '一根', grams: 60 }]),
+  food('jianbing', '煎饼果子', 'jian bing guo zi', 'Jianbing crepe', 'staple', [250, 8.0, 32.0, 10.0, 1.5, 520, 160, 40, 2.0, 1], [{ label: '一个', grams: 200 }], ['煎饼']),
+  food('zongzi', '粽子', 'zong zi', 'Sticky rice dumpling', 'staple', [195, 4.0, 38.0, 3.0, 0.8, 200, 60, 10, 0.8, 0], [{ label: '一个', grams: 150 }]),
+  food('fried-rice', '蛋炒饭', 'dan chao fan', 'Egg fried rice', 'staple', [180, 5.0, 27.0, 6.0, 0.6, 380, 70, 15, 0.9, 1], [{ label: '一份', grams: 300 }], ['炒饭']),
+  food('chow-mein', '炒面', 'chao mian', 'Fried noodles', 'staple', [170, 5.0, 24.0, 6.0, 1.2, 450, 90, 15, 1.0, 2], [{ label: '一份', grams: 300 }]),
+  food('beef-noodle-soup', '牛肉面', 'niu rou mian', 'Beef noodle soup', 'staple', [100, 6.0, 14.0, 2.2, 0.6, 380, 90, 12, 0.9, 1], [{ label: '一碗', grams: 500 }], ['兰州拉面', '拉面']),
+  food('oatmeal', '燕麦片', 'yan mai pian', 'Rolled oats', 'staple', [367, 15.0, 61.6, 6.7, 10.0, 4, 214, 186, 7.0, 0], [{ label: '一份', grams: 40 }], ['燕麦', 'oats']),
+  food('wholewheat-bread', '全麦面包', 'quan mai mian bao', 'Whole wheat bread', 'staple', [247, 13.0, 41.0, 3.4, 7.0, 450, 250, 161, 2.5, 0], [{ label: '一片', grams: 35 }]),
+  food('white-bread', '吐司', 'tu si', 'White bread', 'staple', [265, 9.0, 49.0, 3.2, 2.7, 490, 115, 260, 3.6, 0], [{ label: '一片', grams: 30 }], ['白面包', '面包', 'toast']),
+  food('sweet-potato', '红薯', 'hong shu', 'Sweet potato', 'staple', [90, 1.6, 20.7, 0.1, 3.3, 36, 475, 38, 0.7, 13], [{ label: '一个', grams: 200 }], ['地瓜', '番薯']),
+  food('corn', '玉米', 'yu mi', 'Sweet corn', 'staple', [96, 3.4, 21.0, 1.5, 2.4, 15, 218, 3, 0.5, 6], [{ label: '一根', grams: 200 }], ['玉米棒']),
+  food('potato', '土豆', 'tu dou', 'Potato', 'staple', [87, 1.9, 20.1, 0.1, 1.8, 5, 379, 5, 0.3, 13], [{ label: '一个', grams: 150 }], ['马铃薯']),
+  food('pasta', '意大利面', 'yi da li mian', 'Pasta', 'staple', [158, 5.8, 31.0, 0.9, 1.8, 1, 44, 7, 0.5, 0], [{ label: '一份', grams: 200 }], ['意面', 'spaghetti']),
+  food('bagel', '贝果', 'bei guo', 'Bagel', 'staple', [257, 10.0, 50.0, 1.6, 2.3, 430, 100, 20, 3.5, 0], [{ label: '一个', grams: 100 }]),
+
+  // 菜肴
+  food('hongshaorou', '红烧肉', 'hong shao rou', 'Red braised pork belly', 'dish', [380, 12.0, 8.0, 33.0, 0.2, 700, 180, 10, 1.2, 0], [{ label: '一份', grams: 150 }, { label: '一块', grams: 30 }], ['东坡肉']),
+  food('kung-pao-chicken', '宫保鸡丁', 'gong bao ji ding', 'Kung pao chicken', 'dish', [200, 15.0, 9.0, 12.0, 1.5, 650, 280, 25, 1.3, 5], [{ label: '一份', grams: 200 }], ['宫爆鸡丁']),
+  food('yuxiang-pork', '鱼香肉丝', 'yu xiang rou si', 'Yuxiang shredded pork', 'dish', [190, 10.0, 10.0, 12.0, 1.3, 700, 230, 15, 1.2, 6], [{ label: '一份', grams: 200 }]),
+  food('mapo-tofu', '麻婆豆腐', 'ma po dou fu', 'Mapo tofu', 'dish', [130, 7.0, 4.0, 10.0, 0.6, 600, 150, 120, 1.6, 1], [{ label: '一份', grams: 200 }]),
+  food('tomato-egg', '番茄炒蛋', 'fan qie chao dan', 'Tomato and egg stir-fry', 'dish', [95, 5.0, 4.0, 7.0, 0.6, 300, 180, 25, 0.9, 10], [{ label: '一份', grams: 200 }], ['西红柿炒鸡蛋', '西红柿炒蛋']),
+  food('pepper-pork', '青椒肉丝', 'qing jiao rou si', 'Pork with green pepper', 'dish', [150, 10.0, 5.0, 10.0, 1.2, 550, 220, 12, 1.1, 30], [{ label: '一份', grams: 200 }]),
+  food('stir-fried-greens', '炒青菜', 'chao qing cai', 'Stir-fried greens', 'dish', [60, 1.5, 3.5, 4.5, 1.5, 300, 200, 90, 1.2, 25], [{ label: '一份', grams: 200 }], ['清炒时蔬', '炒小白菜', '蒜蓉青菜']),
+  food('sweet-sour-pork', '糖醋里脊', 'tang cu li ji', 'Sweet and sour pork', 'dish', [260, 12.0, 25.0, 12.0, 0.3, 400, 200, 10, 1.0, 2], [{ label: '一份', grams: 200 }]),
+  food('twice-cooked-pork', '回锅肉', 'hui guo rou', 'Twice-cooked pork', 'dish', [350, 12.0, 5.0, 31.0, 1.0, 750, 200, 15, 1.3, 10], [{ label: '一份', grams: 200 }]),
+  food('boiled-fish', '水煮鱼', 'shui zhu yu', 'Sichuan boiled fish', 'dish', [140, 13.0, 2.0, 9.0, 0.5, 700, 250, 30, 1.0, 2], [{ label: '一份', grams: 300 }]),
+  food('steamed-fish', '清蒸鱼', 'qing zheng yu', 'Steamed fish', 'dish', [110, 18.0, 1.0, 4.0, 0, 350, 300, 40, 0.8, 1], [{ label: '一份', grams: 200 }], ['清蒸鲈鱼']),
+  food('white-cut-chicken', '白切鸡', 'bai qie ji', 'White cut chicken', 'dish', [180, 20.0, 0, 11.0, 0, 250, 220, 10, 1.0, 0], [{ label: '一份', grams: 150 }], ['白斩鸡']),
+  food('peking-duck', '北京烤鸭', 'bei jing kao ya', 'Peking duck', 'dish', [436, 16.6, 6.0, 38.4, 0, 83, 247, 35, 2.4, 0], [{ label: '一份', grams: 150 }], ['烤鸭']),
+  food('malatang', '麻辣烫', 'ma la tang', 'Malatang', 'dish', [90, 5.0, 8.0, 4.5, 1.5, 550, 180, 40, 1.2, 8], [{ label: '一碗', grams: 500 }]),
+  food('salad', '蔬菜沙拉', 'shu cai sha la', 'Garden salad with dressing', 'dish', [80, 1.5, 5.0, 6.0, 1.8, 180, 220, 30, 0.8, 15], [{ label: '一份', grams: 200 }], ['沙拉']),
+
+  // 肉蛋奶豆
+  food('egg', '鸡蛋', 'ji dan', 'Egg', 'protein', [144, 13.3, 2.8, 8.8, 0, 131, 154, 56, 2.0, 0], [{ label: '一个', grams: 50 }], ['水煮蛋', '煮鸡蛋', '蛋']),
+  food('chicken-breast', '鸡胸肉', 'ji xiong rou', 'Chicken breast', 'protein', [165, 31.0, 0, 3.6, 0, 74, 256, 15, 1.0, 0], [{ label: '一块', grams: 120 }], ['鸡胸', '鸡肉']),
+  food('lean-beef', '瘦牛肉', 'shou niu rou', 'Lean beef', 'protein', [170, 28.0, 0, 6.0, 0, 65, 330, 10, 2.8, 0], [{ label: '一份', grams: 100 }], ['牛肉']),
+  food('pork-tenderloin', '猪里脊', 'zhu li ji', 'Pork tenderloin', 'protein', [155, 20.2, 0.7, 7.9, 0, 44, 317, 6, 1.5, 0], [{ label: '一份', grams: 100 }], ['猪肉', '瘦猪肉']),
+  food('salmon', '三文鱼', 'san wen yu', 'Salmon', 'protein', [139, 17.2, 0, 7.8, 0, 63, 361, 13, 0.3, 0], [{ label: '一块', grams: 100 }], ['鲑鱼']),
+  food('shrimp', '虾', 'xia', 'Shrimp', 'protein', [93, 18.6, 2.8, 0.8, 0, 302, 215, 62, 1.5, 0], [{ label: '一份', grams: 100 }], ['虾仁', '白灼虾']),
+  food('tofu', '豆腐', 'dou fu', 'Tofu', 'protein', [82, 8.1, 4.2, 3.7, 0.4, 7, 125, 164, 1.9, 0], [{ label: '一块', grams: 100 }]),
+  food('soy-milk', '豆浆', 'dou jiang', 'Soy milk', 'protein', [31, 3.0, 1.2, 1.6, 0.6, 3, 117, 10, 0.5, 0], [{ label: '一杯', grams: 250 }], ['无糖豆浆']),
+  food('milk', '牛奶', 'niu nai', 'Milk', 'protein', [54, 3.0, 3.4, 3.2, 0, 37, 109, 104, 0.3, 1], [{ label: '一杯', grams: 250 }], ['纯牛奶']),
+  food('yogurt', '酸奶', 'suan nai', 'Yogurt', 'protein', [72, 2.5, 9.3, 2.7, 0, 39, 150, 118, 0.4, 1], [{ label: '一杯', grams: 200 }]),
+  food('greek-yogurt', '希腊酸奶', 'xi la suan nai', 'Greek yogurt', 'protein', [97, 9.0, 3.9, 5.0, 0, 35, 141, 100, 0.1, 0], [{ label: '一杯', grams: 170 }]),
+  food('protein-powder', '蛋白粉', 'dan bai fen', 'Whey protein powder', 'protein', [380, 78.0, 8.0, 4.0, 0, 200, 500, 450, 1.0, 0], [{ label: '一勺', grams: 30 }], ['乳清蛋白']),
+
+  // 蔬菜
+  food('broccoli', '西兰花', 'xi lan hua', 'Broccoli', 'vegetable', [34, 2.8, 7.0, 0.4, 2.6, 33, 316, 47, 0.7, 89], [{ label: '一份', grams: 150 }], ['西蓝花', '绿花菜']),
+  food('cucumber', '黄瓜', 'huang gua', 'Cucumber', 'vegetable', [16, 0.8, 2.9, 0.2, 0.5, 5, 102, 24, 0.5, 9], [{ label: '一根', grams: 200 }]),
+  food('tomato', '番茄', 'fan qie', 'Tomato', 'vegetable', [20, 0.9, 4.0, 0.2, 0.5, 5, 163, 10, 0.4, 19], [{ label: '一个', grams: 150 }], ['西红柿']),
+  food('lettuce', '生菜', 'sheng cai', 'Lettuce', 'vegetable', [15, 1.4, 2.9, 0.2, 1.3, 28, 194, 36, 0.9, 9], [{ label: '一份', grams: 100 }]),
+  food('spinach', '菠菜', 'bo cai', 'Spinach', 'vegetable', [28, 2.6, 4.5, 0.3, 1.7, 85, 311, 66, 2.9, 32], [{ label: '一份', grams: 150 }]),
+  food('bok-choy', '小白菜', 'xiao bai cai', 'Bok choy', 'vegetable', [15, 1.5, 2.7, 0.3, 1.1, 73, 178, 90, 1.9, 28], [{ label: '一份', grams: 150 }], ['青菜', '上海青']),
+
+  // 水果
+  food('apple', '苹果', 'ping guo', 'Apple', 'fruit', [53, 0.4, 13.7, 0.2, 1.7, 1, 107, 4, 0.3, 3], [{ label: '一个', grams: 200 }]),
+  food('banana', '香蕉', 'xiang jiao', 'Banana', 'fruit', [93, 1.4, 22.0, 0.2, 1.2, 1, 256, 7, 0.4, 8], [{ label: '一根', grams: 120 }]),
+  food('orange', '橙子', 'cheng zi', 'Orange', 'fruit', [48, 0.8, 11.1, 0.2, 0.6, 1, 159, 20, 0.4, 33], [{ label: '一个', grams: 180 }], ['橙', '橘子']),
+  food('grapes', '葡萄', 'pu tao', 'Grapes', 'fruit', [45, 0.5, 10.3, 0.2, 0.4, 1, 104, 5, 0.4, 25], [{ label: '一小串', grams: 150 }]),
+  food('watermelon', '西瓜', 'xi gua', 'Watermelon', 'fruit', [31, 0.5, 6.8, 0.1, 0.2, 3, 87, 7, 0.2, 6], [{ label: '一块', grams: 250 }]),
+  food('avocado', '牛油果', 'niu you guo', 'Avocado', 'fruit', [160, 2.0, 8.5, 14.7, 6.7, 7, 485, 12, 0.6, 10], [{ label: '半个', grams: 70 }], ['鳄梨']),
+
+  // 零食饮品
+  food('almonds', '杏仁', 'xing ren', 'Almonds', 'snack', [578, 21.0, 22.0, 50.0, 12.5, 1, 733, 269, 3.7, 0], [{ label: '一把', grams: 25 }], ['巴旦木']),
+  food('peanuts', '花生', 'hua sheng', 'Peanuts', 'snack', [567, 25.8, 16.1, 49.2, 8.5, 18, 705, 92, 4.6, 0], [{ label: '一把', grams: 25 }]),
+  food('chips', '薯片', 'shu pian', 'Potato chips', 'snack', [536, 7.0, 53.0, 35.0, 4.4, 525, 1275, 24, 1.6, 20], [{ label: '一包', grams: 70 }]),
+  food('chocolate', '巧克力', 'qiao ke li', 'Milk chocolate', 'snack', [546, 4.9, 61.0, 31.0, 3.4, 24, 559, 73, 2.4, 0], [{ label: '一块', grams: 25 }]),
+  food('milk-tea', '奶茶', 'nai cha', 'Bubble milk tea', 'snack', [70, 0.8, 12.0, 2.2, 0.2, 20, 50, 30, 0.1, 0], [{ label: '一杯', grams: 500 }], ['珍珠奶茶']),
+  food('cola', '可乐', 'ke le', 'Cola', 'snack', [43, 0, 10.6, 0, 0, 4, 2, 2, 0, 0], [{ label: '一罐', grams: 330 }], ['可口可乐', 'coke']),
+  food('beer', '啤酒', 'pi jiu', 'Beer', 'snack', [43, 0.5, 3.6, 0, 0, 4, 27, 4, 0, 0], [{ label: '一瓶', grams: 500 }, { label: '一罐', grams: 330 }]),
+
+  // 西式快餐
+  food('pizza', '披萨', 'pi sa', 'Pizza', 'western', [266, 11.0, 33.0, 10.0, 2.3, 598, 172, 188, 2.5, 1], [{ label: '一块', grams: 110 }], ['比萨']),
+  food('hamburger', '汉堡', 'han bao', 'Hamburger', 'western', [254, 13.0, 30.0, 9.0, 1.5, 480, 220, 60, 2.4, 1], [{ label: '一个', grams: 200 }], ['汉堡包', 'burger']),
+  food('fries', '薯条', 'shu tiao', 'French fries', 'western', [312, 3.4, 41.0, 15.0, 3.8, 210, 579, 18, 0.8, 5], [{ label: '中份', grams: 117 }, { label: '小份', grams: 71 }]),
+  food('fried-chicken', '炸鸡', 'zha ji', 'Fried chicken', 'western', [260, 19.0, 10.0, 16.0, 0.4, 520, 230, 20, 1.0, 0], [{ label: '一块', grams: 100 }], ['炸鸡腿', '鸡翅']),
+  food('steak', '牛排', 'niu pai', 'Beef steak', 'western', [250, 26.0, 0, 15.0, 0, 60, 320, 12, 2.6, 0], [{ label: '一块', grams: 200 }]),
+  food('sandwich', '三明治', 'san ming zhi', 'Sandwich', 'western', [230, 11.0, 28.0, 8.0, 2.0, 550, 200, 80, 2.0, 3], [{ label: '一个', grams: 150 }]),
+
+  // 油脂调料
+  food('olive-oil', '橄榄油', 'gan lan you', 'Olive oil', 'condiment', [884, 0, 0, 100.0, 0, 2, 1, 1, 0.6, 0], [{ label: '一汤匙', grams: 13 }], ['食用油', '植物油']),
+  food('peanut-butter', '花生酱', 'hua sheng jiang', 'Peanut butter', 'condiment', [588, 25.0, 20.0, 50.0, 6.0, 459, 649, 43, 1.9, 0], [{ label: '一汤匙', grams: 16 }])
+]
+
+export { foods }
@@ -0,0 +1,10 @@
+/**
+ * 本地营养数据库
+ * 离线可用，Meal 页面和聊天共用
+ */
+
+export { foods } from './foods'
+export { foodCategories } from './types'
+export { calculateNutrition, findFoodsInText, formatFoodReference, getFood, searchFoods } from './search'
+export type { Food, FoodCategory, NutrientsPer100g, ServingSize } from './types'
+export type { FoodSearchOptions, FoodSearchResult } from './search'
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { calculateNutrition, findFoodsInText, formatFoodReference, getFood, searchFoods } from './search'
+
+const topId = (query: string) => searchFoods(query, { limit: 1 })[0]?.food.id
+
+describe('searchFoods', () => {
+  it('支持中文名、别名、英文名和拼音', () => {
+    expect(topId('米饭')).toBe('rice')
+    expect(topId('西红柿炒鸡蛋')).toBe('tomato-egg')
+    expect(topId('Broccoli')).toBe('broccoli')
+    expect(topId('mifan')).toBe('rice')
+    expect(topId('jxr')).toBe('chicken-breast')
+  })
+
+  it('容忍英文拼写错误和中文缺字', () => {
+    expect(topId('brocoli')).toBe('broccoli')
+    expect(topId('番茄蛋')).toBe('tomato-egg')
+  })
+
+  it('完全匹配排在部分匹配前面', () => {
+    const [first, second] = searchFoods('番茄')
+    expect(first.food.id).toBe('tomato')
+    expect(first.score).toBeGreaterThan(second.score)
+  })
+
+  it('按分类过滤，空查询返回空数组', () => {
+    expect(searchFoods('鸡', { category: 'protein' }).every(result => result.food.category === 'protein')).toBe(true)
+    expect(searchFoods('  ')).toEqual([])
+  })
+})
+
+describe('findFoodsInText', () => {
+  it('较长的名称优先，不重复命中其中的食材', () => {
+    expect(findFoodsInText('中午吃了番茄炒蛋和一碗米饭').map(food => food.id)).toEqual(['tomato-egg', 'rice'])
+  })
+
+  it('英文按整词匹配', () => {
+    expect(findFoodsInText('I ate an apple').map(food => food.id)).toEqual(['apple'])
+    expect(findFoodsInText('pineapple juice').map(food => food.id)).not.toContain('apple')
+  })
+})
+
+describe('calculateNutrition', () => {
+  it('按克数换算，热量取整，营养素保留一位小数', () => {
+    expect(calculateNutrition(getFood('rice')!, 200)).toEqual({ calories: 232, proteinG: 5.2, carbsG: 51.8, fatG: 0.6 })
+  })
+})
+
+describe('formatFoodReference', () => {
+  it('列出每 100g 的营养和常见份量', () => {
+    expect(formatFoodReference([getFood('rice')!])).toContain('米饭：每100g 116kcal，蛋白质2.6g，碳水25.9g，脂肪0.3g（一碗约150g、一小碗约100g）')
+  })
+})
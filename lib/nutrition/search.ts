@@ -0,0 +1,197 @@
+/**
+ * 食物搜索
+ * 支持中文名、别名、英文名和拼音（全拼或首字母）模糊匹配，按匹配程度排序
+ */
+
+import type { NutritionTotals } from '../meals'
+import { foods } from './foods'
+import type { Food, FoodCategory } from './types'
+
+interface FoodSearchOptions {
+  limit?: number
+  category?: FoodCategory
+}
+
+interface FoodSearchResult {
+  food: Food
+  score: number
+}
+
+interface FoodIndexEntry {
+  food: Food
+  /** 归一化后的中英文名和别名 */
+  names: string[]
+  pinyin: string
+  initials: string
+  /** 英文名和英文别名拆出的单词，用于容错匹配 */
+  words: string[]
+}
+
+const LATIN_PATTERN = /^[a-z]+$/
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[\s'’\-_,，.。]/g, '')
+}
+
+const foodIndex: FoodIndexEntry[] = foods.map(food => {
+  const syllables = food.pinyin.split(/\s+/)
+  const allNames = [food.nameZh, food.nameEn, ...food.aliases]
+
+  return {
+    food,
+    names: allNames.map(normalize),
+    pinyin: syllables.join(''),
+    initials: syllables.map(syllable => syllable[0]).join(''),
+    words: allNames.flatMap(name => name.toLowerCase().split(/[\s-]+/)).filter(word => LATIN_PATTERN.test(word))
+  }
+})
+
+const foodsById = new Map(foods.map(food => [food.id, food]))
+
+/**
+ * 判断 query 的字符是否按顺序出现在 target 中，例如「番茄蛋」匹配「番茄炒蛋」
+ */
+function isSubsequence(query: string, target: string): boolean {
+  let index = 0
+  for (const char of target) {
+    if (char === query[index]) index++
+    if (index === query.length) return true
+  }
+  return false
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+/**
+ * 计算匹配分数，0 表示不匹配
+ */
+function scoreEntry(entry: FoodIndexEntry, query: string): number {
+  if (entry.names.includes(query)) return 100
+  if (entry.pinyin === query) return 95
+  if (entry.words.includes(query)) return 85
+  if (entry.names.some(name => name.startsWith(query))) return 80
+
+  const isLatin = LATIN_PATTERN.test(query)
+  if (isLatin) {
+    if (query.length >= 2 && entry.pinyin.startsWith(query)) return 75
+    if (query.length >= 2 && entry.initials === query) return 70
+    if (query.length >= 2 && entry.initials.startsWith(query)) return 50
+  }
+
+  if (entry.names.some(name => name.includes(query))) return 60
+  if (isLatin && query.length >= 3 && entry.pinyin.includes(query)) return 45
+
+  // 拼写容错：较长的英文单词允许一到两个字符的差异
+  if (isLatin && query.length >= 4) {
+    const tolerance = query.length >= 7 ? 2 : 1
+    if (entry.words.some(word => levenshtein(word, query) <= tolerance)) return 40
+  }
+
+  if (!isLatin && query.length >= 2 && entry.names.some(name => isSubsequence(query, name))) return 35
+
+  return 0
+}
+
+function searchFoods(query: string, options: FoodSearchOptions = {}): FoodSearchResult[] {
+  const { limit = 10, category } = options
+  const normalized = normalize(query)
+
+  if (!normalized) return []
+
+  return foodIndex
+    .filter(entry => !category || entry.food.category === category)
+    .map(entry => ({ food: entry.food, score: scoreEntry(entry, normalized) }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.food.nameZh.length - b.food.nameZh.length)
+    .slice(0, limit)
+}
+
+function getFood(id: string): Food | null {
+  return foodsById.get(id) || null
+}
+
+/**
+ * 找出一段文字里提到的食物，较长的名称优先，避免「番茄炒蛋」同时命中「番茄」和「鸡蛋」
+ */
+function findFoodsInText(text: string, limit = 5): Food[] {
+  const lower = text.toLowerCase()
+  const matches: Array<{ food: Food; term: string; index: number }> = []
+
+  for (const food of foods) {
+    const terms = [food.nameZh, ...food.aliases.filter(alias => alias.length >= 2), food.nameEn]
+    for (const term of terms) {
+      const needle = term.toLowerCase()
+      const index = LATIN_PATTERN.test(needle.replace(/\s/g, ''))
+        ? lower.search(new RegExp(`\\b${needle}\\b`))
+        : lower.indexOf(needle)
+
+      if (index !== -1) {
+        matches.push({ food, term: needle, index })
+        break
+      }
+    }
+  }
+
+  const selected: typeof matches = []
+  for (const match of matches.sort((a, b) => b.term.length - a.term.length)) {
+    const overlaps = selected.some(other =>
+      match.index >= other.index && match.index + match.term.length <= other.index + other.term.length
+    )
+    if (!overlaps) {
+      selected.push(match)
+    }
+  }
+
+  return selected
+    .sort((a, b) => a.index - b.index)
+    .slice(0, limit)
+    .map(match => match.food)
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10
+
+/**
+ * 按克数换算宏量营养素
+ */
+function calculateNutrition(food: Food, grams: number): NutritionTotals {
+  const ratio = grams / 100
+
+  return {
+    calories: Math.round(food.per100g.calories * ratio),
+    proteinG: round1(food.per100g.proteinG * ratio),
+    carbsG: round1(food.per100g.carbsG * ratio),
+    fatG: round1(food.per100g.fatG * ratio)
+  }
+}
+
+/**
+ * 生成注入系统提示的营养参考段落
+ */
+function formatFoodReference(items: Food[]): string {
+  const lines = items.map(food => {
+    const { calories, proteinG, carbsG, fatG } = food.per100g
+    const servings = food.servings.map(serving => `${serving.label}约${serving.grams}g`).join('、')
+    return `- ${food.nameZh}：每100g ${calories}kcal，蛋白质${proteinG}g，碳水${carbsG}g，脂肪${fatG}g（${servings}）`
+  })
+
+  return `营养参考数据（来自内置食物成分表，估算热量时优先使用）：\n${lines.join('\n')}`
+}
+
+export { calculateNutrition, findFoodsInText, formatFoodReference, getFood, searchFoods }
+export type { FoodSearchOptions, FoodSearchResult }
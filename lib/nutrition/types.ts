@@ -0,0 +1,51 @@
+/**
+ * 食物成分数据类型
+ * 营养数值均为每 100g 可食部分
+ */
+
+const foodCategories = {
+  staple: '主食',
+  dish: '菜肴',
+  protein: '肉蛋奶豆',
+  vegetable: '蔬菜',
+  fruit: '水果',
+  snack: '零食饮品',
+  western: '西式快餐',
+  condiment: '油脂调料'
+} as const
+
+type FoodCategory = keyof typeof foodCategories
+
+interface NutrientsPer100g {
+  calories: number
+  proteinG: number
+  carbsG: number
+  fatG: number
+  fiberG: number
+  sodiumMg: number
+  potassiumMg: number
+  calciumMg: number
+  ironMg: number
+  vitaminCMg: number
+}
+
+interface ServingSize {
+  /** 例如「一碗」「一个」 */
+  label: string
+  grams: number
+}
+
+interface Food {
+  id: string
+  nameZh: string
+  nameEn: string
+  /** 不带声调、以空格分隔的拼音，例如 "mi fan" */
+  pinyin: string
+  aliases: string[]
+  category: FoodCategory
+  per100g: NutrientsPer100g
+  servings: ServingSize[]
+}
+
+export { foodCategories }
+export type { Food, FoodCategory, NutrientsPer100g, ServingSize }
@@ -0,0 +1,32 @@
+/**
+ * 服务端解析 role 参数
+ * 内置角色直接读注册表，custom:<id> 从存储读取当前用户的自定义角色
+ */
+
+import { parseCustomPersonaRole, toPersona } from './custom-personas'
+import { getPersona } from './persona-prompts'
+import { isPersonaId, listPersonas, toPersonaSummary, type Persona, type PersonaSummary } from './personas'
+import { storage } from './storage'
+
+/**
+ * 未知角色或不属于该用户的自定义角色返回 null
+ */
+async function loadPersona(userId: string, role: string): Promise<Persona | null> {
+  if (isPersonaId(role)) return getPersona(role)
+
+  const customId = parseCustomPersonaRole(role)
+  if (!customId) return null
+
+  const custom = await storage.personas.getPersona(userId, customId)
+  return custom ? toPersona(custom) : null
+}
+
+/**
+ * 内置角色在前，自定义角色按创建时间在后
+ */
+async function listUserPersonas(userId: string): Promise<PersonaSummary[]> {
+  const customs = await storage.personas.listPersonas(userId)
+  return [...listPersonas(), ...customs.map(custom => toPersonaSummary(toPersona(custom)))]
+}
+
+export { listUserPersonas, loadPersona }
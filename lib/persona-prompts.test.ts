@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest'
+import { getPersona } from './persona-prompts'
+import { DEFAULT_PERSONA_ID, personaIds, personas } from './personas'
+
+describe('getPersona', () => {
+  it('前端共用的注册表不含系统提示，服务端读取时补上', () => {
+    for (const id of personaIds) {
+      expect(personas[id]).not.toHaveProperty('systemPrompt')
+      expect(getPersona(id).systemPrompt).toBeTruthy()
+    }
+  })
+
+  it('未知角色返回默认角色', () => {
+    expect(getPersona('unknown').id).toBe(DEFAULT_PERSONA_ID)
+  })
+})
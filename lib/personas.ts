@@ -0,0 +1,98 @@
+/**
+ * 角色注册表
+ * 聊天角色的名称、头像、欢迎语、快捷回复和模型参数集中在这里，前端和服务端共用；用户自定义的角色见 custom-personas
+ * 系统提示不放在这里，只在服务端的 persona-prompts 中读取，避免打包进前端
+ */
+
+const personaIds = ['supportive_friend', 'nutritionist', 'fitness_trainer'] as const
+
+type PersonaId = typeof personaIds[number]
+
+interface Persona {
+  /** 内置角色为 PersonaId，自定义角色为 custom:<id> */
+  id: string
+  name: { zh: string; en: string }
+  /** 头像 emoji */
+  avatar: string
+  /** 对话开头的欢迎消息，只在前端展示 */
+  welcomeMessage: string
+  systemPrompt: string
+  temperature: number
+  thinking: 'enabled' | 'disabled'
+  quickReplies: string[]
+  /** 用户自定义的角色 */
+  custom?: boolean
+}
+
+/** 返回给前端的角色信息，不含系统提示 */
+type PersonaSummary = Omit<Persona, 'systemPrompt'>
+
+const DEFAULT_PERSONA_ID: PersonaId = 'supportive_friend'
+
+const personas: Record<PersonaId, PersonaSummary> = {
+  supportive_friend: {
+    id: 'supportive_friend',
+    name: { zh: '贴心朋友', en: 'Supportive Friend' },
+    avatar: '👫',
+    welcomeMessage: "Hi! I'm here to support you on your weight loss journey. How are you feeling today? Remember, every small step counts! 💪",
+    temperature: 0.8,
+    thinking: 'enabled',
+    quickReplies: [
+      'I got stuck in work',
+      'I skipped lunch',
+      "Haven't eaten all day",
+      'I feel stressed today',
+      'I want to eat junk food',
+      "I didn't exercise today"
+    ]
+  },
+
+  nutritionist: {
+    id: 'nutritionist',
+    name: { zh: '营养师', en: 'Nutritionist' },
+    avatar: '🥗',
+    welcomeMessage: "Hello! I'm your nutritionist, ready to help you create a healthy eating plan. What would you like to know about nutrition today? 🥗",
+    temperature: 0.8,
+    thinking: 'enabled',
+    quickReplies: [
+      'What should I eat for dinner?',
+      'How much protein do I need?',
+      'Plan my meals for tomorrow',
+      'I want to eat junk food',
+      'Is this snack healthy?',
+      'How many calories did I eat today?'
+    ]
+  },
+
+  fitness_trainer: {
+    id: 'fitness_trainer',
+    name: { zh: '健身教练', en: 'Fitness Trainer' },
+    avatar: '💪',
+    welcomeMessage: "Hey there! I'm your fitness trainer, here to help you reach your fitness goals safely. What's your workout plan today? 💪",
+    temperature: 0.8,
+    thinking: 'enabled',
+    quickReplies: [
+      "I didn't exercise today",
+      'Give me a 20-minute workout',
+      'My knees hurt when I run',
+      'How many calories did I burn?',
+      'I only have dumbbells at home',
+      'I feel too tired to train'
+    ]
+  }
+}
+
+function isPersonaId(value: unknown): value is PersonaId {
+  return typeof value === 'string' && (personaIds as readonly string[]).includes(value)
+}
+
+function toPersonaSummary({ systemPrompt: _systemPrompt, ...summary }: Persona): PersonaSummary {
+  return summary
+}
+
+function listPersonas(): PersonaSummary[] {
+  return personaIds.map(id => personas[id])
+}
+
+export { DEFAULT_PERSONA_ID, isPersonaId, listPersonas, personaIds, personas, toPersonaSummary }
+export type { Persona, PersonaId, PersonaSummary }
@@ -0,0 +1,63 @@
+/**
+ * 用户资料
+ * 前端引导流程和 /api/profile 共用同一份校验规则，资料会以简短形式注入每个角色的系统提示
+ */
+
+import { z } from 'zod'
+
+const sexOptions = {
+  male: '男',
+  female: '女'
+} as const
+
+const goalOptions = {
+  lose: '减脂',
+  maintain: '保持体重',
+  gain: '增肌'
+} as const
+
+const activityLevelOptions = {
+  sedentary: '久坐（几乎不运动）',
+  light: '轻度（每周 1-3 次）',
+  moderate: '中度（每周 3-5 次）',
+  active: '活跃（每周 6-7 次）',
+  very_active: '高强度（体力劳动或每天训练）'
+} as const
+
+const profileSchema = z.object({
+  age: z.coerce.number().int().min(13, '年龄需在 13 岁以上').max(100, '请输入有效年龄'),
+  sex: z.enum(['male', 'female']),
+  heightCm: z.coerce.number().min(100, '请输入有效身高').max(250, '请输入有效身高'),
+  weightKg: z.coerce.number().min(30, '请输入有效体重').max(300, '请输入有效体重'),
+  goal: z.enum(['lose', 'maintain', 'gain']),
+  goalWeightKg: z.coerce.number().min(30, '请输入有效体重').max(300, '请输入有效体重').optional(),
+  activityLevel: z.enum(['sedentary', 'light', 'moderate', 'active', 'very_active']),
+  dietaryRestrictions: z.array(z.string().trim().min(1).max(50)).max(20).default([]),
+  injuries: z.array(z.string().trim().min(1).max(100)).max(20).default([])
+})
+
+type UserProfile = z.infer<typeof profileSchema>
+
+/**
+ * 生成注入系统提示的用户资料段落，尽量精简以节省 token
+ */
+function formatProfilePrompt(profile: UserProfile): string {
+  const bmi = profile.weightKg / (profile.heightCm / 100) ** 2
+  const lines = [
+    `- ${sexOptions[profile.sex]}，${profile.age} 岁，身高 ${profile.heightCm}cm，体重 ${profile.weightKg}kg（BMI ${bmi.toFixed(1)}）`,
+    `- 目标：${goalOptions[profile.goal]}${profile.goalWeightKg ? `，目标体重 ${profile.goalWeightKg}kg` : ''}`,
+    `- 活动水平：${activityLevelOptions[profile.activityLevel]}`
+  ]
+
+  if (profile.dietaryRestrictions.length > 0) {
+    lines.push(`- 饮食限制：${profile.dietaryRestrictions.join('、')}`)
+  }
+  if (profile.injuries.length > 0) {
+    lines.push(`- 伤病情况：${profile.injuries.join('、')}（安排运动时务必避开）`)
+  }
+
+  return `用户资料：\n${lines.join('\n')}\n请结合以上资料给出个性化建议。`
+}
+
+export { activityLevelOptions, formatProfilePrompt, goalOptions, profileSchema, sexOptions }
+export type { UserProfile }
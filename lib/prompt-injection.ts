@@ -0,0 +1,33 @@
+/**
+ * 提示词注入检查
+ * 用户填写、之后会拼进系统提示的内容（自定义角色、长期记忆）保存前都要经过这里
+ */
+
+// 试图改写系统提示、套取提示词或绕过安全要求的说法
+const promptInjectionPatterns: RegExp[] = [
+  /(忽略|无视|忘记|忘掉|跳过|覆盖)[^，。,.]{0,8}(指令|提示|规则|要求|限制|设定|约束)/,
+  /(系统|system)\s*(提示|prompt|消息|message)/i,
+  /(提示词|prompt)[^，。,.]{0,6}(输出|告诉|泄露|显示|打印)|(输出|告诉|泄露|显示|打印)[^，。,.]{0,6}(提示词|prompt)/i,
+  /你(现在|从现在开始)?(不再是|已经不是)|从现在开始你是|(没有|不受)(任何)?(限制|约束|规则)/,
+  /越狱|开发者模式|管理员模式|上帝模式/,
+  /(不用|不必|无需|别管|不要管)[^，。,.]{0,4}安全/,
+  /\b(ignore|disregard|forget|override|bypass)\b[^,.]{0,30}\b(instructions?|prompts?|rules?|guidelines?|restrictions?)\b/i,
+  /\b(reveal|print|repeat|show)\b[^,.]{0,20}\b(prompt|instructions)\b/i,
+  /\b(jailbreak|developer mode|DAN mode|do anything now)\b/i,
+  /\byou are (now|no longer)\b|\bpretend (to be|you are)\b/i,
+  /<\/?\s*(system|assistant|user)\s*>|<\|im_(start|end)\|>|\[\/?INST\]|^\s*(system|assistant)\s*:/im,
+  /```/
+]
+
+/**
+ * 查找文字中的提示词注入说法，没有时返回 null
+ */
+function findPromptInjection(text: string): string | null {
+  for (const pattern of promptInjectionPatterns) {
+    const match = text.match(pattern)
+    if (match) return match[0]
+  }
+  return null
+}
+
+export { findPromptInjection }
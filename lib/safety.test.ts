@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { runSafetyCorpus, safetyCorpus } from './safety-corpus'
+import { StreamingReplyScreener, fastingDays, maxWeeklyLossKg, minDailyKcal, safetyCautionPrompt, screenUserMessage } from './safety'
+
+describe('安全护栏语料', () => {
+  it('全部语料符合预期', () => {
+    const report = runSafetyCorpus()
+    const failures = report.failures.map(({ text, source, expected, actual, actualSeverity, ruleId }) =>
+      ({ text, source, expected, actual, actualSeverity, ruleId }))
+
+    expect(failures).toEqual([])
+    expect(report.total).toBe(safetyCorpus.length)
+  })
+})
+
+describe('minDailyKcal', () => {
+  it('只统计全天总摄入', () => {
+    expect(minDailyKcal('一天只吃600卡')).toBe(600)
+    expect(minDailyKcal('每天总共吃了900大卡')).toBe(900)
+    expect(minDailyKcal('全天吃了700千卡')).toBe(700)
+    expect(minDailyKcal('Is eating 600 calories a day ok?')).toBe(600)
+  })
+
+  it('「每天吃 N 大卡」和不带 a day 的英文说法也算全天摄入', () => {
+    expect(minDailyKcal('每天吃800大卡行吗')).toBe(800)
+    expect(minDailyKcal('一天吃 600 卡')).toBe(600)
+    expect(minDailyKcal('I only eat 500 calories')).toBe(500)
+    expect(minDailyKcal('Can I eat 700 calories?')).toBe(700)
+    expect(minDailyKcal('You can eat 300 calories of nuts')).toBe(Infinity)
+  })
+
+  it('忽略某一餐或零食的热量', () => {
+    expect(minDailyKcal('我每天早餐吃350大卡')).toBe(Infinity)
+    expect(minDailyKcal('每天吃零食大概300卡')).toBe(Infinity)
+    expect(minDailyKcal('每天只吃200卡的坚果当加餐')).toBe(Infinity)
+    expect(minDailyKcal('I eat 300 calories for breakfast daily')).toBe(Infinity)
+  })
+
+  it('忽略运动消耗', () => {
+    expect(minDailyKcal('每天运动消耗300千卡')).toBe(Infinity)
+  })
+})
+
+describe('fastingDays', () => {
+  it('识别持续多天的断食', () => {
+    expect(fastingDays('三天没吃东西了')).toBe(3)
+    expect(fastingDays('准备断食7天')).toBe(7)
+    expect(fastingDays('打算两天只喝水')).toBe(2)
+    expect(fastingDays('Thinking about a 5-day water fast')).toBe(5)
+    expect(fastingDays('I went 4 days without food')).toBe(4)
+  })
+
+  it('日常饮水不算断食', () => {
+    expect(fastingDays('每天只喝水两升')).toBe(0)
+  })
+})
+
+describe('maxWeeklyLossKg', () => {
+  it('换算成每周公斤数', () => {
+    expect(maxWeeklyLossKg('一个月瘦二十斤')).toBeCloseTo(10 / (30 / 7))
+    expect(maxWeeklyLossKg('How can I lose 10 kg in 2 weeks?')).toBe(5)
+    expect(maxWeeklyLossKg('今天跑了5公里')).toBe(0)
+  })
+})
+
+describe('用药', () => {
+  it('医生开的药走 caution，并提醒遵医嘱', () => {
+    const trigger = screenUserMessage('医生给我开了二甲双胍，饮食上要注意什么')
+    expect(trigger).toMatchObject({ category: 'medication', severity: 'caution' })
+    expect(safetyCautionPrompt('medication')).toContain('医生')
+  })
+})
+
+describe('StreamingReplyScreener', () => {
+  it('句子写完才放行', () => {
+    const screener = new StreamingReplyScreener()
+    expect(screener.push('先吃一碗')).toBe('')
+    expect(screener.push('燕麦。再加')).toBe('先吃一碗燕麦。')
+    expect(screener.push('个鸡蛋！')).toBe('再加个鸡蛋！')
+  })
+
+  it('命中后不再放行，包括之后的句子', () => {
+    const screener = new StreamingReplyScreener()
+    expect(screener.push('可以试试。每天只吃')).toBe('可以试试。')
+    expect(screener.push('600大卡')).toBe('')
+    expect(screener.push('。加油！')).toBe('')
+    expect(screener.trigger).toMatchObject({ category: 'extreme_deficit', ruleId: 'very_low_calorie_advice' })
+    expect(screener.push('还有别的问题吗？')).toBe('')
+  })
+
+  it('劝阻的句子照常放行', () => {
+    const screener = new StreamingReplyScreener()
+    expect(screener.push('不要每天只吃600大卡。')).toBe('不要每天只吃600大卡。')
+    expect(screener.trigger).toBeNull()
+  })
+})
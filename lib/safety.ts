@@ -0,0 +1,459 @@
+/**
+ * 安全护栏
+ * 在调用模型前筛查用户消息、在回复发出前筛查模型输出，识别进食障碍信号、极端节食、过快减重、自伤和用药问题。
+ * 命中 block 规则时不再调用模型（或替换模型回复），改为回复审核过的支持性模板和求助资源；
+ * 命中 caution 规则时照常回复，但在系统提示中加入额外要求。所有命中都会记录，供人工复核
+ */
+
+import { storage } from './storage'
+
+type SafetyCategory = 'self_harm' | 'disordered_eating' | 'extreme_deficit' | 'unsafe_rate' | 'medication'
+
+type SafetySeverity = 'block' | 'caution'
+
+type SafetySource = 'user' | 'assistant'
+
+interface SafetyRule {
+  id: string
+  category: SafetyCategory
+  severity: SafetySeverity
+  /** 适用于用户消息还是模型回复 */
+  sources: SafetySource[]
+  test: (text: string) => boolean
+}
+
+interface SafetyTrigger {
+  source: SafetySource
+  category: SafetyCategory
+  severity: SafetySeverity
+  ruleId: string
+  /** 命中的原文 */
+  text: string
+}
+
+interface SafetyEvent {
+  id: string
+  userId: string
+  conversationId?: string
+  source: SafetySource
+  category: SafetyCategory
+  severity: SafetySeverity
+  ruleId: string
+  /** 原文片段，最多 200 字 */
+  excerpt: string
+  createdAt: string
+}
+
+type NewSafetyEvent = Omit<SafetyEvent, 'id' | 'createdAt'>
+
+/** 低于这个每日热量视为极端节食（无医学监护时） */
+const MIN_DAILY_KCAL = 1000
+
+/** 超过这个每周减重速度视为过快 */
+const MAX_WEEKLY_LOSS_KG = 1
+
+const EXCERPT_LENGTH = 200
+
+const CHINESE_DIGITS: Record<string, number> = { 零: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9 }
+
+/**
+ * 解析阿拉伯数字或 99 以内的中文数字，例如「20」「二十」「十五」「两」
+ */
+function parseAmount(value: string): number {
+  if (/^\d+(\.\d+)?$/.test(value)) return Number(value)
+
+  const [tens, ones] = value.split('十')
+  if (ones === undefined) return CHINESE_DIGITS[value] ?? NaN
+
+  return (tens ? CHINESE_DIGITS[tens] ?? NaN : 1) * 10 + (ones ? CHINESE_DIGITS[ones] ?? NaN : 0)
+}
+
+const AMOUNT = '(\\d+(?:\\.\\d+)?|[一二两三四五六七八九十]{1,3})'
+
+const weightUnits: Record<string, number> = { 斤: 0.5, 公斤: 1, 千克: 1, kg: 1, kgs: 1, kilo: 1, kilos: 1, lb: 0.4536, lbs: 0.4536, pound: 0.4536, pounds: 0.4536, 磅: 0.4536 }
+
+const periodWeeks: Record<string, number> = { 天: 1 / 7, 日: 1 / 7, day: 1 / 7, days: 1 / 7, 周: 1, 星期: 1, 礼拜: 1, week: 1, weeks: 1, 月: 30 / 7, month: 30 / 7, months: 30 / 7 }
+
+const ZH_WEIGHT_UNIT = '(斤|公斤|千克|kg|磅)'
+const ZH_PERIOD = '(天|日|周|星期|礼拜|月)'
+const EN_WEIGHT_UNIT = '(kgs?|kilos?|lbs?|pounds?)'
+const EN_PERIOD = '(days?|weeks?|months?)'
+
+const ratePatterns: Array<{ pattern: RegExp; order: 'period-first' | 'amount-first' }> = [
+  // 一个月瘦二十斤、两周内减5公斤
+  { pattern: new RegExp(`${AMOUNT}\\s*个?\\s*${ZH_PERIOD}\\s*(?:之?内|里)?\\s*(?:就|要|能|想|可以)*\\s*(?:瘦|减|掉)了?\\s*${AMOUNT}\\s*${ZH_WEIGHT_UNIT}`, 'g'), order: 'period-first' },
+  // 瘦20斤，一个月内
+  { pattern: new RegExp(`(?:瘦|减|掉)\\s*${AMOUNT}\\s*${ZH_WEIGHT_UNIT}[^。！？\\n]{0,6}?${AMOUNT}\\s*个?\\s*${ZH_PERIOD}`, 'g'), order: 'amount-first' },
+  // lose 10 kg in 2 weeks
+  { pattern: new RegExp(`(?:lose|losing|drop|dropping|shed|shedding)\\s+(\\d+(?:\\.\\d+)?)\\s*${EN_WEIGHT_UNIT}\\s+(?:in|within)\\s+(a|an|one|\\d+)\\s*${EN_PERIOD}`, 'gi'), order: 'amount-first' }
+]
+
+/**
+ * 找出文字中描述的最快减重速度（公斤/周），没有时返回 0
+ */
+function maxWeeklyLossKg(text: string): number {
+  let max = 0
+
+  for (const { pattern, order } of ratePatterns) {
+    for (const match of text.matchAll(pattern)) {
+      const [periodCount, period, amount, unit] = order === 'period-first'
+        ? [match[1], match[2], match[3], match[4]]
+        : [match[3], match[4], match[1], match[2]]
+
+      const count = /^(a|an|one)$/i.test(periodCount) ? 1 : parseAmount(periodCount)
+      const kg = parseAmount(amount) * (weightUnits[unit.toLowerCase()] ?? NaN)
+      const weeks = count * (periodWeeks[period.toLowerCase()] ?? NaN)
+
+      if (Number.isFinite(kg) && weeks > 0) {
+        max = Math.max(max, kg / weeks)
+      }
+    }
+  }
+
+  return max
+}
+
+const ZH_DAY = '(?:每天|每日|一天|一日|日均)'
+const ZH_WHOLE_DAY = '(?:全天|一整天|整天|一天下来)'
+const EN_DAILY = '(?:daily|a day|per day|in total)'
+const KCAL = '(?:千卡|大卡|卡路里|卡|kcal|calories|cals?)'
+
+// 只看全天的总摄入：「每天只吃」「每天总共」「每天吃 800 大卡」「每天摄入控制在」「全天」，「每天运动消耗 300 千卡」「每天吃零食 300 卡」不算
+// 英文不带 a day 时也算：「I only eat 500 calories」，某一餐的热量由 MEAL_PATTERN 排除，「eat 300 calories of nuts」说的是某样食物也不算
+const dailyKcalPatterns = [
+  new RegExp(`${ZH_DAY}[^。！？\\n\\d]{0,6}?(?:总共|一共|总计|加起来|只|仅|控制在|控制到|不超过|不到)[^。！？\\n\\d]{0,6}?(\\d{2,4})\\s*${KCAL}`, 'gi'),
+  new RegExp(`${ZH_DAY}\\s*(?:都|就|要|能)?\\s*吃了?\\s*(\\d{2,4})\\s*${KCAL}`, 'gi'),
+  new RegExp(`${ZH_DAY}[^。！？\\n\\d]{0,6}?(?:摄入|热量)[^。！？\\n\\d]{0,6}?(\\d{2,4})\\s*${KCAL}`, 'gi'),
+  new RegExp(`${ZH_WHOLE_DAY}[^。！？\\n\\d]{0,8}?(\\d{2,4})\\s*${KCAL}`, 'gi'),
+  new RegExp(`(?:eat|eating|consume|consuming|intake of|diet of)\\s+(?:only\\s+|just\\s+)?(\\d{2,4})\\s*${KCAL}\\s*${EN_DAILY}`, 'gi'),
+  new RegExp(`(?:eat|eating|consume|consuming)\\s+(?:only\\s+|just\\s+)?(\\d{2,4})\\s*(?:kcal|calories|cals?)\\b(?!\\s+(?:of|from|worth)\\b)`, 'gi'),
+  new RegExp(`(\\d{2,4})[- ]?(?:calorie|kcal|千卡|大卡)s?\\s*(?:a day |per day |daily )?(?:diet|饮食)`, 'gi')
+]
+
+// 说的是某一餐或零食的热量，不是全天总量
+const MEAL_PATTERN = /早餐|午餐|晚餐|早饭|午饭|晚饭|早点|零食|加餐|夜宵|宵夜|点心|下午茶|一餐|每餐|一顿|每顿|这顿|breakfast|lunch|dinner|snack|meal/i
+
+/** 数字之后到分句结束前还要检查的字数，例如「每天总共 200 大卡的零食」「eat 300 calories for breakfast」 */
+const MEAL_LOOKAHEAD = 16
+
+/**
+ * 找出文字中提到的最低全天摄入热量，没有时返回 Infinity
+ */
+function minDailyKcal(text: string): number {
+  let min = Infinity
+
+  for (const pattern of dailyKcalPatterns) {
+    for (const match of text.matchAll(pattern)) {
+      const end = (match.index ?? 0) + match[0].length
+      const context = match[0] + text.slice(end, end + MEAL_LOOKAHEAD).split(/[，,；;。！？!?\n]/)[0]
+      if (MEAL_PATTERN.test(context)) continue
+
+      min = Math.min(min, Number(match[1]))
+    }
+  }
+
+  return min
+}
+
+const fastingPatterns = [
+  new RegExp(`${AMOUNT}\\s*天\\s*(?:都|没有?|不)+(?:吃东西|吃饭|吃|进食)`, 'g'),
+  new RegExp(`${AMOUNT}\\s*天\\s*(?:都|内|里)?\\s*(?:只|光)喝水`, 'g'),
+  new RegExp(`(?:断食|禁食|不吃饭)\\s*${AMOUNT}\\s*天`, 'g'),
+  /(?:haven't|have not|didn't|not|without) eat(?:en|ing)? (?:for|in) (\d+) days/gi,
+  /(\d+) days (?:without|with no) (?:food|eating)/gi,
+  /(\d+)[- ]day (?:water )?fast/gi
+]
+
+/**
+ * 找出文字中提到的最长连续不进食天数，没有时返回 0
+ */
+function fastingDays(text: string): number {
+  let max = 0
+
+  for (const pattern of fastingPatterns) {
+    for (const match of text.matchAll(pattern)) {
+      const days = parseAmount(match[1])
+      if (Number.isFinite(days)) max = Math.max(max, days)
+    }
+  }
+
+  return max
+}
+
+// 模型回复里的劝阻语句（「不要每天低于 800 千卡」）不算推荐
+const NEGATION_PATTERN = /不要|不建议|不推荐|避免|不安全|危险|不宜|不能|切勿|don't|do not|avoid|not recommend|unsafe|dangerous|never/i
+
+function sentences(text: string): string[] {
+  return text.split(/(?<=[。！？!?\n])|(?<=\.)\s/).filter(sentence => sentence.trim())
+}
+
+/**
+ * 只在没有劝阻语气的句子里查找
+ */
+function affirmativeSentences(text: string): string {
+  return sentences(text).filter(sentence => !NEGATION_PATTERN.test(sentence)).join('\n')
+}
+
+const MEDICATION_PATTERN = /减肥药|瘦身药|减重药|司美格鲁肽|替尔泊肽|利拉鲁肽|奥利司他|西布曲明|芬特明|二甲双胍|semaglutide|ozempic|wegovy|tirzepatide|mounjaro|zepbound|liraglutide|saxenda|orlistat|phentermine|sibutramine|metformin|diet pills?|weight[- ]loss (pills?|drugs?|medication|injections?)/i
+
+// 想自己弄到药、自己挑药或自己定剂量
+const OBTAIN_OR_DOSE_PATTERN = /哪里买|在哪(里|儿)?买|怎么买|去哪买|网上买|代购|买到|哪种好|哪个好|哪款|推荐|自己(吃|打|用)|吃多少|打多少|用多少|剂量|用量|加量|几毫克|几片|几粒|多少(mg|毫克)|怎么(吃|打|用)|(buy|order|get hold of|purchase)\b|which .*(best|good)|recommend|dos(e|age)|how (much|many (mg|pills))|how (do|should) i (take|inject)/i
+
+const NO_PRESCRIPTION_PATTERN = /没有处方|不用处方|不要处方|无处方|没处方|without (a )?prescription|no prescription/i
+
+// 医生开的药，交给 caution 提醒遵医嘱
+const PRESCRIBED_PATTERN = /医生(给我)?开|大夫(给我)?开|(医生|大夫)(让|说|建议|要求|推荐)|遵医嘱|处方开|prescribed|my doctor/i
+
+const safetyRules: SafetyRule[] = [
+  {
+    id: 'self_harm_intent',
+    category: 'self_harm',
+    severity: 'block',
+    sources: ['user'],
+    test: text => /自杀|不想活|活着没意思|活不下去|想死(?!你)|去死|结束生命|了结自己|自残|割腕|伤害自己|kill myself|suicid|end my life|self[- ]?harm|hurt myself|want to die|don't want to live/i.test(text)
+  },
+  {
+    id: 'purging',
+    category: 'disordered_eating',
+    severity: 'block',
+    sources: ['user', 'assistant'],
+    test: text => /催吐|抠喉|吃完就?吐|吐出来就不会胖|暴食[^。！？]{0,6}(吐|催|泻)|make (myself|yourself) (throw up|vomit|sick)|throw(ing)? up after (eating|meals?)|purg(e|ing)/i.test(text)
+  },
+  {
+    id: 'laxative_diuretic',
+    category: 'disordered_eating',
+    severity: 'block',
+    sources: ['user', 'assistant'],
+    test: text => /(泻药|通便药|利尿剂|排油|laxatives?|diuretics?)[^。！？.!?]{0,10}(减肥|瘦|减重|掉秤|lose weight|weight loss)|(减肥|瘦|lose weight)[^。！？.!?]{0,10}(泻药|利尿剂|laxatives?|diuretics?)/i.test(text)
+  },
+  {
+    id: 'food_guilt_punishment',
+    category: 'disordered_eating',
+    severity: 'block',
+    sources: ['user'],
+    test: text => /饿死自己|惩罚自己|不配吃|恨自己吃|吃了就(恨|讨厌|恶心)自己|吃东西(很|就)?有罪恶感|starve myself|punish myself|don't deserve to eat|hate myself (for|after) eating/i.test(text)
+  },
+  {
+    id: 'multi_day_fast',
+    category: 'extreme_deficit',
+    severity: 'block',
+    sources: ['user', 'assistant'],
+    // 「只喝水」要和持续时间或不吃饭一起出现，「每天只喝水不喝饮料」不算
+    test: text => fastingDays(text) >= 2 ||
+      /(这|一|整|几|两|三)(个)?(周|星期|礼拜|月)\s*(都|内|里)?\s*(只|光)喝水|(不吃饭|不吃东西|不进食|不吃)[^。！？\n]{0,4}(只|光)喝水|辟谷|绝食|(haven't|have not|didn't|not) eat(en)? (for|in) (two|three|several|a few) days|(two|three|four|five|six|seven|several|a few) days (without|with no) (food|eating)|without (food|eating) for (two|three|several|a few) days|(water|juice)[- ]only (fast|diet)|only (drink|drinking|drank) water for (a week|\d+ days|several days|a few days)|stop(ped)? eating and (only |just )?drink(ing)? water/i.test(text)
+  },
+  {
+    id: 'very_low_calorie',
+    category: 'extreme_deficit',
+    severity: 'block',
+    sources: ['user'],
+    test: text => minDailyKcal(text) < MIN_DAILY_KCAL
+  },
+  {
+    id: 'very_low_calorie_advice',
+    category: 'extreme_deficit',
+    severity: 'block',
+    sources: ['assistant'],
+    test: text => minDailyKcal(affirmativeSentences(text)) < MIN_DAILY_KCAL
+  },
+  {
+    id: 'rapid_loss',
+    category: 'unsafe_rate',
+    severity: 'block',
+    sources: ['user'],
+    test: text => maxWeeklyLossKg(text) > MAX_WEEKLY_LOSS_KG
+  },
+  {
+    id: 'rapid_loss_advice',
+    category: 'unsafe_rate',
+    severity: 'block',
+    sources: ['assistant'],
+    test: text => maxWeeklyLossKg(affirmativeSentences(text)) > MAX_WEEKLY_LOSS_KG
+  },
+  {
+    id: 'weight_loss_medication',
+    category: 'medication',
+    severity: 'block',
+    sources: ['user'],
+    test: text => MEDICATION_PATTERN.test(text) &&
+      (NO_PRESCRIPTION_PATTERN.test(text) || (OBTAIN_OR_DOSE_PATTERN.test(text) && !PRESCRIBED_PATTERN.test(text)))
+  },
+  {
+    id: 'medication_mention',
+    category: 'medication',
+    severity: 'caution',
+    sources: ['user'],
+    test: text => MEDICATION_PATTERN.test(text)
+  },
+  {
+    id: 'medication_dosage_advice',
+    category: 'medication',
+    severity: 'block',
+    sources: ['assistant'],
+    test: text => /(司美格鲁肽|替尔泊肽|利拉鲁肽|奥利司他|二甲双胍|semaglutide|tirzepatide|liraglutide|orlistat|metformin|减肥药)[^。！？.!?]{0,20}\d+(\.\d+)?\s*(mg|毫克|ml|毫升|片|粒)/i.test(affirmativeSentences(text))
+  },
+  {
+    id: 'skipped_meals_today',
+    category: 'disordered_eating',
+    severity: 'caution',
+    sources: ['user'],
+    test: text => /(一整天|一天|今天|整天)\s*(都)?(没|没有|不想)(吃|进食)|没吃(早饭|午饭|晚饭|早餐|午餐|晚餐)|haven't eaten (all day|today)|skipped (breakfast|lunch|dinner|meals?)/i.test(text)
+  }
+]
+
+const resources = `如果你需要有人聊聊，可以拨打：
+- 希望24热线：400-161-9995（24 小时）
+- 北京心理危机研究与干预中心：010-82951332（24 小时）
+- 情况紧急时请立即拨打 120 或 110，或前往最近的医院急诊`
+
+const safetyTemplates: Record<SafetyCategory, string> = {
+  self_harm: `听到你这么说，我很担心你。你现在的感受很重要，你不需要一个人扛着。
+
+我只是一个饮食和运动助手，没办法给你真正需要的帮助，但有人可以：
+${resources}
+
+如果方便，也可以告诉身边信任的人你现在的状态。你愿意的话，我会一直在这里陪你聊聊别的。`,
+
+  disordered_eating: `谢谢你愿意说出来，这些感受一点也不丢人。用催吐、泻药、惩罚性节食来控制体重，会严重伤害身体，也往往会让和食物的关系越来越紧张。
+
+你值得被好好照顾，也值得好好吃饭。建议找专业的人一起面对：精神专科医院或综合医院的心理科、精神科都可以就诊，部分医院（如北京大学第六医院、上海市精神卫生中心）设有进食障碍专科门诊。
+${resources}
+
+在那之前，如果你愿意，我们可以先聊聊怎么规律地吃好下一餐。`,
+
+  extreme_deficit: `我理解你想快点看到变化，但长时间不吃东西或每天摄入过低的热量，会导致肌肉流失、头晕乏力、代谢下降，停下来后也更容易反弹，甚至诱发暴食。
+
+更稳妥的做法是：一般成年人每天摄入不低于 1200 千卡（男性通常不低于 1500 千卡），在此基础上保持每天 300-500 千卡的缺口。如果你有特殊情况需要更低热量的方案，请在医生或注册营养师的监护下进行。
+
+如果你发现自己很难停止节食，或者一想到吃东西就焦虑，和专业人士聊聊会有帮助：
+${resources}`,
+
+  unsafe_rate: `想早点达到目标的心情我很理解！不过健康、能长期保持的减重速度一般是每周 0.5-1 公斤（约 1-2 斤）。减得太快通常意味着过度节食，掉的多是水分和肌肉，还可能带来胆结石、脱发、月经紊乱等问题，也更容易反弹。
+
+我们可以一起定一个更稳的节奏：先算出你的每日消耗，再留出适度的热量缺口，配合规律运动。如果你有时间上的特殊需求，建议先咨询医生。`,
+
+  medication: `关于减肥药物或用药剂量的问题，我没办法给出建议——这些药物是否适合你、怎么用，需要医生结合你的身体情况、病史和正在用的其他药物来判断，自行用药可能带来严重的副作用。
+
+建议到医院的内分泌科、营养科或减重门诊咨询。在饮食记录、运动安排和生活习惯上，我随时可以帮你。`
+}
+
+/** caution 命中时加入系统提示的要求 */
+const cautionPrompts: Partial<Record<SafetyCategory, string>> = {
+  disordered_eating: '安全要求：用户提到长时间没有进食。先关心用户的状态，建议尽快吃一顿均衡的饭，不要表扬或鼓励继续不吃，也不要建议用不吃来补偿。',
+  medication: '安全要求：用户提到了减肥或降糖药物。可以给饮食和运动上的一般建议，但不评价药效、不推荐具体药物、不给出用法和剂量；涉及用药和调整剂量时，提醒用户咨询开药的医生。'
+}
+
+/** 所有角色都遵守的基本安全要求 */
+const SAFETY_PROMPT = `安全要求：
+- 不建议每天摄入低于 1200 千卡（男性 1500 千卡）的方案，不建议每周减重超过 1 公斤
+- 不推荐断食多天、催吐、泻药、利尿剂等做法，不给出任何药物的用法和剂量
+- 用户流露出对食物的强烈愧疚、自我惩罚或伤害自己的想法时，温和回应并建议寻求专业帮助`
+
+/**
+ * 用指定来源适用的规则筛查文字，block 优先于 caution，没有命中时返回 null
+ */
+function screenText(text: string, source: SafetySource): SafetyTrigger | null {
+  let caution: SafetyTrigger | null = null
+
+  for (const rule of safetyRules) {
+    if (!rule.sources.includes(source) || !rule.test(text)) continue
+
+    const trigger: SafetyTrigger = { source, category: rule.category, severity: rule.severity, ruleId: rule.id, text }
+    if (rule.severity === 'block') return trigger
+    caution = caution || trigger
+  }
+
+  return caution
+}
+
+function screenUserMessage(text: string): SafetyTrigger | null {
+  return screenText(text, 'user')
+}
+
+/**
+ * 模型回复只检查 block 规则
+ */
+function screenAssistantReply(text: string): SafetyTrigger | null {
+  const trigger = screenText(text, 'assistant')
+  return trigger?.severity === 'block' ? trigger : null
+}
+
+// 句子结尾：中文句末标点、换行，或后面跟空白的英文句号
+const SENTENCE_END = /[。！？!?\n]|\.(?=\s)/g
+
+/**
+ * 流式回复的逐句筛查
+ * 只放行已经凑成完整句子并通过筛查的文本，句子没写完时先留着，避免未经筛查的半句话先推给用户；
+ * 命中规则后不再放行任何文本，剩下的半句由完整回复的筛查负责
+ */
+class StreamingReplyScreener {
+  /** 命中的规则，命中后保持不变 */
+  trigger: SafetyTrigger | null = null
+  private text = ''
+  private releasedLength = 0
+
+  /**
+   * 追加增量文本，返回这次可以推送的文本，没有时返回空字符串
+   */
+  push(delta: string): string {
+    if (this.trigger) return ''
+    this.text += delta
+
+    let end = this.releasedLength
+    for (const match of this.text.slice(this.releasedLength).matchAll(SENTENCE_END)) {
+      end = this.releasedLength + (match.index ?? 0) + match[0].length
+    }
+    if (end === this.releasedLength) return ''
+
+    // 劝阻语气按句判断，所以每次都检查到目前为止的全部完整句子
+    this.trigger = screenAssistantReply(this.text.slice(0, end))
+    if (this.trigger) return ''
+
+    const released = this.text.slice(this.releasedLength, end)
+    this.releasedLength = end
+    return released
+  }
+}
+
+function safetyTemplate(category: SafetyCategory): string {
+  return safetyTemplates[category]
+}
+
+function safetyCautionPrompt(category: SafetyCategory): string | null {
+  return cautionPrompts[category] || null
+}
+
+/**
+ * 创建记录命中事件的回调，写入失败只打印日志
+ */
+function createSafetyLogger(userId: string, conversationId?: string): (trigger: SafetyTrigger) => void {
+  return trigger => {
+    console.warn(`安全护栏命中: ${trigger.ruleId}（${trigger.source}，${trigger.severity}）`)
+
+    storage.safety.recordEvent({
+      userId,
+      conversationId,
+      source: trigger.source,
+      category: trigger.category,
+      severity: trigger.severity,
+      ruleId: trigger.ruleId,
+      excerpt: trigger.text.slice(0, EXCERPT_LENGTH)
+    }).catch(error => console.error('安全事件记录失败:', error))
+  }
+}
+
+export {
+  SAFETY_PROMPT,
+  StreamingReplyScreener,
+  createSafetyLogger,
+  fastingDays,
+  maxWeeklyLossKg,
+  minDailyKcal,
+  safetyCautionPrompt,
+  safetyRules,
+  safetyTemplate,
+  screenAssistantReply,
+  screenText,
+  screenUserMessage
+}
+export type { NewSafetyEvent, SafetyCategory, SafetyEvent, SafetyRule, SafetySeverity, SafetySource, SafetyTrigger }
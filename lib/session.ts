@@ -0,0 +1,35 @@
+/**
+ * 匿名用户标识
+ * 应用暂无登录，首次访问时写入一个长期 cookie 作为用户 ID
+ */
+
+import { randomUUID } from 'crypto'
+import { cookies } from 'next/headers'
+
+const USER_COOKIE = 'wla_uid'
+const ONE_YEAR_SECONDS = 60 * 60 * 24 * 365
+
+/**
+ * 读取当前用户 ID，没有时生成并写入 cookie（只能在路由处理函数中调用）
+ */
+async function getUserId(): Promise<string> {
+  const cookieStore = await cookies()
+  const existing = cookieStore.get(USER_COOKIE)?.value
+
+  if (existing) {
+    return existing
+  }
+
+  const userId = randomUUID()
+  cookieStore.set(USER_COOKIE, userId, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: ONE_YEAR_SECONDS,
+    path: '/'
+  })
+
+  return userId
+}
+
+export { getUserId }
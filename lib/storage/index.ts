@@ -0,0 +1,29 @@
+/**
+ * 按环境变量选择存储实现
+ * STORAGE_DRIVER = sqlite（默认）| memory
+ */
+
+import MemoryStorage from './memory'
+import SqliteStorage from './sqlite'
+import type { Storage } from './types'
+
+function createStorage(driver: string = process.env.STORAGE_DRIVER || 'sqlite'): Storage {
+  switch (driver) {
+    case 'sqlite':
+      return new SqliteStorage(process.env.STORAGE_SQLITE_PATH || 'data/weight-loss-assistant.db')
+    case 'memory':
+      return new MemoryStorage()
+    default:
+      console.warn(`Unknown STORAGE_DRIVER "${driver}", falling back to sqlite.`)
+      return createStorage('sqlite')
+  }
+}
+
+// 开发模式热更新时复用同一个实例，避免重复打开数据库
+const globalForStorage = globalThis as unknown as { storage?: Storage }
+
+export const storage = globalForStorage.storage ?? createStorage()
+globalForStorage.storage = storage
+
+export { createStorage }
+export type * from './types'
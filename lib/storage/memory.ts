@@ -0,0 +1,403 @@
+/**
+ * 内存存储实现
+ * 进程重启后数据丢失，适合离线开发和测试（STORAGE_DRIVER=memory）
+ */
+
+import { randomUUID } from 'crypto'
+import type { ChatActionStatus, MessageAction } from '../chat-actions'
+import type { CustomPersona, NewCustomPersona } from '../custom-personas'
+import { mealSlots, type FavoriteMeal, type MealEntry, type NewMealEntry } from '../meals'
+import type { UserProfile } from '../profile'
+import type { NewSafetyEvent, SafetyEvent } from '../safety'
+import type { ModelUsage, NewUsageRecord, UsageRecord, UsageTotals } from '../usage'
+import { memoryCategories, type MemoryCategory, type MemoryFact, type NewMemoryFact } from '../user-memory'
+import type { WeightEntry } from '../weight-trend'
+import type { NewWorkoutSession, WorkoutSession } from '../workouts'
+import type {
+  CachedImages,
+  Conversation,
+  ConversationStore,
+  FactStore,
+  ImageCacheStore,
+  MealStore,
+  NewMessage,
+  PersonaStore,
+  ProfileStore,
+  SafetyEventStore,
+  Storage,
+  StoredMessage,
+  UsageStore,
+  WeightStore,
+  WorkoutStore
+} from './types'
+
+class MemoryConversationStore implements ConversationStore {
+  private conversations = new Map<string, Conversation>()
+  private messages = new Map<string, StoredMessage[]>()
+
+  async listConversations(userId: string, role?: string): Promise<Conversation[]> {
+    return [...this.conversations.values()]
+      .filter(conversation => conversation.userId === userId && (!role || conversation.role === role))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+  }
+
+  async getConversation(userId: string, id: string): Promise<Conversation | null> {
+    const conversation = this.conversations.get(id)
+    return conversation && conversation.userId === userId ? conversation : null
+  }
+
+  async createConversation(userId: string, role: string, title = ''): Promise<Conversation> {
+    const now = new Date().toISOString()
+    const conversation: Conversation = { id: randomUUID(), userId, role, title, createdAt: now, updatedAt: now }
+
+    this.conversations.set(conversation.id, conversation)
+    this.messages.set(conversation.id, [])
+    return conversation
+  }
+
+  async updateConversation(userId: string, id: string, patch: { title?: string; summary?: Conversation['summary'] }): Promise<Conversation | null> {
+    const existing = await this.getConversation(userId, id)
+    if (!existing) return null
+
+    const updated: Conversation = { ...existing, ...patch, updatedAt: new Date().toISOString() }
+    this.conversations.set(id, updated)
+    return updated
+  }
+
+  async deleteConversation(userId: string, id: string): Promise<boolean> {
+    if (!(await this.getConversation(userId, id))) return false
+
+    this.conversations.delete(id)
+    this.messages.delete(id)
+    return true
+  }
+
+  async listMessages(conversationId: string): Promise<StoredMessage[]> {
+    return [...(this.messages.get(conversationId) || [])]
+  }
+
+  async appendMessage(conversationId: string, message: NewMessage): Promise<StoredMessage> {
+    const stored: StoredMessage = {
+      id: randomUUID(),
+      conversationId,
+      ...message,
+      createdAt: new Date().toISOString()
+    }
+
+    this.messages.set(conversationId, [...(this.messages.get(conversationId) || []), stored])
+
+    const conversation = this.conversations.get(conversationId)
+    if (conversation) {
+      conversation.updatedAt = stored.createdAt
+    }
+
+    return stored
+  }
+
+  async updateActionStatus(
+    conversationId: string,
+    messageId: string,
+    index: number,
+    from: ChatActionStatus,
+    to: ChatActionStatus
+  ): Promise<MessageAction[] | null> {
+    const messages = this.messages.get(conversationId) || []
+    const existing = messages.find(message => message.id === messageId)
+    if (!existing?.actions || existing.actions[index]?.status !== from) return null
+
+    const actions = existing.actions.map((item, i) => i === index ? { ...item, status: to } : item)
+    this.messages.set(conversationId, messages.map(message => message.id === messageId ? { ...existing, actions } : message))
+    return actions
+  }
+}
+
+class MemoryProfileStore implements ProfileStore {
+  private profiles = new Map<string, UserProfile>()
+
+  async getProfile(userId: string): Promise<UserProfile | null> {
+    return this.profiles.get(userId) || null
+  }
+
+  async saveProfile(userId: string, profile: UserProfile): Promise<UserProfile> {
+    this.profiles.set(userId, profile)
+    return profile
+  }
+}
+
+class MemoryWeightStore implements WeightStore {
+  /** userId -> date -> 记录 */
+  private weights = new Map<string, Map<string, WeightEntry>>()
+
+  async listWeights(userId: string, from = '0000-00-00', to = '9999-99-99'): Promise<WeightEntry[]> {
+    return [...(this.weights.get(userId)?.values() || [])]
+      .filter(entry => entry.date >= from && entry.date <= to)
+      .sort((a, b) => a.date.localeCompare(b.date))
+  }
+
+  async upsertWeight(userId: string, entry: WeightEntry): Promise<WeightEntry> {
+    if (!this.weights.has(userId)) {
+      this.weights.set(userId, new Map())
+    }
+    this.weights.get(userId)!.set(entry.date, entry)
+    return entry
+  }
+
+  async deleteWeight(userId: string, date: string): Promise<boolean> {
+    return this.weights.get(userId)?.delete(date) ?? false
+  }
+}
+
+const slotOrder = Object.keys(mealSlots)
+
+class MemoryMealStore implements MealStore {
+  /** userId -> 条目 */
+  private meals = new Map<string, MealEntry[]>()
+  private favorites = new Map<string, FavoriteMeal[]>()
+
+  async listMeals(userId: string, from = '0000-00-00', to = '9999-99-99'): Promise<MealEntry[]> {
+    return (this.meals.get(userId) || [])
+      .filter(entry => entry.date >= from && entry.date <= to)
+      .sort((a, b) =>
+        a.date.localeCompare(b.date) ||
+        slotOrder.indexOf(a.slot) - slotOrder.indexOf(b.slot) ||
+        a.createdAt.localeCompare(b.createdAt)
+      )
+  }
+
+  async addMeals(userId: string, entries: NewMealEntry[]): Promise<MealEntry[]> {
+    const now = new Date().toISOString()
+    const created = entries.map(entry => ({ ...entry, id: randomUUID(), createdAt: now }))
+
+    this.meals.set(userId, [...(this.meals.get(userId) || []), ...created])
+    return created
+  }
+
+  async updateMeal(userId: string, id: string, patch: Partial<NewMealEntry>): Promise<MealEntry | null> {
+    const entries = this.meals.get(userId) || []
+    const index = entries.findIndex(entry => entry.id === id)
+    if (index === -1) return null
+
+    entries[index] = { ...entries[index], ...patch }
+    return entries[index]
+  }
+
+  async deleteMeal(userId: string, id: string): Promise<boolean> {
+    const entries = this.meals.get(userId) || []
+    const remaining = entries.filter(entry => entry.id !== id)
+
+    this.meals.set(userId, remaining)
+    return remaining.length < entries.length
+  }
+
+  async listFavorites(userId: string): Promise<FavoriteMeal[]> {
+    return [...(this.favorites.get(userId) || [])].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  async getFavorite(userId: string, id: string): Promise<FavoriteMeal | null> {
+    return this.favorites.get(userId)?.find(favorite => favorite.id === id) || null
+  }
+
+  async createFavorite(userId: string, name: string, items: FavoriteMeal['items']): Promise<FavoriteMeal> {
+    const favorite: FavoriteMeal = { id: randomUUID(), name, items, createdAt: new Date().toISOString() }
+
+    this.favorites.set(userId, [...(this.favorites.get(userId) || []), favorite])
+    return favorite
+  }
+
+  async deleteFavorite(userId: string, id: string): Promise<boolean> {
+    const favorites = this.favorites.get(userId) || []
+    const remaining = favorites.filter(favorite => favorite.id !== id)
+
+    this.favorites.set(userId, remaining)
+    return remaining.length < favorites.length
+  }
+}
+
+class MemoryWorkoutStore implements WorkoutStore {
+  /** userId -> 训练记录 */
+  private workouts = new Map<string, WorkoutSession[]>()
+
+  async listWorkouts(userId: string, from = '0000-00-00', to = '9999-99-99'): Promise<WorkoutSession[]> {
+    return (this.workouts.get(userId) || [])
+      .filter(session => session.date >= from && session.date <= to)
+      .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt))
+  }
+
+  async getWorkout(userId: string, id: string): Promise<WorkoutSession | null> {
+    return this.workouts.get(userId)?.find(session => session.id === id) || null
+  }
+
+  async createWorkout(userId: string, session: NewWorkoutSession): Promise<WorkoutSession> {
+    const created: WorkoutSession = { ...session, id: randomUUID(), createdAt: new Date().toISOString() }
+
+    this.workouts.set(userId, [...(this.workouts.get(userId) || []), created])
+    return created
+  }
+
+  async deleteWorkout(userId: string, id: string): Promise<boolean> {
+    const sessions = this.workouts.get(userId) || []
+    const remaining = sessions.filter(session => session.id !== id)
+
+    this.workouts.set(userId, remaining)
+    return remaining.length < sessions.length
+  }
+}
+
+class MemoryImageCacheStore implements ImageCacheStore {
+  private images = new Map<string, CachedImages>()
+
+  async getImages(promptKey: string): Promise<CachedImages | null> {
+    return this.images.get(promptKey) || null
+  }
+
+  async saveImages(promptKey: string, prompt: string, urls: string[]): Promise<CachedImages> {
+    const cached: CachedImages = { promptKey, prompt, urls, createdAt: new Date().toISOString() }
+    this.images.set(promptKey, cached)
+    return cached
+  }
+}
+
+function sumUsage(records: UsageRecord[]): UsageTotals {
+  return records.reduce<UsageTotals>((totals, record) => ({
+    requests: totals.requests + 1,
+    promptTokens: totals.promptTokens + record.promptTokens,
+    completionTokens: totals.completionTokens + record.completionTokens,
+    totalTokens: totals.totalTokens + record.totalTokens,
+    images: totals.images + record.images
+  }), { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, images: 0 })
+}
+
+class MemoryUsageStore implements UsageStore {
+  private records: UsageRecord[] = []
+
+  async recordUsage(record: NewUsageRecord): Promise<UsageRecord> {
+    const stored: UsageRecord = { ...record, id: randomUUID(), createdAt: new Date().toISOString() }
+    this.records.push(stored)
+    return stored
+  }
+
+  async getDailyUsage(userId: string, date: string): Promise<UsageTotals> {
+    return sumUsage(this.records.filter(record => record.userId === userId && record.date === date))
+  }
+
+  async summarizeByModel(from: string, to: string): Promise<ModelUsage[]> {
+    const groups = new Map<string, UsageRecord[]>()
+
+    for (const record of this.records) {
+      if (record.date < from || record.date > to) continue
+      const key = `${record.model}\u0000${record.kind}`
+      groups.set(key, [...(groups.get(key) || []), record])
+    }
+
+    return [...groups.values()]
+      .map(records => ({ model: records[0].model, kind: records[0].kind, ...sumUsage(records) }))
+      .sort((a, b) => a.model.localeCompare(b.model) || a.kind.localeCompare(b.kind))
+  }
+}
+
+class MemoryPersonaStore implements PersonaStore {
+  /** userId -> 自定义角色 */
+  private personas = new Map<string, CustomPersona[]>()
+
+  async listPersonas(userId: string): Promise<CustomPersona[]> {
+    return [...(this.personas.get(userId) || [])].sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  }
+
+  async getPersona(userId: string, id: string): Promise<CustomPersona | null> {
+    return this.personas.get(userId)?.find(persona => persona.id === id) || null
+  }
+
+  async createPersona(userId: string, persona: NewCustomPersona): Promise<CustomPersona> {
+    const now = new Date().toISOString()
+    const stored: CustomPersona = { ...persona, id: randomUUID(), createdAt: now, updatedAt: now }
+
+    this.personas.set(userId, [...(this.personas.get(userId) || []), stored])
+    return stored
+  }
+
+  async updatePersona(userId: string, id: string, persona: NewCustomPersona): Promise<CustomPersona | null> {
+    const existing = await this.getPersona(userId, id)
+    if (!existing) return null
+
+    const updated: CustomPersona = { ...existing, ...persona, updatedAt: new Date().toISOString() }
+    this.personas.set(userId, (this.personas.get(userId) || []).map(item => item.id === id ? updated : item))
+    return updated
+  }
+
+  async deletePersona(userId: string, id: string): Promise<boolean> {
+    const personas = this.personas.get(userId) || []
+    const remaining = personas.filter(persona => persona.id !== id)
+
+    this.personas.set(userId, remaining)
+    return remaining.length < personas.length
+  }
+}
+
+const categoryOrder = Object.keys(memoryCategories) as MemoryCategory[]
+
+class MemoryFactStore implements FactStore {
+  /** userId -> 长期记忆 */
+  private facts = new Map<string, MemoryFact[]>()
+
+  async listFacts(userId: string): Promise<MemoryFact[]> {
+    return [...(this.facts.get(userId) || [])]
+      .sort((a, b) => categoryOrder.indexOf(a.category) - categoryOrder.indexOf(b.category) || a.createdAt.localeCompare(b.createdAt))
+  }
+
+  async addFacts(userId: string, facts: NewMemoryFact[], source: MemoryFact['source']): Promise<MemoryFact[]> {
+    const now = new Date().toISOString()
+    const stored = facts.map<MemoryFact>(fact => ({ ...fact, id: randomUUID(), source, createdAt: now, updatedAt: now }))
+
+    this.facts.set(userId, [...(this.facts.get(userId) || []), ...stored])
+    return stored
+  }
+
+  async updateFact(userId: string, id: string, fact: NewMemoryFact): Promise<MemoryFact | null> {
+    const existing = this.facts.get(userId)?.find(item => item.id === id)
+    if (!existing) return null
+
+    const updated: MemoryFact = { ...existing, ...fact, source: 'user', updatedAt: new Date().toISOString() }
+    this.facts.set(userId, (this.facts.get(userId) || []).map(item => item.id === id ? updated : item))
+    return updated
+  }
+
+  async deleteFact(userId: string, id: string): Promise<boolean> {
+    const facts = this.facts.get(userId) || []
+    const remaining = facts.filter(fact => fact.id !== id)
+
+    this.facts.set(userId, remaining)
+    return remaining.length < facts.length
+  }
+}
+
+class MemorySafetyEventStore implements SafetyEventStore {
+  private events: SafetyEvent[] = []
+
+  async recordEvent(event: NewSafetyEvent): Promise<SafetyEvent> {
+    const stored: SafetyEvent = { ...event, id: randomUUID(), createdAt: new Date().toISOString() }
+    this.events.push(stored)
+    return stored
+  }
+
+  async listEvents(from: string, to: string, limit: number): Promise<SafetyEvent[]> {
+    return this.events
+      .filter(event => event.createdAt >= from && event.createdAt <= to)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit)
+  }
+}
+
+class MemoryStorage implements Storage {
+  readonly conversations: ConversationStore = new MemoryConversationStore()
+  readonly profiles: ProfileStore = new MemoryProfileStore()
+  readonly weights: WeightStore = new MemoryWeightStore()
+  readonly meals: MealStore = new MemoryMealStore()
+  readonly workouts: WorkoutStore = new MemoryWorkoutStore()
+  readonly images: ImageCacheStore = new MemoryImageCacheStore()
+  readonly usage: UsageStore = new MemoryUsageStore()
+  readonly safety: SafetyEventStore = new MemorySafetyEventStore()
+  readonly personas: PersonaStore = new MemoryPersonaStore()
+  readonly facts: FactStore = new MemoryFactStore()
+}
+
+export default MemoryStorage
@@ -0,0 +1,911 @@
+/**
+ * SQLite 存储实现
+ * 数据库文件路径由 STORAGE_SQLITE_PATH 指定，启动时按 user_version 依次执行迁移
+ */
+
+import { randomUUID } from 'crypto'
+import { mkdirSync } from 'fs'
+import { dirname } from 'path'
+import Database from 'better-sqlite3'
+import type { ChatActionStatus, MessageAction } from '../chat-actions'
+import type { CustomPersona, NewCustomPersona } from '../custom-personas'
+import type { FavoriteMeal, MealEntry, NewMealEntry } from '../meals'
+import type { UserProfile } from '../profile'
+import type { NewSafetyEvent, SafetyCategory, SafetyEvent, SafetySeverity, SafetySource } from '../safety'
+import type { ModelUsage, NewUsageRecord, UsageKind, UsageRecord, UsageTotals } from '../usage'
+import { memoryCategories, type MemoryCategory, type MemoryFact, type NewMemoryFact } from '../user-memory'
+import type { WeightEntry } from '../weight-trend'
+import type { NewWorkoutSession, WorkoutSession } from '../workouts'
+import type {
+  CachedImages,
+  Conversation,
+  ConversationStore,
+  FactStore,
+  ImageCacheStore,
+  MealStore,
+  NewMessage,
+  PersonaStore,
+  ProfileStore,
+  SafetyEventStore,
+  Storage,
+  StoredMessage,
+  UsageStore,
+  WeightStore,
+  WorkoutStore
+} from './types'
+
+/**
+ * 按顺序执行的迁移，只能追加，不能修改已有条目
+ */
+const migrations: string[] = [
+  `
+  CREATE TABLE conversations (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    role TEXT NOT NULL,
+    title TEXT NOT NULL DEFAULT '',
+    summary TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_conversations_user ON conversations (user_id, role, updated_at);
+
+  CREATE TABLE messages (
+    id TEXT PRIMARY KEY,
+    conversation_id TEXT NOT NULL REFERENCES conversations (id) ON DELETE CASCADE,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    images TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_messages_conversation ON messages (conversation_id, created_at);
+  `,
+  `
+  CREATE TABLE profiles (
+    user_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE weights (
+    user_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    weight_kg REAL NOT NULL,
+    note TEXT,
+    PRIMARY KEY (user_id, date)
+  );
+  `,
+  `
+  CREATE TABLE meal_entries (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    slot TEXT NOT NULL,
+    name TEXT NOT NULL,
+    portion REAL NOT NULL,
+    unit TEXT NOT NULL,
+    calories REAL NOT NULL,
+    protein_g REAL NOT NULL,
+    carbs_g REAL NOT NULL,
+    fat_g REAL NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_meal_entries_user_date ON meal_entries (user_id, date);
+
+  CREATE TABLE favorite_meals (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    items TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_favorite_meals_user ON favorite_meals (user_id, created_at);
+  `,
+  `
+  CREATE TABLE workouts (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    title TEXT NOT NULL DEFAULT '',
+    duration_min REAL,
+    notes TEXT,
+    exercises TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_workouts_user_date ON workouts (user_id, date);
+  `,
+  `
+  ALTER TABLE messages ADD COLUMN actions TEXT;
+  `,
+  `
+  CREATE TABLE image_cache (
+    prompt_key TEXT PRIMARY KEY,
+    prompt TEXT NOT NULL,
+    urls TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE messages ADD COLUMN swap TEXT;
+  `,
+  `
+  CREATE TABLE usage_records (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    model TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    total_tokens INTEGER NOT NULL DEFAULT 0,
+    images INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_usage_user_date ON usage_records (user_id, date);
+  CREATE INDEX idx_usage_date ON usage_records (date);
+  `,
+  `
+  CREATE TABLE safety_events (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    conversation_id TEXT,
+    source TEXT NOT NULL,
+    category TEXT NOT NULL,
+    severity TEXT NOT NULL,
+    rule_id TEXT NOT NULL,
+    excerpt TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_safety_created ON safety_events (created_at);
+  `,
+  `
+  CREATE TABLE custom_personas (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    tone TEXT NOT NULL,
+    expertise TEXT NOT NULL,
+    avatar TEXT NOT NULL,
+    constraints TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_custom_personas_user ON custom_personas (user_id, created_at);
+  `,
+  `
+  CREATE TABLE user_facts (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    category TEXT NOT NULL,
+    content TEXT NOT NULL,
+    source TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_user_facts_user ON user_facts (user_id);
+  `,
+  `
+  ALTER TABLE messages ADD COLUMN handoff TEXT;
+  `
+]
+
+function migrate(db: Database.Database) {
+  const version = db.pragma('user_version', { simple: true }) as number
+
+  for (let i = version; i < migrations.length; i++) {
+    db.transaction(() => {
+      db.exec(migrations[i])
+      db.pragma(`user_version = ${i + 1}`)
+    })()
+  }
+}
+
+function parseJSON<T>(value: string | null): T | undefined {
+  return value ? JSON.parse(value) as T : undefined
+}
+
+interface ConversationRow {
+  id: string
+  user_id: string
+  role: string
+  title: string
+  summary: string | null
+  created_at: string
+  updated_at: string
+}
+
+interface MessageRow {
+  id: string
+  conversation_id: string
+  role: StoredMessage['role']
+  content: string
+  images: string | null
+  actions: string | null
+  swap: string | null
+  handoff: string | null
+  created_at: string
+}
+
+function toConversation(row: ConversationRow): Conversation {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    role: row.role,
+    title: row.title,
+    summary: parseJSON(row.summary),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+function toMessage(row: MessageRow): StoredMessage {
+  return {
+    id: row.id,
+    conversationId: row.conversation_id,
+    role: row.role,
+    content: row.content,
+    images: parseJSON(row.images),
+    actions: parseJSON(row.actions),
+    swap: parseJSON(row.swap),
+    handoff: parseJSON(row.handoff),
+    createdAt: row.created_at
+  }
+}
+
+class SqliteConversationStore implements ConversationStore {
+  constructor(private db: Database.Database) {}
+
+  async listConversations(userId: string, role?: string): Promise<Conversation[]> {
+    const rows = role
+      ? this.db.prepare('SELECT * FROM conversations WHERE user_id = ? AND role = ? ORDER BY updated_at DESC').all(userId, role)
+      : this.db.prepare('SELECT * FROM conversations WHERE user_id = ? ORDER BY updated_at DESC').all(userId)
+
+    return (rows as ConversationRow[]).map(toConversation)
+  }
+
+  async getConversation(userId: string, id: string): Promise<Conversation | null> {
+    const row = this.db.prepare('SELECT * FROM conversations WHERE id = ? AND user_id = ?').get(id, userId) as ConversationRow | undefined
+    return row ? toConversation(row) : null
+  }
+
+  async createConversation(userId: string, role: string, title = ''): Promise<Conversation> {
+    const now = new Date().toISOString()
+    const id = randomUUID()
+
+    this.db.prepare(
+      'INSERT INTO conversations (id, user_id, role, title, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?)'
+    ).run(id, userId, role, title, now, now)
+
+    return { id, userId, role, title, createdAt: now, updatedAt: now }
+  }
+
+  async updateConversation(userId: string, id: string, patch: { title?: string; summary?: Conversation['summary'] }): Promise<Conversation | null> {
+    const existing = await this.getConversation(userId, id)
+    if (!existing) return null
+
+    const updated: Conversation = {
+      ...existing,
+      ...patch,
+      updatedAt: new Date().toISOString()
+    }
+
+    this.db.prepare('UPDATE conversations SET title = ?, summary = ?, updated_at = ? WHERE id = ?').run(
+      updated.title,
+      updated.summary ? JSON.stringify(updated.summary) : null,
+      updated.updatedAt,
+      id
+    )
+
+    return updated
+  }
+
+  async deleteConversation(userId: string, id: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM conversations WHERE id = ? AND user_id = ?').run(id, userId)
+    return result.changes > 0
+  }
+
+  async listMessages(conversationId: string): Promise<StoredMessage[]> {
+    const rows = this.db.prepare('SELECT * FROM messages WHERE conversation_id = ? ORDER BY created_at, rowid').all(conversationId)
+    return (rows as MessageRow[]).map(toMessage)
+  }
+
+  async appendMessage(conversationId: string, message: NewMessage): Promise<StoredMessage> {
+    const stored: StoredMessage = {
+      id: randomUUID(),
+      conversationId,
+      role: message.role,
+      content: message.content,
+      images: message.images,
+      actions: message.actions,
+      swap: message.swap,
+      handoff: message.handoff,
+      createdAt: new Date().toISOString()
+    }
+
+    this.db.transaction(() => {
+      this.db.prepare(
+        'INSERT INTO messages (id, conversation_id, role, content, images, actions, swap, handoff, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      ).run(
+        stored.id,
+        conversationId,
+        stored.role,
+        stored.content,
+        stored.images ? JSON.stringify(stored.images) : null,
+        stored.actions ? JSON.stringify(stored.actions) : null,
+        stored.swap ? JSON.stringify(stored.swap) : null,
+        stored.handoff ? JSON.stringify(stored.handoff) : null,
+        stored.createdAt
+      )
+      this.db.prepare('UPDATE conversations SET updated_at = ? WHERE id = ?').run(stored.createdAt, conversationId)
+    })()
+
+    return stored
+  }
+
+  async updateActionStatus(
+    conversationId: string,
+    messageId: string,
+    index: number,
+    from: ChatActionStatus,
+    to: ChatActionStatus
+  ): Promise<MessageAction[] | null> {
+    const path = `$[${index}].status`
+    const result = this.db.prepare(
+      'UPDATE messages SET actions = json_set(actions, ?, ?) WHERE id = ? AND conversation_id = ? AND json_extract(actions, ?) = ?'
+    ).run(path, to, messageId, conversationId, path, from)
+    if (result.changes === 0) return null
+
+    const row = this.db.prepare('SELECT actions FROM messages WHERE id = ?').get(messageId) as Pick<MessageRow, 'actions'>
+    return parseJSON<MessageAction[]>(row.actions) ?? null
+  }
+}
+
+class SqliteProfileStore implements ProfileStore {
+  constructor(private db: Database.Database) {}
+
+  async getProfile(userId: string): Promise<UserProfile | null> {
+    const row = this.db.prepare('SELECT data FROM profiles WHERE user_id = ?').get(userId) as { data: string } | undefined
+    return row ? JSON.parse(row.data) as UserProfile : null
+  }
+
+  async saveProfile(userId: string, profile: UserProfile): Promise<UserProfile> {
+    this.db.prepare(`
+      INSERT INTO profiles (user_id, data, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT (user_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+    `).run(userId, JSON.stringify(profile), new Date().toISOString())
+
+    return profile
+  }
+}
+
+class SqliteWeightStore implements WeightStore {
+  constructor(private db: Database.Database) {}
+
+  async listWeights(userId: string, from = '0000-00-00', to = '9999-99-99'): Promise<WeightEntry[]> {
+    const rows = this.db.prepare(
+      'SELECT date, weight_kg, note FROM weights WHERE user_id = ? AND date >= ? AND date <= ? ORDER BY date'
+    ).all(userId, from, to) as Array<{ date: string; weight_kg: number; note: string | null }>
+
+    return rows.map(row => ({ date: row.date, weightKg: row.weight_kg, note: row.note ?? undefined }))
+  }
+
+  async upsertWeight(userId: string, entry: WeightEntry): Promise<WeightEntry> {
+    this.db.prepare(`
+      INSERT INTO weights (user_id, date, weight_kg, note) VALUES (?, ?, ?, ?)
+      ON CONFLICT (user_id, date) DO UPDATE SET weight_kg = excluded.weight_kg, note = excluded.note
+    `).run(userId, entry.date, entry.weightKg, entry.note ?? null)
+
+    return entry
+  }
+
+  async deleteWeight(userId: string, date: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM weights WHERE user_id = ? AND date = ?').run(userId, date)
+    return result.changes > 0
+  }
+}
+
+interface MealEntryRow {
+  id: string
+  date: string
+  slot: MealEntry['slot']
+  name: string
+  portion: number
+  unit: string
+  calories: number
+  protein_g: number
+  carbs_g: number
+  fat_g: number
+  created_at: string
+}
+
+interface FavoriteMealRow {
+  id: string
+  name: string
+  items: string
+  created_at: string
+}
+
+function toMealEntry(row: MealEntryRow): MealEntry {
+  return {
+    id: row.id,
+    date: row.date,
+    slot: row.slot,
+    name: row.name,
+    portion: row.portion,
+    unit: row.unit,
+    calories: row.calories,
+    proteinG: row.protein_g,
+    carbsG: row.carbs_g,
+    fatG: row.fat_g,
+    createdAt: row.created_at
+  }
+}
+
+function toFavoriteMeal(row: FavoriteMealRow): FavoriteMeal {
+  return {
+    id: row.id,
+    name: row.name,
+    items: JSON.parse(row.items),
+    createdAt: row.created_at
+  }
+}
+
+class SqliteMealStore implements MealStore {
+  constructor(private db: Database.Database) {}
+
+  async listMeals(userId: string, from = '0000-00-00', to = '9999-99-99'): Promise<MealEntry[]> {
+    const rows = this.db.prepare(`
+      SELECT * FROM meal_entries WHERE user_id = ? AND date >= ? AND date <= ?
+      ORDER BY date, CASE slot WHEN 'breakfast' THEN 0 WHEN 'lunch' THEN 1 WHEN 'dinner' THEN 2 ELSE 3 END, created_at, rowid
+    `).all(userId, from, to)
+
+    return (rows as MealEntryRow[]).map(toMealEntry)
+  }
+
+  async addMeals(userId: string, entries: NewMealEntry[]): Promise<MealEntry[]> {
+    const now = new Date().toISOString()
+    const created = entries.map(entry => ({ ...entry, id: randomUUID(), createdAt: now }))
+    const insert = this.db.prepare(`
+      INSERT INTO meal_entries (id, user_id, date, slot, name, portion, unit, calories, protein_g, carbs_g, fat_g, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+
+    this.db.transaction(() => {
+      for (const entry of created) {
+        insert.run(
+          entry.id, userId, entry.date, entry.slot, entry.name, entry.portion, entry.unit,
+          entry.calories, entry.proteinG, entry.carbsG, entry.fatG, entry.createdAt
+        )
+      }
+    })()
+
+    return created
+  }
+
+  async updateMeal(userId: string, id: string, patch: Partial<NewMealEntry>): Promise<MealEntry | null> {
+    const row = this.db.prepare('SELECT * FROM meal_entries WHERE id = ? AND user_id = ?').get(id, userId) as MealEntryRow | undefined
+    if (!row) return null
+
+    const updated: MealEntry = { ...toMealEntry(row), ...patch }
+
+    this.db.prepare(`
+      UPDATE meal_entries SET date = ?, slot = ?, name = ?, portion = ?, unit = ?, calories = ?, protein_g = ?, carbs_g = ?, fat_g = ?
+      WHERE id = ?
+    `).run(
+      updated.date, updated.slot, updated.name, updated.portion, updated.unit,
+      updated.calories, updated.proteinG, updated.carbsG, updated.fatG, id
+    )
+
+    return updated
+  }
+
+  async deleteMeal(userId: string, id: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM meal_entries WHERE id = ? AND user_id = ?').run(id, userId)
+    return result.changes > 0
+  }
+
+  async listFavorites(userId: string): Promise<FavoriteMeal[]> {
+    const rows = this.db.prepare('SELECT * FROM favorite_meals WHERE user_id = ? ORDER BY created_at DESC').all(userId)
+    return (rows as FavoriteMealRow[]).map(toFavoriteMeal)
+  }
+
+  async getFavorite(userId: string, id: string): Promise<FavoriteMeal | null> {
+    const row = this.db.prepare('SELECT * FROM favorite_meals WHERE id = ? AND user_id = ?').get(id, userId) as FavoriteMealRow | undefined
+    return row ? toFavoriteMeal(row) : null
+  }
+
+  async createFavorite(userId: string, name: string, items: FavoriteMeal['items']): Promise<FavoriteMeal> {
+    const favorite: FavoriteMeal = { id: randomUUID(), name, items, createdAt: new Date().toISOString() }
+
+    this.db.prepare('INSERT INTO favorite_meals (id, user_id, name, items, created_at) VALUES (?, ?, ?, ?, ?)').run(
+      favorite.id, userId, name, JSON.stringify(items), favorite.createdAt
+    )
+
+    return favorite
+  }
+
+  async deleteFavorite(userId: string, id: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM favorite_meals WHERE id = ? AND user_id = ?').run(id, userId)
+    return result.changes > 0
+  }
+}
+
+interface WorkoutRow {
+  id: string
+  date: string
+  title: string
+  duration_min: number | null
+  notes: string | null
+  exercises: string
+  created_at: string
+}
+
+function toWorkoutSession(row: WorkoutRow): WorkoutSession {
+  return {
+    id: row.id,
+    date: row.date,
+    title: row.title,
+    durationMin: row.duration_min ?? undefined,
+    notes: row.notes ?? undefined,
+    exercises: JSON.parse(row.exercises),
+    createdAt: row.created_at
+  }
+}
+
+class SqliteWorkoutStore implements WorkoutStore {
+  constructor(private db: Database.Database) {}
+
+  async listWorkouts(userId: string, from = '0000-00-00', to = '9999-99-99'): Promise<WorkoutSession[]> {
+    const rows = this.db.prepare(
+      'SELECT * FROM workouts WHERE user_id = ? AND date >= ? AND date <= ? ORDER BY date DESC, created_at DESC'
+    ).all(userId, from, to)
+
+    return (rows as WorkoutRow[]).map(toWorkoutSession)
+  }
+
+  async getWorkout(userId: string, id: string): Promise<WorkoutSession | null> {
+    const row = this.db.prepare('SELECT * FROM workouts WHERE id = ? AND user_id = ?').get(id, userId) as WorkoutRow | undefined
+    return row ? toWorkoutSession(row) : null
+  }
+
+  async createWorkout(userId: string, session: NewWorkoutSession): Promise<WorkoutSession> {
+    const created: WorkoutSession = { ...session, id: randomUUID(), createdAt: new Date().toISOString() }
+
+    this.db.prepare(
+      'INSERT INTO workouts (id, user_id, date, title, duration_min, notes, exercises, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    ).run(
+      created.id,
+      userId,
+      created.date,
+      created.title,
+      created.durationMin ?? null,
+      created.notes ?? null,
+      JSON.stringify(created.exercises),
+      created.createdAt
+    )
+
+    return created
+  }
+
+  async deleteWorkout(userId: string, id: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM workouts WHERE id = ? AND user_id = ?').run(id, userId)
+    return result.changes > 0
+  }
+}
+
+interface ImageCacheRow {
+  prompt_key: string
+  prompt: string
+  urls: string
+  created_at: string
+}
+
+function toCachedImages(row: ImageCacheRow): CachedImages {
+  return {
+    promptKey: row.prompt_key,
+    prompt: row.prompt,
+    urls: JSON.parse(row.urls),
+    createdAt: row.created_at
+  }
+}
+
+class SqliteImageCacheStore implements ImageCacheStore {
+  constructor(private db: Database.Database) {}
+
+  async getImages(promptKey: string): Promise<CachedImages | null> {
+    const row = this.db.prepare('SELECT * FROM image_cache WHERE prompt_key = ?').get(promptKey) as ImageCacheRow | undefined
+    return row ? toCachedImages(row) : null
+  }
+
+  async saveImages(promptKey: string, prompt: string, urls: string[]): Promise<CachedImages> {
+    const cached: CachedImages = { promptKey, prompt, urls, createdAt: new Date().toISOString() }
+
+    this.db.prepare(
+      'INSERT OR REPLACE INTO image_cache (prompt_key, prompt, urls, created_at) VALUES (?, ?, ?, ?)'
+    ).run(promptKey, prompt, JSON.stringify(urls), cached.createdAt)
+
+    return cached
+  }
+}
+
+interface UsageTotalsRow {
+  requests: number
+  prompt_tokens: number | null
+  completion_tokens: number | null
+  total_tokens: number | null
+  images: number | null
+}
+
+function toUsageTotals(row: UsageTotalsRow): UsageTotals {
+  return {
+    requests: row.requests,
+    promptTokens: row.prompt_tokens || 0,
+    completionTokens: row.completion_tokens || 0,
+    totalTokens: row.total_tokens || 0,
+    images: row.images || 0
+  }
+}
+
+const USAGE_TOTALS_COLUMNS = `COUNT(*) AS requests, SUM(prompt_tokens) AS prompt_tokens, SUM(completion_tokens) AS completion_tokens,
+  SUM(total_tokens) AS total_tokens, SUM(images) AS images`
+
+class SqliteUsageStore implements UsageStore {
+  constructor(private db: Database.Database) {}
+
+  async recordUsage(record: NewUsageRecord): Promise<UsageRecord> {
+    const stored: UsageRecord = { ...record, id: randomUUID(), createdAt: new Date().toISOString() }
+
+    this.db.prepare(
+      `INSERT INTO usage_records (id, user_id, date, model, kind, prompt_tokens, completion_tokens, total_tokens, images, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      stored.id,
+      stored.userId,
+      stored.date,
+      stored.model,
+      stored.kind,
+      stored.promptTokens,
+      stored.completionTokens,
+      stored.totalTokens,
+      stored.images,
+      stored.createdAt
+    )
+
+    return stored
+  }
+
+  async getDailyUsage(userId: string, date: string): Promise<UsageTotals> {
+    const row = this.db.prepare(`SELECT ${USAGE_TOTALS_COLUMNS} FROM usage_records WHERE user_id = ? AND date = ?`)
+      .get(userId, date) as UsageTotalsRow
+    return toUsageTotals(row)
+  }
+
+  async summarizeByModel(from: string, to: string): Promise<ModelUsage[]> {
+    const rows = this.db.prepare(
+      `SELECT model, kind, ${USAGE_TOTALS_COLUMNS} FROM usage_records WHERE date >= ? AND date <= ? GROUP BY model, kind ORDER BY model, kind`
+    ).all(from, to) as Array<UsageTotalsRow & { model: string; kind: UsageKind }>
+
+    return rows.map(row => ({ model: row.model, kind: row.kind, ...toUsageTotals(row) }))
+  }
+}
+
+interface CustomPersonaRow {
+  id: string
+  name: string
+  tone: string
+  expertise: string
+  avatar: string
+  constraints: string
+  created_at: string
+  updated_at: string
+}
+
+function toCustomPersona(row: CustomPersonaRow): CustomPersona {
+  return {
+    id: row.id,
+    name: row.name,
+    tone: row.tone,
+    expertise: row.expertise,
+    avatar: row.avatar,
+    constraints: row.constraints,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+class SqlitePersonaStore implements PersonaStore {
+  constructor(private db: Database.Database) {}
+
+  async listPersonas(userId: string): Promise<CustomPersona[]> {
+    const rows = this.db.prepare('SELECT * FROM custom_personas WHERE user_id = ? ORDER BY created_at').all(userId)
+    return (rows as CustomPersonaRow[]).map(toCustomPersona)
+  }
+
+  async getPersona(userId: string, id: string): Promise<CustomPersona | null> {
+    const row = this.db.prepare('SELECT * FROM custom_personas WHERE id = ? AND user_id = ?').get(id, userId) as CustomPersonaRow | undefined
+    return row ? toCustomPersona(row) : null
+  }
+
+  async createPersona(userId: string, persona: NewCustomPersona): Promise<CustomPersona> {
+    const now = new Date().toISOString()
+    const stored: CustomPersona = { ...persona, id: randomUUID(), createdAt: now, updatedAt: now }
+
+    this.db.prepare(
+      `INSERT INTO custom_personas (id, user_id, name, tone, expertise, avatar, constraints, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(stored.id, userId, stored.name, stored.tone, stored.expertise, stored.avatar, stored.constraints, now, now)
+
+    return stored
+  }
+
+  async updatePersona(userId: string, id: string, persona: NewCustomPersona): Promise<CustomPersona | null> {
+    const result = this.db.prepare(
+      `UPDATE custom_personas SET name = ?, tone = ?, expertise = ?, avatar = ?, constraints = ?, updated_at = ?
+       WHERE id = ? AND user_id = ?`
+    ).run(persona.name, persona.tone, persona.expertise, persona.avatar, persona.constraints, new Date().toISOString(), id, userId)
+
+    return result.changes > 0 ? this.getPersona(userId, id) : null
+  }
+
+  async deletePersona(userId: string, id: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM custom_personas WHERE id = ? AND user_id = ?').run(id, userId)
+    return result.changes > 0
+  }
+}
+
+interface MemoryFactRow {
+  id: string
+  category: MemoryCategory
+  content: string
+  source: MemoryFact['source']
+  created_at: string
+  updated_at: string
+}
+
+function toMemoryFact(row: MemoryFactRow): MemoryFact {
+  return {
+    id: row.id,
+    category: row.category,
+    content: row.content,
+    source: row.source,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+const categoryOrder = Object.keys(memoryCategories) as MemoryCategory[]
+
+class SqliteFactStore implements FactStore {
+  constructor(private db: Database.Database) {}
+
+  async listFacts(userId: string): Promise<MemoryFact[]> {
+    const rows = this.db.prepare('SELECT * FROM user_facts WHERE user_id = ? ORDER BY created_at, rowid').all(userId) as MemoryFactRow[]
+    return rows.map(toMemoryFact).sort((a, b) => categoryOrder.indexOf(a.category) - categoryOrder.indexOf(b.category))
+  }
+
+  async addFacts(userId: string, facts: NewMemoryFact[], source: MemoryFact['source']): Promise<MemoryFact[]> {
+    const now = new Date().toISOString()
+    const stored = facts.map<MemoryFact>(fact => ({ ...fact, id: randomUUID(), source, createdAt: now, updatedAt: now }))
+    const insert = this.db.prepare(
+      'INSERT INTO user_facts (id, user_id, category, content, source, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    )
+
+    this.db.transaction(() => {
+      for (const fact of stored) {
+        insert.run(fact.id, userId, fact.category, fact.content, fact.source, now, now)
+      }
+    })()
+
+    return stored
+  }
+
+  async updateFact(userId: string, id: string, fact: NewMemoryFact): Promise<MemoryFact | null> {
+    const result = this.db.prepare(
+      "UPDATE user_facts SET category = ?, content = ?, source = 'user', updated_at = ? WHERE id = ? AND user_id = ?"
+    ).run(fact.category, fact.content, new Date().toISOString(), id, userId)
+    if (result.changes === 0) return null
+
+    const row = this.db.prepare('SELECT * FROM user_facts WHERE id = ?').get(id) as MemoryFactRow
+    return toMemoryFact(row)
+  }
+
+  async deleteFact(userId: string, id: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM user_facts WHERE id = ? AND user_id = ?').run(id, userId)
+    return result.changes > 0
+  }
+}
+
+interface SafetyEventRow {
+  id: string
+  user_id: string
+  conversation_id: string | null
+  source: SafetySource
+  category: SafetyCategory
+  severity: SafetySeverity
+  rule_id: string
+  excerpt: string
+  created_at: string
+}
+
+function toSafetyEvent(row: SafetyEventRow): SafetyEvent {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    ...(row.conversation_id ? { conversationId: row.conversation_id } : {}),
+    source: row.source,
+    category: row.category,
+    severity: row.severity,
+    ruleId: row.rule_id,
+    excerpt: row.excerpt,
+    createdAt: row.created_at
+  }
+}
+
+class SqliteSafetyEventStore implements SafetyEventStore {
+  constructor(private db: Database.Database) {}
+
+  async recordEvent(event: NewSafetyEvent): Promise<SafetyEvent> {
+    const stored: SafetyEvent = { ...event, id: randomUUID(), createdAt: new Date().toISOString() }
+
+    this.db.prepare(
+      `INSERT INTO safety_events (id, user_id, conversation_id, source, category, severity, rule_id, excerpt, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      stored.id,
+      stored.userId,
+      stored.conversationId ?? null,
+      stored.source,
+      stored.category,
+      stored.severity,
+      stored.ruleId,
+      stored.excerpt,
+      stored.createdAt
+    )
+
+    return stored
+  }
+
+  async listEvents(from: string, to: string, limit: number): Promise<SafetyEvent[]> {
+    const rows = this.db.prepare(
+      'SELECT * FROM safety_events WHERE created_at >= ? AND created_at <= ? ORDER BY created_at DESC LIMIT ?'
+    ).all(from, to, limit) as SafetyEventRow[]
+
+    return rows.map(toSafetyEvent)
+  }
+}
+
+class SqliteStorage implements Storage {
+  readonly conversations: ConversationStore
+  readonly profiles: ProfileStore
+  readonly weights: WeightStore
+  readonly meals: MealStore
+  readonly workouts: WorkoutStore
+  readonly images: ImageCacheStore
+  readonly usage: UsageStore
+  readonly safety: SafetyEventStore
+  readonly personas: PersonaStore
+  readonly facts: FactStore
+
+  constructor(filename: string) {
+    mkdirSync(dirname(filename), { recursive: true })
+
+    const db = new Database(filename)
+    db.pragma('journal_mode = WAL')
+    db.pragma('foreign_keys = ON')
+    migrate(db)
+
+    this.conversations = new SqliteConversationStore(db)
+    this.profiles = new SqliteProfileStore(db)
+    this.weights = new SqliteWeightStore(db)
+    this.meals = new SqliteMealStore(db)
+    this.workouts = new SqliteWorkoutStore(db)
+    this.images = new SqliteImageCacheStore(db)
+    this.usage = new SqliteUsageStore(db)
+    this.safety = new SqliteSafetyEventStore(db)
+    this.personas = new SqlitePersonaStore(db)
+    this.facts = new SqliteFactStore(db)
+  }
+}
+
+export default SqliteStorage
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import MemoryStorage from './memory'
+import SqliteStorage from './sqlite'
+import type { Storage } from './types'
+
+const drivers: Array<[string, () => Storage]> = [
+  ['memory', () => new MemoryStorage()],
+  ['sqlite', () => new SqliteStorage(':memory:')]
+]
+
+describe.each(drivers)('%s 存储', (_name, createStorage) => {
+  async function createMessageWithActions(storage: Storage) {
+    const conversation = await storage.conversations.createConversation('user-1', 'nutritionist')
+    const message = await storage.conversations.appendMessage(conversation.id, {
+      role: 'assistant',
+      content: '帮你记下来？',
+      actions: [
+        { action: { type: 'log_weight', weightKg: 60 }, status: 'pending' },
+        { action: { type: 'set_goal', goal: 'lose' }, status: 'pending' }
+      ],
+      handoff: { from: 'supportive_friend', fromName: '知心朋友', to: 'nutritionist', summary: '想算热量' }
+    })
+    return { conversationId: conversation.id, messageId: message.id }
+  }
+
+  it('只有状态符合时才更新操作', async () => {
+    const storage = createStorage()
+    const { conversationId, messageId } = await createMessageWithActions(storage)
+
+    const first = await storage.conversations.updateActionStatus(conversationId, messageId, 0, 'pending', 'applied')
+    const second = await storage.conversations.updateActionStatus(conversationId, messageId, 0, 'pending', 'applied')
+
+    expect(first?.map(item => item.status)).toEqual(['applied', 'pending'])
+    expect(second).toBeNull()
+  })
+
+  it('并发确认只有一个成功', async () => {
+    const storage = createStorage()
+    const { conversationId, messageId } = await createMessageWithActions(storage)
+
+    const results = await Promise.all([
+      storage.conversations.updateActionStatus(conversationId, messageId, 1, 'pending', 'applied'),
+      storage.conversations.updateActionStatus(conversationId, messageId, 1, 'pending', 'dismissed')
+    ])
+
+    expect(results.filter(Boolean)).toHaveLength(1)
+  })
+
+  it('可以把状态恢复为待确认', async () => {
+    const storage = createStorage()
+    const { conversationId, messageId } = await createMessageWithActions(storage)
+
+    await storage.conversations.updateActionStatus(conversationId, messageId, 0, 'pending', 'applied')
+    const reverted = await storage.conversations.updateActionStatus(conversationId, messageId, 0, 'applied', 'pending')
+
+    expect(reverted?.[0].status).toBe('pending')
+  })
+
+  it('操作或消息不存在时返回 null', async () => {
+    const storage = createStorage()
+    const { conversationId, messageId } = await createMessageWithActions(storage)
+
+    expect(await storage.conversations.updateActionStatus(conversationId, messageId, 5, 'pending', 'applied')).toBeNull()
+    expect(await storage.conversations.updateActionStatus(conversationId, 'missing', 0, 'pending', 'applied')).toBeNull()
+  })
+
+  it('保存并读出转接事件', async () => {
+    const storage = createStorage()
+    const { conversationId } = await createMessageWithActions(storage)
+    const [message] = await storage.conversations.listMessages(conversationId)
+
+    expect(message.handoff).toEqual({ from: 'supportive_friend', fromName: '知心朋友', to: 'nutritionist', summary: '想算热量' })
+  })
+})
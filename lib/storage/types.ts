@@ -0,0 +1,189 @@
+/**
+ * 服务端存储接口
+ * 默认使用 SQLite 文件，也可以换成内存或其他实现，见 ./index.ts
+ */
+
+import type { ChatActionStatus, MessageAction } from '../chat-actions'
+import type { HealthySwap } from '../healthy-swap'
+import type { Handoff } from '../handoff'
+import type { ConversationSummary } from '../chat-history'
+import type { CustomPersona, NewCustomPersona } from '../custom-personas'
+import type { FavoriteMeal, MealEntry, NewMealEntry } from '../meals'
+import type { UserProfile } from '../profile'
+import type { NewSafetyEvent, SafetyEvent } from '../safety'
+import type { ModelUsage, NewUsageRecord, UsageRecord, UsageTotals } from '../usage'
+import type { MemoryFact, NewMemoryFact } from '../user-memory'
+import type { WeightEntry } from '../weight-trend'
+import type { NewWorkoutSession, WorkoutSession } from '../workouts'
+
+interface Conversation {
+  id: string
+  userId: string
+  role: string
+  title: string
+  summary?: ConversationSummary
+  createdAt: string
+  updatedAt: string
+}
+
+interface StoredMessage {
+  id: string
+  conversationId: string
+  role: 'user' | 'assistant'
+  content: string
+  images?: string[]
+  /** 助手提议的操作，等待用户确认 */
+  actions?: MessageAction[]
+  /** 健康替换对比 */
+  swap?: HealthySwap
+  /** 用户消息是从其他角色转接过来时，记录转接事件 */
+  handoff?: Handoff
+  createdAt: string
+}
+
+interface NewMessage {
+  role: StoredMessage['role']
+  content: string
+  images?: string[]
+  actions?: MessageAction[]
+  swap?: HealthySwap
+  handoff?: Handoff
+}
+
+interface ConversationStore {
+  /** 按更新时间倒序列出用户的对话，可按角色筛选 */
+  listConversations(userId: string, role?: string): Promise<Conversation[]>
+  getConversation(userId: string, id: string): Promise<Conversation | null>
+  createConversation(userId: string, role: string, title?: string): Promise<Conversation>
+  updateConversation(userId: string, id: string, patch: { title?: string; summary?: ConversationSummary }): Promise<Conversation | null>
+  /** 删除对话及其消息，返回是否删除成功 */
+  deleteConversation(userId: string, id: string): Promise<boolean>
+  /** 按时间正序返回对话的全部消息 */
+  listMessages(conversationId: string): Promise<StoredMessage[]>
+  /** 追加消息并刷新对话的更新时间 */
+  appendMessage(conversationId: string, message: NewMessage): Promise<StoredMessage>
+  /**
+   * 操作当前状态为 from 时原子地改为 to，返回更新后的全部操作；消息或操作不存在、状态已变时返回 null
+   * 并发的重复确认只有一个能成功
+   */
+  updateActionStatus(
+    conversationId: string,
+    messageId: string,
+    index: number,
+    from: ChatActionStatus,
+    to: ChatActionStatus
+  ): Promise<MessageAction[] | null>
+}
+
+interface ProfileStore {
+  getProfile(userId: string): Promise<UserProfile | null>
+  /** 保存（覆盖）用户资料 */
+  saveProfile(userId: string, profile: UserProfile): Promise<UserProfile>
+}
+
+interface WeightStore {
+  /** 按日期正序返回记录，可限定日期范围（含端点） */
+  listWeights(userId: string, from?: string, to?: string): Promise<WeightEntry[]>
+  /** 每天只保留一条称重记录，重复记录覆盖 */
+  upsertWeight(userId: string, entry: WeightEntry): Promise<WeightEntry>
+  deleteWeight(userId: string, date: string): Promise<boolean>
+}
+
+interface MealStore {
+  /** 按日期、餐次和添加时间排序返回条目，可限定日期范围（含端点） */
+  listMeals(userId: string, from?: string, to?: string): Promise<MealEntry[]>
+  addMeals(userId: string, entries: NewMealEntry[]): Promise<MealEntry[]>
+  updateMeal(userId: string, id: string, patch: Partial<NewMealEntry>): Promise<MealEntry | null>
+  deleteMeal(userId: string, id: string): Promise<boolean>
+  /** 按创建时间倒序列出收藏 */
+  listFavorites(userId: string): Promise<FavoriteMeal[]>
+  getFavorite(userId: string, id: string): Promise<FavoriteMeal | null>
+  createFavorite(userId: string, name: string, items: FavoriteMeal['items']): Promise<FavoriteMeal>
+  deleteFavorite(userId: string, id: string): Promise<boolean>
+}
+
+interface WorkoutStore {
+  /** 按日期倒序返回训练记录，可限定日期范围（含端点） */
+  listWorkouts(userId: string, from?: string, to?: string): Promise<WorkoutSession[]>
+  getWorkout(userId: string, id: string): Promise<WorkoutSession | null>
+  createWorkout(userId: string, session: NewWorkoutSession): Promise<WorkoutSession>
+  deleteWorkout(userId: string, id: string): Promise<boolean>
+}
+
+/** 生成过的图片，按归一化提示词的哈希索引，所有用户共用 */
+interface CachedImages {
+  promptKey: string
+  prompt: string
+  /** 本地文件地址 */
+  urls: string[]
+  createdAt: string
+}
+
+interface ImageCacheStore {
+  getImages(promptKey: string): Promise<CachedImages | null>
+  /** 保存（覆盖）提示词对应的图片 */
+  saveImages(promptKey: string, prompt: string, urls: string[]): Promise<CachedImages>
+}
+
+interface UsageStore {
+  recordUsage(record: NewUsageRecord): Promise<UsageRecord>
+  /** 用户某一天的用量合计 */
+  getDailyUsage(userId: string, date: string): Promise<UsageTotals>
+  /** 按模型和类型汇总日期范围内（含端点）所有用户的用量，按模型名排序 */
+  summarizeByModel(from: string, to: string): Promise<ModelUsage[]>
+}
+
+interface PersonaStore {
+  /** 按创建时间排序 */
+  listPersonas(userId: string): Promise<CustomPersona[]>
+  getPersona(userId: string, id: string): Promise<CustomPersona | null>
+  createPersona(userId: string, persona: NewCustomPersona): Promise<CustomPersona>
+  updatePersona(userId: string, id: string, persona: NewCustomPersona): Promise<CustomPersona | null>
+  deletePersona(userId: string, id: string): Promise<boolean>
+}
+
+interface FactStore {
+  /** 按类别和创建时间排序 */
+  listFacts(userId: string): Promise<MemoryFact[]>
+  addFacts(userId: string, facts: NewMemoryFact[], source: MemoryFact['source']): Promise<MemoryFact[]>
+  /** 修改后来源记为 user */
+  updateFact(userId: string, id: string, fact: NewMemoryFact): Promise<MemoryFact | null>
+  deleteFact(userId: string, id: string): Promise<boolean>
+}
+
+interface SafetyEventStore {
+  recordEvent(event: NewSafetyEvent): Promise<SafetyEvent>
+  /** 时间范围内（ISO 时间，含端点）的命中事件，最新的在前 */
+  listEvents(from: string, to: string, limit: number): Promise<SafetyEvent[]>
+}
+
+interface Storage {
+  conversations: ConversationStore
+  profiles: ProfileStore
+  weights: WeightStore
+  meals: MealStore
+  workouts: WorkoutStore
+  images: ImageCacheStore
+  usage: UsageStore
+  safety: SafetyEventStore
+  personas: PersonaStore
+  facts: FactStore
+}
+
+export type {
+  CachedImages,
+  Conversation,
+  ConversationStore,
+  FactStore,
+  ImageCacheStore,
+  MealStore,
+  NewMessage,
+  PersonaStore,
+  ProfileStore,
+  SafetyEventStore,
+  Storage,
+  StoredMessage,
+  UsageStore,
+  WeightStore,
+  WorkoutStore
+}
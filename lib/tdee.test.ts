@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { addDays } from './dates'
+import type { MealEntry } from './meals'
+import { profileSchema } from './profile'
+import { estimateAdaptiveTdee, formatTdeePrompt } from './tdee'
+import type { WeightEntry } from './weight-trend'
+
+const profile = profileSchema.parse({ age: 30, sex: 'male', heightCm: 175, weightKg: 80, goal: 'lose', activityLevel: 'moderate' })
+const endDate = '2024-05-28'
+
+// (10×80 + 6.25×175 − 5×30 + 5) × 1.55
+const PRIOR_KCAL = 2711
+
+function meals(days: number, calories: number): MealEntry[] {
+  return Array.from({ length: days }, (_, index) => ({
+    id: `meal-${index}`,
+    createdAt: '',
+    date: addDays(endDate, -index),
+    slot: 'lunch',
+    name: '米饭',
+    portion: 1,
+    unit: '份',
+    calories,
+    proteinG: 0,
+    carbsG: 0,
+    fatG: 0
+  }))
+}
+
+/** 每天一次称重，按 weeklyChangeKg 线性变化 */
+function weights(days: number, weeklyChangeKg: number): WeightEntry[] {
+  return Array.from({ length: days }, (_, index) => ({
+    date: addDays(endDate, -(days - 1 - index)),
+    weightKg: 80 + (weeklyChangeKg / 7) * index
+  }))
+}
+
+describe('estimateAdaptiveTdee', () => {
+  it('数据不足时使用静态估算', () => {
+    const tdee = estimateAdaptiveTdee({ profile, meals: meals(3, 2000), weights: [], endDate })
+
+    expect(tdee).toMatchObject({ estimateKcal: PRIOR_KCAL, priorKcal: PRIOR_KCAL, observedKcal: null, confidence: 0, loggedDays: 3, averageIntakeKcal: 2000 })
+  })
+
+  it('漏记（低于 600kcal）的日子不计入', () => {
+    const tdee = estimateAdaptiveTdee({ profile, meals: [...meals(7, 2000), ...meals(14, 300).slice(7)], weights: [], endDate })
+
+    expect(tdee.loggedDays).toBe(7)
+    expect(tdee.averageIntakeKcal).toBe(2000)
+  })
+
+  it('体重稳定时实际摄入就是维持热量，按记录天数加权', () => {
+    const tdee = estimateAdaptiveTdee({ profile, meals: meals(28, 2400), weights: weights(28, 0), endDate })
+
+    expect(tdee.observedKcal).toBe(2400)
+    expect(tdee.confidence).toBe(1)
+    expect(tdee.estimateKcal).toBe(Math.round(0.85 * 2400 + 0.15 * PRIOR_KCAL))
+  })
+
+  it('体重下降时反推的消耗高于摄入', () => {
+    const tdee = estimateAdaptiveTdee({ profile, meals: meals(28, 2000), weights: weights(28, -0.5), endDate })
+
+    expect(tdee.weeklyChangeKg).toBeLessThan(0)
+    expect(tdee.observedKcal).toBeGreaterThan(2000)
+  })
+
+  it('反推结果限制在静态估算的 0.5-1.5 倍之间', () => {
+    const tdee = estimateAdaptiveTdee({ profile, meals: meals(28, 700), weights: weights(28, 1), endDate })
+
+    expect(tdee.observedKcal).toBe(Math.round(PRIOR_KCAL * 0.5))
+  })
+
+  it('窗口外的记录不参与计算', () => {
+    const tdee = estimateAdaptiveTdee({ profile, meals: meals(28, 2000), weights: [], endDate, windowDays: 7 })
+
+    expect(tdee.windowDays).toBe(7)
+    expect(tdee.loggedDays).toBe(7)
+  })
+})
+
+describe('formatTdeePrompt', () => {
+  it('说明估算依据和建议摄入', () => {
+    const fallback = formatTdeePrompt(estimateAdaptiveTdee({ profile, meals: [], weights: [], endDate }), 2211)
+    expect(fallback).toContain('Mifflin-St Jeor')
+    expect(fallback).toContain('建议每日摄入 2211kcal')
+
+    const adaptive = formatTdeePrompt(estimateAdaptiveTdee({ profile, meals: meals(28, 2400), weights: weights(28, 0), endDate }), 1900)
+    expect(adaptive).toContain('结合最近 28 天中 28 天的饮食记录')
+  })
+})
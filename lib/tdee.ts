@@ -0,0 +1,132 @@
+/**
+ * 自适应 TDEE 估算
+ * 用滚动窗口内的饮食记录和体重趋势反推实际维持热量：TDEE ≈ 平均摄入 − 体重变化 × 7700 / 天数，
+ * 再按数据充足程度与 Mifflin-St Jeor 静态估算加权混合
+ */
+
+import { addDays, daysBetween } from './dates'
+import type { MealEntry } from './meals'
+import { estimateStaticTdee } from './nutrition-targets'
+import type { UserProfile } from './profile'
+import { computeTrend, computeWeeklyRate, type WeightEntry } from './weight-trend'
+
+/** 每公斤体重变化对应的能量 */
+const KCAL_PER_KG = 7700
+
+/** 滚动窗口天数 */
+const TDEE_WINDOW_DAYS = 28
+
+/** 当天记录低于此热量视为漏记，不参与计算，避免拉低平均摄入 */
+const MIN_LOGGED_DAY_KCAL = 600
+
+/** 数据最低要求，不满足时完全使用静态估算 */
+const MIN_LOGGED_DAYS = 7
+const MIN_WEIGH_INS = 3
+const MIN_WEIGH_IN_SPAN_DAYS = 10
+
+/** 记录满这么多天时置信度达到 1 */
+const FULL_CONFIDENCE_DAYS = 21
+
+/** 即使数据充足也保留一部分静态估算，平滑单周的记录误差 */
+const MAX_OBSERVED_WEIGHT = 0.85
+
+interface TdeeEstimate {
+  /** 混合后的 TDEE */
+  estimateKcal: number
+  /** Mifflin-St Jeor × 活动系数 */
+  priorKcal: number
+  /** 由摄入和体重变化反推的 TDEE，数据不足时为 null */
+  observedKcal: number | null
+  /** 0-1，实际数据在估算中的可信程度 */
+  confidence: number
+  windowDays: number
+  loggedDays: number
+  averageIntakeKcal: number | null
+  /** 窗口内趋势体重的每周变化 */
+  weeklyChangeKg: number | null
+}
+
+interface AdaptiveTdeeInput {
+  profile: UserProfile
+  meals: MealEntry[]
+  weights: WeightEntry[]
+  /** 窗口结束日期（含） */
+  endDate: string
+  windowDays?: number
+}
+
+function estimateAdaptiveTdee({ profile, meals, weights, endDate, windowDays = TDEE_WINDOW_DAYS }: AdaptiveTdeeInput): TdeeEstimate {
+  const startDate = addDays(endDate, -(windowDays - 1))
+  const priorKcal = Math.round(estimateStaticTdee(profile))
+
+  // 每天的摄入合计，只保留记录完整的日子
+  const intakeByDate = new Map<string, number>()
+  for (const meal of meals) {
+    if (meal.date >= startDate && meal.date <= endDate) {
+      intakeByDate.set(meal.date, (intakeByDate.get(meal.date) || 0) + meal.calories)
+    }
+  }
+  const loggedIntakes = [...intakeByDate.values()].filter(kcal => kcal >= MIN_LOGGED_DAY_KCAL)
+  const loggedDays = loggedIntakes.length
+  const averageIntakeKcal = loggedDays > 0 ? loggedIntakes.reduce((sum, kcal) => sum + kcal, 0) / loggedDays : null
+
+  // 趋势基于全部记录计算，避免窗口起点的趋势失真
+  const windowPoints = computeTrend(weights).filter(point => point.date >= startDate && point.date <= endDate)
+  const weighInSpan = windowPoints.length > 1 ? daysBetween(windowPoints[0].date, windowPoints[windowPoints.length - 1].date) : 0
+  const weeklyChangeKg = computeWeeklyRate(windowPoints, windowDays)
+
+  const hasEnoughData = averageIntakeKcal !== null && weeklyChangeKg !== null &&
+    loggedDays >= MIN_LOGGED_DAYS &&
+    windowPoints.length >= MIN_WEIGH_INS &&
+    weighInSpan >= MIN_WEIGH_IN_SPAN_DAYS
+
+  if (!hasEnoughData) {
+    return {
+      estimateKcal: priorKcal,
+      priorKcal,
+      observedKcal: null,
+      confidence: 0,
+      windowDays,
+      loggedDays,
+      averageIntakeKcal: averageIntakeKcal !== null ? Math.round(averageIntakeKcal) : null,
+      weeklyChangeKg
+    }
+  }
+
+  // 限制在静态估算的 0.5-1.5 倍之间，过滤明显的漏记或称重异常
+  const rawObserved = averageIntakeKcal - (weeklyChangeKg / 7) * KCAL_PER_KG
+  const observedKcal = Math.min(Math.max(rawObserved, priorKcal * 0.5), priorKcal * 1.5)
+
+  const confidence = Math.min(loggedDays / FULL_CONFIDENCE_DAYS, 1)
+  const weight = confidence * MAX_OBSERVED_WEIGHT
+
+  return {
+    estimateKcal: Math.round(weight * observedKcal + (1 - weight) * priorKcal),
+    priorKcal,
+    observedKcal: Math.round(observedKcal),
+    confidence: Math.round(confidence * 100) / 100,
+    windowDays,
+    loggedDays,
+    averageIntakeKcal: Math.round(averageIntakeKcal),
+    weeklyChangeKg: Math.round(weeklyChangeKg * 100) / 100
+  }
+}
+
+/**
+ * 生成注入营养师系统提示的段落
+ */
+function formatTdeePrompt(tdee: TdeeEstimate, targetKcal: number): string {
+  const basis = tdee.observedKcal !== null
+    ? `结合最近 ${tdee.windowDays} 天中 ${tdee.loggedDays} 天的饮食记录和体重趋势（每周 ${tdee.weeklyChangeKg! > 0 ? '+' : ''}${tdee.weeklyChangeKg}kg）校正，置信度 ${Math.round(tdee.confidence * 100)}%`
+    : '饮食和称重记录还不够，暂按 Mifflin-St Jeor 公式和活动水平估算'
+
+  return [
+    '能量需求：',
+    `- 估算每日消耗（TDEE）约 ${tdee.estimateKcal}kcal，${basis}`,
+    `- 建议每日摄入 ${targetKcal}kcal`,
+    '制定饮食计划和评价用户摄入时以这个目标为准。'
+  ].join('\n')
+}
+
+export { TDEE_WINDOW_DAYS, estimateAdaptiveTdee, formatTdeePrompt }
+export type { AdaptiveTdeeInput, TdeeEstimate }
@@ -0,0 +1,169 @@
+/**
+ * 用量记账和配额
+ * 每次模型调用的 token 和生成图片数按用户、日期记入账本；超出每日配额时拒绝聊天或跳过生成图片，
+ * 管理后台按模型汇总用量并按单价估算花费
+ */
+
+import { startOfNextDay, toDateKey } from './dates'
+import type { LLMProvider } from './llm'
+import MeteredProvider, { type MeteredUsage } from './llm/metered'
+import { storage } from './storage'
+
+type UsageKind = MeteredUsage['kind']
+
+interface UsageTotals {
+  requests: number
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  images: number
+}
+
+interface NewUsageRecord {
+  userId: string
+  date: string
+  model: string
+  kind: UsageKind
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+  images: number
+}
+
+interface UsageRecord extends NewUsageRecord {
+  id: string
+  createdAt: string
+}
+
+interface ModelUsage extends UsageTotals {
+  model: string
+  kind: UsageKind
+}
+
+/** 单价（元），token 按每百万计 */
+interface ModelPrice {
+  inputPerMillion?: number
+  outputPerMillion?: number
+  perImage?: number
+}
+
+interface UsageQuota {
+  /** 每日 token 上限，0 表示不限制 */
+  dailyTokens: number
+  /** 每日生成图片上限，0 表示不限制 */
+  dailyImages: number
+}
+
+interface QuotaStatus {
+  usage: UsageTotals
+  quota: UsageQuota
+  /** token 用完后拒绝聊天 */
+  tokensExceeded: boolean
+  /** 图片用完后只跳过生成图片，聊天照常 */
+  imagesExceeded: boolean
+}
+
+/** 默认模型的参考单价，可通过 MODEL_PRICES 覆盖或补充 */
+const defaultPrices: Record<string, ModelPrice> = {
+  'doubao-seed-1-6-flash-250615': { inputPerMillion: 0.15, outputPerMillion: 1.5 },
+  'doubao-seedream-4-0-250828': { perImage: 0.2 },
+  'gpt-4o-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  'dall-e-3': { perImage: 0.3 }
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+function getUsageQuota(): UsageQuota {
+  return {
+    dailyTokens: readNumberEnv('USAGE_DAILY_TOKEN_LIMIT', 200_000),
+    dailyImages: readNumberEnv('USAGE_DAILY_IMAGE_LIMIT', 10)
+  }
+}
+
+function getModelPrices(): Record<string, ModelPrice> {
+  let overrides: Record<string, ModelPrice> = {}
+
+  if (process.env.MODEL_PRICES) {
+    try {
+      overrides = JSON.parse(process.env.MODEL_PRICES)
+    } catch (error) {
+      console.error('MODEL_PRICES 解析失败，使用默认单价:', error)
+    }
+  }
+
+  return { ...defaultPrices, ...overrides }
+}
+
+/**
+ * 按单价估算花费（元），没有配置单价的模型返回 null
+ */
+function estimateCost(usage: Pick<ModelUsage, 'model' | 'promptTokens' | 'completionTokens' | 'images'>, prices = getModelPrices()): number | null {
+  const price = prices[usage.model]
+  if (!price) return null
+
+  const cost = usage.promptTokens / 1_000_000 * (price.inputPerMillion || 0) +
+    usage.completionTokens / 1_000_000 * (price.outputPerMillion || 0) +
+    usage.images * (price.perImage || 0)
+
+  return Math.round(cost * 10000) / 10000
+}
+
+/**
+ * 读取用户今天的用量并和配额比较
+ */
+async function checkUsageQuota(userId: string): Promise<QuotaStatus> {
+  const quota = getUsageQuota()
+  const usage = await storage.usage.getDailyUsage(userId, toDateKey())
+
+  return {
+    usage,
+    quota,
+    tokensExceeded: quota.dailyTokens > 0 && usage.totalTokens >= quota.dailyTokens,
+    imagesExceeded: quota.dailyImages > 0 && usage.images >= quota.dailyImages
+  }
+}
+
+/**
+ * 距离明天零点（配额重置）的秒数，和按日统计用量使用同一时区
+ */
+function secondsUntilQuotaReset(now: Date = new Date()): number {
+  const midnight = startOfNextDay(now)
+  return Math.max(1, Math.ceil((midnight.getTime() - now.getTime()) / 1000))
+}
+
+/**
+ * 包装服务商，把这次请求中的所有模型调用记到用户名下
+ */
+function createMeteredProvider(provider: LLMProvider, userId: string): LLMProvider {
+  return new MeteredProvider(provider, usage => {
+    const record: NewUsageRecord = usage.kind === 'chat'
+      ? {
+          userId,
+          date: toDateKey(),
+          model: usage.model,
+          kind: 'chat',
+          promptTokens: usage.usage.prompt_tokens,
+          completionTokens: usage.usage.completion_tokens,
+          totalTokens: usage.usage.total_tokens,
+          images: 0
+        }
+      : {
+          userId,
+          date: toDateKey(),
+          model: usage.model,
+          kind: 'image',
+          promptTokens: 0,
+          completionTokens: 0,
+          totalTokens: 0,
+          images: usage.images
+        }
+
+    storage.usage.recordUsage(record).catch(error => console.error('用量记录失败:', error))
+  })
+}
+
+export { checkUsageQuota, createMeteredProvider, estimateCost, getModelPrices, getUsageQuota, secondsUntilQuotaReset }
+export type { ModelPrice, ModelUsage, NewUsageRecord, QuotaStatus, UsageKind, UsageQuota, UsageRecord, UsageTotals }
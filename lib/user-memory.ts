@@ -0,0 +1,67 @@
+/**
+ * 长期记忆
+ * 从对话中提取的用户事实（饮食偏好、过敏、伤病、作息），所有角色共享并注入系统提示，用户可以在设置页修改；
+ * 不论手动添加还是自动提取，保存前都检查提示词注入
+ */
+
+import { z } from 'zod'
+import { findPromptInjection } from './prompt-injection'
+
+const memoryCategories = {
+  preference: '饮食偏好',
+  allergy: '过敏',
+  injury: '伤病',
+  schedule: '作息安排'
+} as const
+
+type MemoryCategory = keyof typeof memoryCategories
+
+/** 每个用户最多保存的事实条数 */
+const MAX_MEMORY_FACTS = 50
+
+const memoryFactSchema = z.object({
+  category: z.enum(['preference', 'allergy', 'injury', 'schedule']),
+  // 折叠换行，避免伪造提示的段落结构
+  content: z.string().trim().min(1, '请输入内容').max(100).transform(value => value.replace(/\s+/g, ' '))
+}).superRefine((fact, ctx) => {
+  const match = findPromptInjection(fact.content)
+  if (match) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['content'], message: `包含不允许的内容：「${match}」` })
+  }
+})
+
+type NewMemoryFact = z.infer<typeof memoryFactSchema>
+
+interface MemoryFact extends NewMemoryFact {
+  id: string
+  /** extracted 为对话中自动提取，user 为用户在设置页添加或修改过 */
+  source: 'extracted' | 'user'
+  createdAt: string
+  updatedAt: string
+}
+
+/**
+ * 用于去重的内容比较，忽略空白、标点和大小写
+ */
+function normalizeFact(content: string): string {
+  return content.toLowerCase().replace(/[\s,.!?;:'"，。！？；：、“”‘’（）()]/g, '')
+}
+
+/**
+ * 生成注入系统提示的记忆段落，没有记忆时返回 null
+ */
+function formatMemoryPrompt(facts: MemoryFact[]): string | null {
+  if (facts.length === 0) return null
+
+  const lines = (Object.keys(memoryCategories) as MemoryCategory[])
+    .map(category => {
+      const contents = facts.filter(fact => fact.category === category).map(fact => fact.content)
+      return contents.length > 0 ? `- ${memoryCategories[category]}：${contents.join('；')}` : null
+    })
+    .filter(line => line !== null)
+
+  return `关于用户的长期记忆（所有教练共享）：\n${lines.join('\n')}\n给建议时务必遵守，例如不推荐用户不吃或过敏的食物、避开伤病部位，也不要重复询问这些信息。`
+}
+
+export { MAX_MEMORY_FACTS, formatMemoryPrompt, memoryCategories, memoryFactSchema, normalizeFact }
+export type { MemoryCategory, MemoryFact, NewMemoryFact }
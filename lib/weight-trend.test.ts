@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { computeTrend, computeWeeklyRate, projectGoalDate, summarizeWeightTrend } from './weight-trend'
+
+describe('computeTrend', () => {
+  it('第一条记录就是趋势起点，之后按平滑系数靠近实际体重', () => {
+    const points = computeTrend([
+      { date: '2024-05-02', weightKg: 79 },
+      { date: '2024-05-01', weightKg: 80 }
+    ])
+
+    expect(points.map(point => point.date)).toEqual(['2024-05-01', '2024-05-02'])
+    expect(points[0].trendKg).toBe(80)
+    expect(points[1].trendKg).toBeCloseTo(79.9)
+  })
+
+  it('漏称几天时按间隔放大平滑系数', () => {
+    const [, daily] = computeTrend([{ date: '2024-05-01', weightKg: 80 }, { date: '2024-05-02', weightKg: 78 }])
+    const [, afterGap] = computeTrend([{ date: '2024-05-01', weightKg: 80 }, { date: '2024-05-11', weightKg: 78 }])
+
+    expect(80 - afterGap.trendKg).toBeGreaterThan(80 - daily.trendKg)
+  })
+})
+
+describe('computeWeeklyRate', () => {
+  it('按趋势线拟合每周变化', () => {
+    const points = Array.from({ length: 15 }, (_, index) => ({
+      date: `2024-05-${String(index + 1).padStart(2, '0')}`,
+      weightKg: 80 - index * 0.1,
+      trendKg: 80 - index * 0.1
+    }))
+
+    expect(computeWeeklyRate(points)).toBeCloseTo(-0.7)
+  })
+
+  it('少于两个点时返回 null', () => {
+    expect(computeWeeklyRate([{ date: '2024-05-01', weightKg: 80, trendKg: 80 }])).toBeNull()
+  })
+})
+
+describe('projectGoalDate', () => {
+  it('按当前速度推算达成日期', () => {
+    expect(projectGoalDate('2024-05-01', 80, -0.5, 79)).toBe('2024-05-15')
+  })
+
+  it('方向不对、没有目标或速度过慢时返回 null', () => {
+    expect(projectGoalDate('2024-05-01', 80, 0.5, 79)).toBeNull()
+    expect(projectGoalDate('2024-05-01', 80, -0.5)).toBeNull()
+    expect(projectGoalDate('2024-05-01', 80, -0.01, 70)).toBeNull()
+  })
+})
+
+describe('summarizeWeightTrend', () => {
+  it('没有记录时各项为空', () => {
+    expect(summarizeWeightTrend([])).toEqual({ points: [], currentTrendKg: null, weeklyRateKg: null, projectedGoalDate: null })
+  })
+})
@@ -0,0 +1,124 @@
+/**
+ * 体重趋势计算
+ * 用指数加权移动平均过滤每天的水分波动，再由趋势线估算每周变化和达成目标的日期
+ */
+
+import { addDays, daysBetween } from './dates'
+
+interface WeightEntry {
+  date: string
+  weightKg: number
+  note?: string
+}
+
+interface TrendPoint {
+  date: string
+  weightKg: number
+  trendKg: number
+}
+
+interface WeightTrendSummary {
+  points: TrendPoint[]
+  /** 最新趋势体重 */
+  currentTrendKg: number | null
+  /** 每周变化（kg），负数表示下降 */
+  weeklyRateKg: number | null
+  /** 按当前速度达到目标体重的日期 */
+  projectedGoalDate: string | null
+}
+
+/** 每天的平滑系数，0.1 约等于近 10 天的加权平均 */
+const DEFAULT_SMOOTHING = 0.1
+
+/** 计算周变化时使用的窗口天数 */
+const RATE_WINDOW_DAYS = 21
+
+/** 预测日期最多向后推算的天数，超过视为不可预测 */
+const MAX_PROJECTION_DAYS = 730
+
+/**
+ * 计算每条称重记录对应的趋势体重
+ * 记录之间有间隔时按间隔天数放大平滑系数，漏称几天不会让趋势停滞
+ */
+function computeTrend(entries: WeightEntry[], smoothing = DEFAULT_SMOOTHING): TrendPoint[] {
+  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date))
+  const points: TrendPoint[] = []
+
+  for (const entry of sorted) {
+    const previous = points[points.length - 1]
+
+    if (!previous) {
+      points.push({ date: entry.date, weightKg: entry.weightKg, trendKg: entry.weightKg })
+      continue
+    }
+
+    const gap = Math.max(daysBetween(previous.date, entry.date), 1)
+    const alpha = 1 - (1 - smoothing) ** gap
+    const trendKg = previous.trendKg + alpha * (entry.weightKg - previous.trendKg)
+
+    points.push({ date: entry.date, weightKg: entry.weightKg, trendKg })
+  }
+
+  return points
+}
+
+/**
+ * 对最近窗口内的趋势点做最小二乘拟合，返回每周变化
+ */
+function computeWeeklyRate(points: TrendPoint[], windowDays = RATE_WINDOW_DAYS): number | null {
+  if (points.length < 2) return null
+
+  const lastDate = points[points.length - 1].date
+  const recent = points.filter(point => daysBetween(point.date, lastDate) <= windowDays)
+  if (recent.length < 2) return null
+
+  const xs = recent.map(point => daysBetween(recent[0].date, point.date))
+  const ys = recent.map(point => point.trendKg)
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length
+
+  let numerator = 0
+  let denominator = 0
+  for (let i = 0; i < xs.length; i++) {
+    numerator += (xs[i] - meanX) * (ys[i] - meanY)
+    denominator += (xs[i] - meanX) ** 2
+  }
+
+  if (denominator === 0) return null
+  return (numerator / denominator) * 7
+}
+
+/**
+ * 按当前周变化推算达到目标体重的日期，方向不对或速度过慢时返回 null
+ */
+function projectGoalDate(lastDate: string, currentTrendKg: number, weeklyRateKg: number | null, goalWeightKg?: number): string | null {
+  if (goalWeightKg === undefined || weeklyRateKg === null || weeklyRateKg === 0) return null
+
+  const remaining = goalWeightKg - currentTrendKg
+  if (Math.abs(remaining) < 0.05) return lastDate
+  if (Math.sign(remaining) !== Math.sign(weeklyRateKg)) return null
+
+  const days = Math.ceil((remaining / weeklyRateKg) * 7)
+  return days <= MAX_PROJECTION_DAYS ? addDays(lastDate, days) : null
+}
+
+function summarizeWeightTrend(entries: WeightEntry[], goalWeightKg?: number): WeightTrendSummary {
+  const points = computeTrend(entries)
+  const last = points[points.length - 1]
+
+  if (!last) {
+    return { points, currentTrendKg: null, weeklyRateKg: null, projectedGoalDate: null }
+  }
+
+  const weeklyRateKg = computeWeeklyRate(points)
+
+  return {
+    points,
+    currentTrendKg: last.trendKg,
+    weeklyRateKg,
+    projectedGoalDate: projectGoalDate(last.date, last.trendKg, weeklyRateKg, goalWeightKg)
+  }
+}
+
+export { computeTrend, computeWeeklyRate, projectGoalDate, summarizeWeightTrend }
+export type { TrendPoint, WeightEntry, WeightTrendSummary }
@@ -0,0 +1,109 @@
+/**
+ * 训练记录
+ * 一次训练包含若干动作，每个动作记录若干组，历史视图按动作汇总训练量和估算 1RM
+ */
+
+import { z } from 'zod'
+import { isDateKey } from './dates'
+import { getExercise } from './exercises'
+
+const workoutSetSchema = z.object({
+  reps: z.coerce.number().int().min(0).max(1000).optional(),
+  weightKg: z.coerce.number().min(0).max(1000).optional(),
+  durationMin: z.coerce.number().min(0).max(600).optional(),
+  distanceKm: z.coerce.number().min(0).max(500).optional()
+})
+
+const workoutExerciseSchema = z.object({
+  exerciseId: z.string().refine(id => getExercise(id) !== null, '未知的动作'),
+  sets: z.array(workoutSetSchema).min(1, '至少记录一组').max(50)
+})
+
+const workoutSessionSchema = z.object({
+  date: z.string().refine(isDateKey, '日期格式应为 YYYY-MM-DD'),
+  title: z.string().trim().max(50).default(''),
+  /** 整次训练的总时长，用于没有逐组计时的力量训练 */
+  durationMin: z.coerce.number().min(0).max(600).optional(),
+  notes: z.string().trim().max(500).optional(),
+  exercises: z.array(workoutExerciseSchema).min(1, '至少添加一个动作').max(30)
+})
+
+type WorkoutSet = z.infer<typeof workoutSetSchema>
+type WorkoutExercise = z.infer<typeof workoutExerciseSchema>
+type NewWorkoutSession = z.infer<typeof workoutSessionSchema>
+
+interface WorkoutSession extends NewWorkoutSession {
+  id: string
+  createdAt: string
+}
+
+interface ExerciseProgressPoint {
+  date: string
+  /** 训练量：重量 × 次数之和 */
+  volumeKg: number
+  /** 当天最佳组的估算 1RM，没有负重组时为 null */
+  estimatedOneRepMaxKg: number | null
+  totalReps: number
+  durationMin: number
+}
+
+/** 超过这个次数时 1RM 估算误差太大，不参与计算 */
+const MAX_REPS_FOR_ONE_REP_MAX = 12
+
+/**
+ * Epley 公式估算 1RM
+ */
+function estimateOneRepMax(weightKg: number, reps: number): number | null {
+  if (weightKg <= 0 || reps <= 0 || reps > MAX_REPS_FOR_ONE_REP_MAX) return null
+  if (reps === 1) return weightKg
+  return weightKg * (1 + reps / 30)
+}
+
+function setVolume(set: WorkoutSet): number {
+  return (set.weightKg || 0) * (set.reps || 0)
+}
+
+/**
+ * 按日期汇总某个动作的训练数据，同一天多次训练合并
+ */
+function summarizeExerciseProgress(sessions: WorkoutSession[], exerciseId: string): ExerciseProgressPoint[] {
+  const byDate = new Map<string, ExerciseProgressPoint>()
+
+  for (const session of sessions) {
+    for (const exercise of session.exercises) {
+      if (exercise.exerciseId !== exerciseId) continue
+
+      const point = byDate.get(session.date) || {
+        date: session.date,
+        volumeKg: 0,
+        estimatedOneRepMaxKg: null,
+        totalReps: 0,
+        durationMin: 0
+      }
+
+      for (const set of exercise.sets) {
+        point.volumeKg += setVolume(set)
+        point.totalReps += set.reps || 0
+        point.durationMin += set.durationMin || 0
+
+        const oneRepMax = estimateOneRepMax(set.weightKg || 0, set.reps || 0)
+        if (oneRepMax !== null && (point.estimatedOneRepMaxKg === null || oneRepMax > point.estimatedOneRepMaxKg)) {
+          point.estimatedOneRepMaxKg = oneRepMax
+        }
+      }
+
+      byDate.set(session.date, point)
+    }
+  }
+
+  return [...byDate.values()]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(point => ({
+      ...point,
+      volumeKg: Math.round(point.volumeKg),
+      estimatedOneRepMaxKg: point.estimatedOneRepMaxKg !== null ? Math.round(point.estimatedOneRepMaxKg * 10) / 10 : null
+    }))
+}
+
+export { estimateOneRepMax, setVolume, summarizeExerciseProgress, workoutExerciseSchema, workoutSessionSchema, workoutSetSchema }
+export type { ExerciseProgressPoint, NewWorkoutSession, WorkoutExercise, WorkoutSession, WorkoutSet }
@@ -0,0 +1,20 @@
+import { fileURLToPath } from "node:url"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL(".", import.meta.url)),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules/**", ".next/**"],
+    // 测试不连真实模型，也不写 SQLite 文件
+    env: {
+      LLM_PROVIDER: "mock",
+      STORAGE_DRIVER: "memory",
+    },
+  },
+})